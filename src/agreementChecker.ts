@@ -0,0 +1,309 @@
+import nlp from 'compromise';
+import { TaggedTerm, tagTerms, hasTag, hasBreakAfter, startsVerbGroup } from './posTagging';
+
+/**
+ * Subject-verb agreement built on compromise POS tags
+ * For each finite verb the checker finds the head of the subject noun phrase,
+ * works out its number and compares it with the verb form. Anything it cannot
+ * resolve confidently (collective nouns, inverted questions, proper names) is skipped.
+ */
+
+export type SubjectNumber = 'first' | 'singular' | 'plural';
+
+export interface AgreementIssue {
+  // The verb that disagrees with its subject; offsets into the checked text
+  start: number;
+  end: number;
+  text: string;
+  // Head of the subject noun phrase
+  subject: string;
+  number: SubjectNumber;
+  // Verb form the subject requires
+  expected: string;
+}
+
+interface VerbForms {
+  first: string;
+  singular: string;
+  plural: string;
+}
+
+// Verbs whose form changes with the subject, grouped by paradigm
+const VERB_PARADIGMS: VerbForms[] = [
+  { first: 'am', singular: 'is', plural: 'are' },
+  { first: 'was', singular: 'was', plural: 'were' },
+  { first: 'have', singular: 'has', plural: 'have' },
+  { first: 'do', singular: 'does', plural: 'do' },
+  { first: 'am not', singular: 'isn\'t', plural: 'aren\'t' },
+  { first: 'wasn\'t', singular: 'wasn\'t', plural: 'weren\'t' },
+  { first: 'haven\'t', singular: 'hasn\'t', plural: 'haven\'t' },
+  { first: 'don\'t', singular: 'doesn\'t', plural: 'don\'t' }
+];
+
+const PARADIGM_BY_FORM = new Map<string, VerbForms>();
+for (const paradigm of VERB_PARADIGMS) {
+  for (const form of [paradigm.first, paradigm.singular, paradigm.plural]) {
+    PARADIGM_BY_FORM.set(form, paradigm);
+  }
+}
+
+const PRONOUN_NUMBER: Record<string, SubjectNumber> = {
+  'i': 'first',
+  'you': 'plural', 'we': 'plural', 'they': 'plural', 'these': 'plural', 'those': 'plural',
+  'he': 'singular', 'she': 'singular', 'it': 'singular', 'this': 'singular', 'that': 'singular',
+  'everyone': 'singular', 'everybody': 'singular', 'everything': 'singular',
+  'someone': 'singular', 'somebody': 'singular', 'something': 'singular',
+  'anyone': 'singular', 'anybody': 'singular', 'anything': 'singular',
+  'no one': 'singular', 'nobody': 'singular', 'nothing': 'singular',
+  'each': 'singular', 'either': 'singular', 'neither': 'singular', 'one': 'singular',
+  'both': 'plural', 'many': 'plural', 'few': 'plural', 'several': 'plural'
+};
+
+// Heads that take their number from an "of" phrase: "some of the cake is", "some of the cakes are"
+const PARTITIVES = new Set(['all', 'some', 'most', 'half', 'none', 'any', 'lot', 'lots', 'rest', 'majority', 'plenty', 'part', 'percent', 'remainder']);
+
+// Nouns that are singular or plural depending on meaning or dialect ("the team is/are")
+const AMBIGUOUS_NOUNS = new Set([
+  'team', 'family', 'staff', 'government', 'committee', 'audience', 'crew', 'group', 'class',
+  'couple', 'jury', 'public', 'company', 'band', 'board', 'council', 'management', 'majority',
+  'data', 'media', 'sheep', 'fish', 'deer', 'series', 'species', 'aircraft', 'means', 'offspring',
+  'number', 'here', 'there', 'what', 'which', 'who', 'whom', 'whose'
+]);
+
+const IRREGULAR_PLURALS = new Set([
+  'people', 'children', 'men', 'women', 'mice', 'feet', 'teeth', 'geese', 'police', 'cattle',
+  'criteria', 'phenomena', 'alumni', 'cacti', 'fungi', 'oxen', 'dice', 'teeth'
+]);
+
+// Singular nouns ending in "s"
+const SINGULAR_S_NOUNS = new Set(['news', 'bus', 'gas', 'lens', 'chaos', 'atlas', 'canvas', 'iris', 'measles', 'diabetes']);
+
+const RELATIVE_PRONOUNS = new Set(['who', 'which', 'that']);
+
+// A preceding "if" or "wish" makes "were" subjunctive: "if I were you"
+const SUBJUNCTIVE_PATTERN = /\b(if|wish|wishes|wished|as though)\b/i;
+
+interface Subject {
+  head: TaggedTerm;
+  number: SubjectNumber;
+}
+
+/**
+ * Number of a single noun or pronoun, or null when it cannot be told
+ */
+function termNumber(term: TaggedTerm): SubjectNumber | null {
+  const word = term.normal;
+
+  if (PRONOUN_NUMBER[word]) return PRONOUN_NUMBER[word];
+  if (hasTag(term, 'Pronoun') || AMBIGUOUS_NOUNS.has(word)) return null;
+  if (hasTag(term, 'ProperNoun', 'Person', 'Place', 'Organization')) return null;
+  if (hasTag(term, 'Unit', 'Currency', 'Money', 'Percent')) return null;
+  if (!hasTag(term, 'Noun')) return null;
+
+  if (IRREGULAR_PLURALS.has(word)) return 'plural';
+  if (SINGULAR_S_NOUNS.has(word) || /(ss|us|is|ous|'s)$/.test(word)) return 'singular';
+  if (/ics$/.test(word)) return null;
+  if (/[^s]s$/.test(word)) return 'plural';
+  return 'singular';
+}
+
+function isNounLike(term: TaggedTerm): boolean {
+  return hasTag(term, 'Noun', 'Pronoun') || PRONOUN_NUMBER[term.normal] !== undefined || PARTITIVES.has(term.normal);
+}
+
+/**
+ * Words that can sit in front of a head noun inside its noun phrase
+ */
+function isModifier(term: TaggedTerm): boolean {
+  if (hasTag(term, 'Pronoun') && !hasTag(term, 'Possessive')) return false;
+  return hasTag(term, 'Determiner', 'Adjective', 'Noun', 'Possessive', 'Value');
+}
+
+// compromise does not tag "to" as a preposition ("the key to the cabinets")
+function isPreposition(term: TaggedTerm): boolean {
+  return hasTag(term, 'Preposition') || term.normal === 'to';
+}
+
+/**
+ * Whether a relative pronoun opens a relative clause here: "who"/"which", or "that" after a noun
+ */
+function isRelativePronoun(terms: TaggedTerm[], index: number): boolean {
+  const term = terms[index];
+  if (term.normal === 'that') return index > 0 && hasTag(terms[index - 1], 'Noun') && !hasBreakAfter(terms[index - 1]);
+  return RELATIVE_PRONOUNS.has(term.normal);
+}
+
+/**
+ * Whether a verb comes before `index` in the same clause, making the noun there an object
+ */
+function followsVerbInClause(terms: TaggedTerm[], index: number): boolean {
+  for (let i = index - 1; i >= 0 && !hasBreakAfter(terms[i]); i--) {
+    if (isRelativePronoun(terms, i)) return false;
+    if (hasTag(terms[i], 'Verb') && !hasTag(terms[i], 'Gerund')) return true;
+  }
+  return false;
+}
+
+/**
+ * Index of the first term of the noun phrase ending at `headIndex`
+ */
+function phraseStart(terms: TaggedTerm[], headIndex: number): number {
+  let start = headIndex;
+  while (start > 0 && isModifier(terms[start - 1]) && !hasBreakAfter(terms[start - 1]) && !isRelativePronoun(terms, start - 1)) {
+    start--;
+  }
+  return start;
+}
+
+/**
+ * Resolve the subject whose noun phrase ends at `headIndex`, following "of" phrases,
+ * coordination and relative pronouns; the search never crosses clause punctuation
+ * or a relative pronoun
+ */
+function resolveSubject(terms: TaggedTerm[], headIndex: number): Subject | null {
+  const head = terms[headIndex];
+
+  // "the dogs that bark": the relative pronoun stands for the noun before it
+  if (RELATIVE_PRONOUNS.has(head.normal) && headIndex > 0 && hasTag(terms[headIndex - 1], 'Noun')) {
+    return resolveSubject(terms, headIndex - 1);
+  }
+  if (!isNounLike(head)) return null;
+
+  const start = phraseStart(terms, headIndex);
+  // A comma or semicolon before the phrase starts a new clause: "..., the cat are here"
+  const before = start > 0 && !hasBreakAfter(terms[start - 1]) ? terms[start - 1] : null;
+  const number = termNumber(head);
+
+  // "the boy who plays drums": a noun right after a relative pronoun is not reliably its subject
+  if (before && isRelativePronoun(terms, start - 1)) return null;
+
+  if (before && start > 1 && isNounLike(terms[start - 2])) {
+    const outerHead = terms[start - 2];
+
+    // "some of the cakes are": partitives take the number of their "of" phrase
+    if (before.normal === 'of' && PARTITIVES.has(outerHead.normal)) {
+      return number ? { head, number } : null;
+    }
+
+    // "the list of items is", "the key to the cabinets is": the noun before the
+    // prepositional phrase is the head
+    if (isPreposition(before)) {
+      return resolveSubject(terms, start - 2);
+    }
+
+    // "my brother and I are"; "bread and butter is" is left alone, and in "she plays
+    // piano and he plays" the first noun is an object, so "and" joins two clauses
+    if (before.normal === 'and' && termNumber(outerHead) !== null && !followsVerbInClause(terms, phraseStart(terms, start - 2))) {
+      if (hasTag(head, 'Uncountable') && hasTag(outerHead, 'Uncountable')) return null;
+      return { head: outerHead, number: 'plural' };
+    }
+  }
+
+  // Noun phrases right after a verb or preposition are objects, not subjects
+  if (before && (hasTag(before, 'Verb') || isPreposition(before))) {
+    return null;
+  }
+  if (PARTITIVES.has(head.normal)) return null;
+
+  return number ? { head, number } : null;
+}
+
+/**
+ * Subject of "there is/are": the noun phrase after the verb
+ */
+function existentialSubject(terms: TaggedTerm[], verbIndex: number): Subject | null {
+  for (let i = verbIndex + 1; i < terms.length; i++) {
+    const term = terms[i];
+    if (hasTag(term, 'Determiner', 'Adjective', 'Value', 'Adverb') && !hasTag(term, 'Noun')) continue;
+
+    const number = termNumber(term);
+    // "there is a cat and a dog" is idiomatic, so only the first noun counts
+    return number ? { head: term, number } : null;
+  }
+  return null;
+}
+
+/**
+ * Find the subject of the finite verb at `verbIndex`
+ */
+function findSubject(terms: TaggedTerm[], verbIndex: number): Subject | null {
+  let index = verbIndex - 1;
+  while (index >= 0 && hasTag(terms[index], 'Adverb') && !hasTag(terms[index], 'Noun') && !hasBreakAfter(terms[index])) {
+    index--;
+  }
+  if (index < 0 || hasBreakAfter(terms[index])) return null;
+
+  if (hasTag(terms[index], 'There') && terms[index].normal === 'there') {
+    return existentialSubject(terms, verbIndex);
+  }
+  return resolveSubject(terms, index);
+}
+
+function matchCase(source: string, replacement: string): string {
+  return /^[A-Z]/.test(source) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+}
+
+/**
+ * Verb form required by the subject, or null when the verb already agrees
+ */
+function expectedForm(verb: TaggedTerm, number: SubjectNumber, sentence: string): string | null {
+  const word = verb.normal;
+  const paradigm = PARADIGM_BY_FORM.get(word);
+
+  if (paradigm) {
+    const expected = paradigm[number];
+    if (word === 'were' && number !== 'plural' && SUBJUNCTIVE_PATTERN.test(sentence.slice(0, verb.start))) {
+      return null;
+    }
+    // "I have", "I do": first person shares the plural form except for "be"
+    return expected === word ? null : expected;
+  }
+
+  if (!hasTag(verb, 'PresentTense') || hasTag(verb, 'Copula', 'Modal', 'Auxiliary', 'Gerund')) {
+    return null;
+  }
+
+  const isBaseForm = hasTag(verb, 'Infinitive');
+  if (number === 'singular' && isBaseForm) {
+    const conjugation = nlp(word).verbs().conjugate()[0] as { PresentTense?: string } | undefined;
+    return conjugation?.PresentTense || null;
+  }
+  if (number !== 'singular' && !isBaseForm) {
+    return nlp(word).verbs().toInfinitive().text() || null;
+  }
+  return null;
+}
+
+/**
+ * Find subject-verb agreement errors in a sentence
+ * @param sentence - Sentence text; several sentences are fine but slower
+ * @returns One issue per disagreeing verb, with the form its subject requires
+ */
+export function findAgreementErrors(sentence: string): AgreementIssue[] {
+  const issues: AgreementIssue[] = [];
+  const terms = tagTerms(sentence);
+
+  terms.forEach((term, index) => {
+    if (!hasTag(term, 'Verb') || !startsVerbGroup(terms, index)) return;
+
+    const isParadigmVerb = PARADIGM_BY_FORM.has(term.normal);
+    if (!isParadigmVerb && !hasTag(term, 'PresentTense')) return;
+
+    const subject = findSubject(terms, index);
+    if (!subject) return;
+
+    const expected = expectedForm(term, subject.number, sentence);
+    if (expected && expected !== term.normal) {
+      issues.push({
+        start: term.start,
+        end: term.end,
+        text: term.text,
+        subject: subject.head.text,
+        number: subject.number,
+        expected: matchCase(term.text, expected)
+      });
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,454 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { EventEmitter } from 'events';
+import {
+  CheckResult,
+  GrammarCheckOptions,
+  InlineSuggestion,
+  getGrammarResultsVersion,
+  exportGrammarRulePacks,
+  getGrammarRuleFilter,
+  posTagger
+} from './grammarEngine';
+import {
+  StyleCheckOptions,
+  Suggestion,
+  exportStyleRulePacks,
+  getStyleRuleFilter,
+  getReadabilityOptions,
+  getStyleRulesVersion,
+  getTypographyPreferences
+} from './styleService';
+import type { DictionaryStore } from './dictionaryStore';
+import type { RuleFilter } from './ruleFilter';
+import type { RulePackSnapshot } from './rulePacks';
+import type { TypographyPreferences } from './typography';
+import type { ReadabilityOptions } from './readability';
+import { logger } from './logger';
+
+/**
+ * Pool of worker threads that run the analysis engines off the Electron main process
+ * Requests and results cross the thread boundary as plain (structured-clone)
+ * messages. Requests wait in one queue ordered by the focused document first,
+ * then priority, then arrival; a new request for a document supersedes its
+ * queued request of the same kind, and any request can be cancelled with an
+ * AbortSignal. Each document sticks to one worker, which keeps an incremental
+ * model of it for grammar checks.
+ * Workers load their own copy of the engines; the loaded rule packs, rule
+ * filters, typography and readability preferences and the user dictionary are
+ * copied to them before the next request whenever they change in the main process.
+ */
+
+export type AnalysisTask =
+  | { kind: 'grammar'; text: string; options?: GrammarCheckOptions }
+  | { kind: 'style'; text: string; options?: StyleCheckOptions }
+  | { kind: 'posTag'; text: string }
+  | { kind: 'inline'; text: string };
+
+export type AnalysisKind = AnalysisTask['kind'];
+
+// Result type of each task kind
+export interface AnalysisResults {
+  grammar: CheckResult[];
+  style: Suggestion[];
+  posTag: ReturnType<typeof posTagger>;
+  inline: InlineSuggestion[];
+}
+
+export type AnalysisPriority = 'high' | 'normal' | 'low';
+
+export interface AnalysisRequestOptions {
+  // Document the text belongs to, e.g. the focused element's id
+  documentId?: string;
+  priority?: AnalysisPriority;
+  signal?: AbortSignal;
+}
+
+export interface AnalysisPoolOptions {
+  // Number of workers; defaults to one less than the CPU count, between 1 and 4
+  size?: number;
+  // Worker entry point; defaults to analysisWorker next to this module
+  workerScript?: string;
+  // Source of the user dictionary shared with the workers
+  dictionaryStore?: DictionaryStore;
+}
+
+// Engine configuration copied from the main process to every worker
+export interface AnalysisState {
+  // The loaded rule packs as validated in the main process, in load order; workers
+  // never read pack files, so they run the same version even after a rejected edit
+  grammarPacks: RulePackSnapshot[];
+  stylePacks: RulePackSnapshot[];
+  customWords: string[];
+  grammarFilter: RuleFilter;
+  styleFilter: RuleFilter;
+  typography: TypographyPreferences | null;
+  readability: ReadabilityOptions | null;
+  // Engine versions, so any other change to the main process's rules is picked up
+  grammarVersion: number;
+  styleVersion: number;
+}
+
+export type WorkerRequest =
+  | { type: 'configure'; state: AnalysisState }
+  | { type: 'run'; id: number; task: AnalysisTask; documentId?: string }
+  | { type: 'release'; documentId: string };
+
+export type WorkerResponse =
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; message: string };
+
+interface PendingRequest<K extends AnalysisKind = AnalysisKind> {
+  id: number;
+  task: AnalysisTask & { kind: K };
+  documentId?: string;
+  priority: AnalysisPriority;
+  // Method syntax, so a request for one kind can wait in the queue of all kinds
+  resolve(result: AnalysisResults[K]): void;
+  reject: (error: Error) => void;
+  // Detaches the abort listener
+  cleanup: () => void;
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  // Request being processed; null when idle
+  current: PendingRequest | null;
+  // Set when the current request was cancelled; its result is discarded
+  discard: boolean;
+  // Serialised AnalysisState the worker last received
+  stateKey: string;
+  // Documents pinned to this worker
+  documents: Set<string>;
+}
+
+const PRIORITY_RANK: Record<AnalysisPriority, number> = { high: 0, normal: 1, low: 2 };
+const MAX_DEFAULT_WORKERS = 4;
+
+/**
+ * Error used to reject cancelled and superseded requests
+ */
+function cancelledError(): Error {
+  const error = new Error('Analysis request was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Whether a pool request failed only because it was cancelled or superseded
+ */
+export function isAnalysisCancelled(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function defaultWorkerScript(): string {
+  const compiled = path.join(__dirname, 'analysisWorker.js');
+  return fs.existsSync(compiled) ? compiled : path.join(__dirname, 'analysisWorker.ts');
+}
+
+export class AnalysisPool extends EventEmitter {
+  private readonly size: number;
+  private readonly workerScript: string;
+  private readonly dictionaryStore?: DictionaryStore;
+  private slots: WorkerSlot[] = [];
+  private queue: PendingRequest[] = [];
+  private nextId = 1;
+  private focusedDocument: string | null = null;
+  private customWords: string[] = [];
+  private running = false;
+
+  constructor(options: AnalysisPoolOptions = {}) {
+    super();
+    this.size = Math.max(1, options.size ?? Math.min(MAX_DEFAULT_WORKERS, os.cpus().length - 1));
+    this.workerScript = options.workerScript || defaultWorkerScript();
+    this.dictionaryStore = options.dictionaryStore;
+  }
+
+  /**
+   * Spawn the workers and start taking requests
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    if (this.dictionaryStore) {
+      this.dictionaryStore.on('changed', this.syncCustomWords);
+      await this.syncCustomWords();
+    }
+    for (let i = 0; i < this.size; i++) {
+      this.slots.push(this.spawn());
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Terminate the workers; queued and running requests are rejected
+   */
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    this.dictionaryStore?.off('changed', this.syncCustomWords);
+    const stopped = new Error('Analysis pool stopped');
+    for (const request of this.queue.splice(0)) {
+      this.settle(request, stopped);
+    }
+
+    const slots = this.slots.splice(0);
+    for (const slot of slots) {
+      if (slot.current) {
+        this.settle(slot.current, stopped);
+        slot.current = null;
+      }
+    }
+    await Promise.all(slots.map(slot => slot.worker.terminate()));
+  }
+
+  /**
+   * Run a task on the next free worker
+   * @param task - What to analyse
+   * @param options - Document, priority and cancellation signal
+   * @returns The task's result
+   * @throws AbortError when cancelled or superseded (see isAnalysisCancelled), or the worker's error
+   */
+  run<T extends AnalysisTask>(task: T, options: AnalysisRequestOptions = {}): Promise<AnalysisResults[T['kind']]> {
+    if (!this.running) {
+      return Promise.reject(new Error('Analysis pool is not running'));
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(cancelledError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const request: PendingRequest<T['kind']> = {
+        id: this.nextId++,
+        task,
+        documentId: options.documentId,
+        priority: options.priority || 'normal',
+        resolve,
+        reject,
+        cleanup: () => {}
+      };
+
+      if (options.signal) {
+        const signal = options.signal;
+        const onAbort = () => this.cancel(request);
+        signal.addEventListener('abort', onAbort, { once: true });
+        request.cleanup = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      // Only the newest queued text of a document matters
+      if (request.documentId) {
+        for (const queued of this.queue.filter(entry => entry.documentId === request.documentId && entry.task.kind === task.kind)) {
+          this.cancel(queued);
+        }
+      }
+
+      this.queue.push(request);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Give the document's requests precedence over every other queued request
+   * @param documentId - Focused document, or null when nothing is focused
+   */
+  setFocusedDocument(documentId: string | null): void {
+    this.focusedDocument = documentId;
+  }
+
+  /**
+   * Drop the worker's model of a document that was closed or lost focus for good
+   */
+  releaseDocument(documentId: string): void {
+    for (const slot of this.slots) {
+      if (slot.documents.delete(documentId)) {
+        this.post(slot, { type: 'release', documentId });
+      }
+    }
+  }
+
+  /**
+   * Engine configuration the workers should have, read from the main process
+   */
+  currentState(): AnalysisState {
+    return {
+      grammarPacks: exportGrammarRulePacks(),
+      stylePacks: exportStyleRulePacks(),
+      customWords: this.customWords,
+      grammarFilter: getGrammarRuleFilter(),
+      styleFilter: getStyleRuleFilter(),
+      typography: getTypographyPreferences(),
+      readability: getReadabilityOptions(),
+      grammarVersion: getGrammarResultsVersion(),
+      styleVersion: getStyleRulesVersion()
+    };
+  }
+
+  /**
+   * Number of requests waiting for a worker
+   */
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  private readonly syncCustomWords = async (): Promise<void> => {
+    try {
+      this.customWords = await this.dictionaryStore!.listWords();
+    } catch (error) {
+      logger.debug(`Custom words not shared with workers: ${(error as Error).message}`, 'AnalysisPool');
+    }
+  };
+
+  private spawn(): WorkerSlot {
+    const worker = new Worker(this.workerScript, {
+      execArgv: this.workerScript.endsWith('.ts') ? ['--require', 'ts-node/register'] : undefined
+    });
+    const slot: WorkerSlot = { worker, current: null, discard: false, stateKey: '', documents: new Set() };
+
+    worker.on('message', (message: WorkerResponse) => this.onMessage(slot, message));
+    worker.on('error', error => logger.error('Analysis worker failed', 'AnalysisPool', error));
+    worker.on('exit', code => this.onExit(slot, code));
+    return slot;
+  }
+
+  private onMessage(slot: WorkerSlot, message: WorkerResponse): void {
+    const request = slot.current;
+    if (!request || request.id !== message.id) {
+      return;
+    }
+
+    slot.current = null;
+    if (!slot.discard) {
+      this.settle(request, message.type === 'error' ? new Error(message.message) : undefined, message.type === 'result' ? message.result : undefined);
+    }
+    slot.discard = false;
+    this.dispatch();
+  }
+
+  /**
+   * A worker died: fail its request, unpin its documents and replace it
+   */
+  private onExit(slot: WorkerSlot, code: number): void {
+    const index = this.slots.indexOf(slot);
+    if (index === -1) {
+      return;
+    }
+
+    logger.error(`Analysis worker exited with code ${code}; restarting it`, 'AnalysisPool');
+    if (slot.current && !slot.discard) {
+      this.settle(slot.current, new Error(`Analysis worker exited with code ${code}`));
+    }
+    this.slots[index] = this.spawn();
+    this.emit('worker-restarted', { index, code });
+    this.dispatch();
+  }
+
+  private cancel(request: PendingRequest): void {
+    const queued = this.queue.indexOf(request);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      this.settle(request, cancelledError());
+      return;
+    }
+
+    // Already running: the worker cannot be interrupted, so its result is discarded
+    const slot = this.slots.find(entry => entry.current === request);
+    if (slot && !slot.discard) {
+      slot.discard = true;
+      this.settle(request, cancelledError());
+    }
+  }
+
+  private settle(request: PendingRequest, error?: Error, result?: unknown): void {
+    request.cleanup();
+    if (error) {
+      request.reject(error);
+    } else {
+      // Workers answer each task kind with that kind's result
+      request.resolve(result as AnalysisResults[AnalysisKind]);
+    }
+  }
+
+  /**
+   * Hand queued requests to idle workers, best request first
+   */
+  private dispatch(): void {
+    if (!this.running || this.queue.length === 0) {
+      return;
+    }
+
+    let stateKey: string | null = null;
+    for (const slot of this.slots) {
+      if (slot.current) continue;
+
+      const request = this.nextRequestFor(slot);
+      if (!request) continue;
+
+      this.queue.splice(this.queue.indexOf(request), 1);
+      if (request.documentId && !slot.documents.has(request.documentId)) {
+        slot.documents.add(request.documentId);
+      }
+
+      stateKey = stateKey ?? JSON.stringify(this.currentState());
+      if (slot.stateKey !== stateKey) {
+        this.post(slot, { type: 'configure', state: JSON.parse(stateKey) });
+        slot.stateKey = stateKey;
+      }
+
+      slot.current = request;
+      this.post(slot, { type: 'run', id: request.id, task: request.task, documentId: request.documentId });
+    }
+  }
+
+  /**
+   * The best queued request this worker may take: documents pinned elsewhere wait for their worker
+   */
+  private nextRequestFor(slot: WorkerSlot): PendingRequest | null {
+    let best: PendingRequest | null = null;
+    for (const request of this.queue) {
+      if (request.documentId && !slot.documents.has(request.documentId) && this.pinnedSlot(request.documentId, slot) !== slot) {
+        continue;
+      }
+      if (!best || this.compare(request, best) < 0) {
+        best = request;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Worker a document runs on: the one it is pinned to, or the one with fewest documents
+   */
+  private pinnedSlot(documentId: string, candidate: WorkerSlot): WorkerSlot {
+    const pinned = this.slots.find(slot => slot.documents.has(documentId));
+    if (pinned) {
+      return pinned;
+    }
+    const fewest = Math.min(...this.slots.map(slot => slot.documents.size));
+    return candidate.documents.size === fewest ? candidate : this.slots.find(slot => slot.documents.size === fewest)!;
+  }
+
+  private compare(a: PendingRequest, b: PendingRequest): number {
+    const focusA = a.documentId !== undefined && a.documentId === this.focusedDocument ? 0 : 1;
+    const focusB = b.documentId !== undefined && b.documentId === this.focusedDocument ? 0 : 1;
+    return focusA - focusB || PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.id - b.id;
+  }
+
+  private post(slot: WorkerSlot, message: WorkerRequest): void {
+    slot.worker.postMessage(message);
+  }
+}
+
+/**
+ * Create an analysis pool; call start() before running requests
+ */
+export function createAnalysisPool(options: AnalysisPoolOptions = {}): AnalysisPool {
+  return new AnalysisPool(options);
+}
@@ -0,0 +1,134 @@
+import { parentPort } from 'worker_threads';
+import {
+  addProperNounResults,
+  checkGrammar,
+  loadGrammarRulePack,
+  posTagger,
+  setGrammarCustomWords,
+  setGrammarRuleFilter,
+  suggestInlineEnhancements,
+  unloadGrammarRulePack
+} from './grammarEngine';
+import {
+  loadStyleRulePack,
+  setReadabilityOptions,
+  setStyleRuleFilter,
+  setTypographyPreferences,
+  suggestStyle,
+  unloadStyleRulePack
+} from './styleService';
+import { loadSpellDictionary } from './spellChecker';
+import { IncrementalChecker } from './incrementalChecker';
+import { RulePackInfo, RulePackSnapshot } from './rulePacks';
+import type { AnalysisState, AnalysisTask, WorkerRequest, WorkerResponse } from './analysisPool';
+import { logger } from './logger';
+
+/**
+ * Worker side of the analysis pool (see analysisPool)
+ * Runs one request at a time against this thread's copy of the engines, which
+ * 'configure' messages keep in step with the main process.
+ */
+
+// Incremental model of each document pinned to this worker, with the options it was built for
+const documents = new Map<string, { optionsKey: string; checker: IncrementalChecker }>();
+
+// Pack id -> serialised snapshot the pack was loaded from
+const grammarPacks = new Map<string, string>();
+const stylePacks = new Map<string, string>();
+
+/**
+ * Load the packs whose snapshot changed and unload packs no longer listed
+ * Unchanged packs are left alone, so their self-tests do not run again
+ */
+function syncPacks(
+  loaded: Map<string, string>,
+  packs: RulePackSnapshot[],
+  load: (config: unknown, file?: string) => RulePackInfo,
+  unload: (id: string) => boolean
+): void {
+  const listed = new Set(packs.map(pack => pack.id));
+  for (const id of loaded.keys()) {
+    if (!listed.has(id)) {
+      unload(id);
+      loaded.delete(id);
+    }
+  }
+
+  for (const pack of packs) {
+    const key = JSON.stringify(pack);
+    if (loaded.get(pack.id) === key) continue;
+    try {
+      load(pack.config, pack.file);
+      loaded.set(pack.id, key);
+    } catch (error) {
+      logger.warn(`Worker failed to load rule pack ${pack.id}: ${(error as Error).message}`, 'AnalysisWorker');
+    }
+  }
+}
+
+function configure(state: AnalysisState): void {
+  setGrammarRuleFilter(state.grammarFilter);
+  setStyleRuleFilter(state.styleFilter);
+  setTypographyPreferences(state.typography);
+  setReadabilityOptions(state.readability);
+  setGrammarCustomWords(state.customWords);
+  syncPacks(grammarPacks, state.grammarPacks, loadGrammarRulePack, unloadGrammarRulePack);
+  syncPacks(stylePacks, state.stylePacks, loadStyleRulePack, unloadStyleRulePack);
+}
+
+function checkDocument(documentId: string, task: Extract<AnalysisTask, { kind: 'grammar' }>) {
+  const optionsKey = JSON.stringify(task.options || {});
+  let entry = documents.get(documentId);
+  if (!entry || entry.optionsKey !== optionsKey) {
+    entry = { optionsKey, checker: new IncrementalChecker(task.options) };
+    documents.set(documentId, entry);
+  }
+  return entry.checker.update(task.text);
+}
+
+async function runTask(task: AnalysisTask, documentId?: string): Promise<unknown> {
+  switch (task.kind) {
+    case 'grammar':
+      return addProperNounResults(
+        task.text,
+        documentId ? checkDocument(documentId, task) : checkGrammar(task.text, task.options),
+        task.options
+      );
+    case 'style':
+      return suggestStyle(task.text, task.options);
+    case 'posTag':
+      return posTagger(task.text);
+    case 'inline':
+      return suggestInlineEnhancements(task.text);
+    default:
+      throw new Error(`Unknown analysis task: ${(task as { kind: string }).kind}`);
+  }
+}
+
+// Requests run strictly in order, so a configure always lands between two tasks
+let chain: Promise<void> = Promise.resolve();
+
+async function handle(message: WorkerRequest): Promise<void> {
+  if (message.type === 'configure') {
+    configure(message.state);
+  } else if (message.type === 'release') {
+    documents.delete(message.documentId);
+  } else if (message.type === 'run') {
+    let response: WorkerResponse;
+    try {
+      response = { type: 'result', id: message.id, result: await runTask(message.task, message.documentId) };
+    } catch (error) {
+      response = { type: 'error', id: message.id, message: error instanceof Error ? error.message : String(error) };
+    }
+    parentPort!.postMessage(response);
+  }
+}
+
+if (parentPort) {
+  loadSpellDictionary();
+  parentPort.on('message', (message: WorkerRequest) => {
+    chain = chain.then(() => handle(message)).catch(error => {
+      logger.error('Analysis worker failed to handle a message', 'AnalysisWorker', error as Error);
+    });
+  });
+}
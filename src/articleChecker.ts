@@ -0,0 +1,204 @@
+import { TaggedTerm, tagTerms, hasTag, hasBreakAfter } from './posTagging';
+import { EnglishLocale, DEFAULT_LOCALE } from './localeVariants';
+
+/**
+ * Article checks: "a" versus "an" by the sound of the next word, and common
+ * singular count nouns used without any determiner ("she is teacher")
+ */
+
+export interface ArticleIssue {
+  kind: 'a-an' | 'missing-determiner';
+  // Covered text; offsets into the checked text (end is exclusive)
+  start: number;
+  end: number;
+  text: string;
+  // Replacement for the covered text, in the original casing of the article
+  replacement: string;
+  // Other replacements that fit as well; a missing determiner could be "a" or "the"
+  alternatives?: string[];
+  // Word that decides the article ("hour" in "a hour")
+  word: string;
+}
+
+export interface ArticleCheckOptions {
+  // "an herb" is American; British English says "a herb"
+  locale?: EnglishLocale;
+}
+
+// Words spelled with a vowel but starting with a consonant sound ("a university")
+const CONSONANT_SOUND_PREFIXES = [
+  'eu', 'ewe', 'one', 'once', 'ouija', 'unic', 'unif', 'unio', 'uniq', 'unis', 'unit', 'univ', 'unil',
+  'usa', 'use', 'usu', 'usur', 'ute', 'uti', 'uto', 'ura', 'ure', 'uri', 'ubi', 'uku', 'ufo', 'uga'
+];
+
+// Words spelled with a consonant but starting with a vowel sound ("an hour")
+const VOWEL_SOUND_PREFIXES = ['hour', 'honest', 'honor', 'honour', 'heir'];
+const AMERICAN_VOWEL_SOUND_PREFIXES = ['herb'];
+
+// Acronyms read as words rather than letter by letter ("a NATO summit", "an MRI")
+const WORD_ACRONYMS = new Set([
+  'nasa', 'nato', 'unesco', 'unicef', 'fifa', 'scuba', 'laser', 'radar', 'gif', 'jpeg', 'png',
+  'aids', 'opec', 'ikea', 'asap', 'url', 'faq', 'sql', 'gui', 'emoji', 'ascii', 'ansi', 'iso', 'ieee'
+]);
+
+// Letter names that begin with a vowel sound: "an F", "an MRI", "an X-ray"
+const VOWEL_LETTER_NAMES = new Set('aefhilmnorsx'.split(''));
+
+// Everyday count nouns checked for a missing determiner ("I have car"). The list is
+// explicit because compromise tags mass and idiomatic uses ("I buy milk", "she plays
+// guitar", "he writes code") as singular nouns too; nouns that commonly go bare
+// ("go home", "at school", "by bus") are left out
+const COUNT_NOUNS = new Set([
+  'car', 'bike', 'bicycle', 'truck', 'van', 'boat', 'ship', 'plane', 'taxi', 'ticket',
+  'house', 'flat', 'apartment', 'room', 'garden', 'garage', 'office', 'shop', 'store', 'restaurant',
+  'dog', 'cat', 'horse', 'bird', 'rabbit', 'pet', 'cow', 'mouse',
+  'teacher', 'doctor', 'nurse', 'student', 'engineer', 'lawyer', 'driver', 'manager', 'programmer', 'developer',
+  'designer', 'writer', 'singer', 'actor', 'farmer', 'soldier', 'pilot', 'scientist', 'artist', 'friend',
+  'brother', 'sister', 'son', 'daughter', 'husband', 'wife', 'boyfriend', 'girlfriend', 'child', 'baby',
+  'phone', 'laptop', 'computer', 'camera', 'watch', 'clock', 'radio', 'printer', 'tablet', 'keyboard',
+  'table', 'chair', 'desk', 'sofa', 'lamp', 'window', 'door', 'key', 'bag', 'box',
+  'book', 'pen', 'pencil', 'letter', 'card', 'map', 'umbrella', 'wallet', 'ring', 'coat',
+  'question', 'problem', 'idea', 'plan', 'job', 'meeting', 'appointment', 'mistake', 'decision', 'reason'
+]);
+
+// Verbs that take a role without an article ("she became president")
+const ROLE_VERBS = new Set([
+  'become', 'becomes', 'became', 'elect', 'elects', 'elected', 'appoint', 'appoints', 'appointed',
+  'name', 'names', 'named', 'crown', 'crowned', 'remain', 'remains', 'remained', 'turn', 'turned'
+]);
+
+const ARTICLE_PATTERN = /\b(a|an)(\s+)(["“'‘(]?)([A-Za-z0-9][A-Za-z0-9'’-]*)/gi;
+
+/**
+ * Whether a word is pronounced with a vowel sound first
+ * @param word - Word, number or acronym following the article
+ */
+export function startsWithVowelSound(word: string, options: ArticleCheckOptions = {}): boolean {
+  const lower = word.toLowerCase();
+
+  if (/^\d/.test(word)) {
+    // "an 8", "an 11-year-old", "an 18th", "an 80", "an 800"
+    return /^(8|11(?![\d.])|18(?![\d.])|11,\d{3}(?![\d,])|18,\d{3}(?![\d,]))/.test(word);
+  }
+
+  // Single letters and letter-led compounds are read as letter names: "an X-ray", "a U-turn"
+  const letters = word.match(/^([A-Z]{2,})(s|'s)?$/);
+  const isLetterCompound = /^[A-Za-z]-/.test(word) || word.length === 1;
+  if ((letters && !WORD_ACRONYMS.has(letters[1].toLowerCase())) || isLetterCompound) {
+    return VOWEL_LETTER_NAMES.has(lower[0]);
+  }
+
+  const vowelPrefixes = (options.locale || DEFAULT_LOCALE) === 'en-US'
+    ? [...VOWEL_SOUND_PREFIXES, ...AMERICAN_VOWEL_SOUND_PREFIXES]
+    : VOWEL_SOUND_PREFIXES;
+  if (vowelPrefixes.some(prefix => lower.startsWith(prefix))) return true;
+  if (CONSONANT_SOUND_PREFIXES.some(prefix => lower.startsWith(prefix))) return false;
+
+  return /^[aeiou]/.test(lower);
+}
+
+/**
+ * The indefinite article a word takes
+ */
+export function indefiniteArticle(word: string, options: ArticleCheckOptions = {}): 'a' | 'an' {
+  return startsWithVowelSound(word, options) ? 'an' : 'a';
+}
+
+function matchArticleCase(source: string, article: string): string {
+  if (source === source.toUpperCase() && source.length > 1) return article.toUpperCase();
+  return /^[A-Z]/.test(source) ? article.charAt(0).toUpperCase() + article.slice(1) : article;
+}
+
+/**
+ * Find "a" and "an" before a word with the wrong sound
+ */
+function findArticleMismatches(text: string, options: ArticleCheckOptions): ArticleIssue[] {
+  const issues: ArticleIssue[] = [];
+  ARTICLE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = ARTICLE_PATTERN.exec(text)) !== null) {
+    const [, article, , , word] = match;
+
+    // A capital "A" mid-sentence is usually a label ("plan A is"), not an article
+    const before = text.slice(0, match.index).trimEnd();
+    if (article === 'A' && before.length > 0 && !/[.!?:"“(\n]$/.test(before)) continue;
+
+    const expected = indefiniteArticle(word, options);
+    if (expected === article.toLowerCase()) continue;
+
+    issues.push({
+      kind: 'a-an',
+      start: match.index,
+      end: match.index + article.length,
+      text: article,
+      replacement: matchArticleCase(article, expected),
+      word
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Whether a noun needs a determiner when singular
+ */
+function isBareCountNoun(term: TaggedTerm): boolean {
+  if (!hasTag(term, 'Singular') || hasTag(term, 'ProperNoun', 'Pronoun', 'Value', 'Date', 'Possessive')) {
+    return false;
+  }
+  return COUNT_NOUNS.has(term.normal);
+}
+
+/**
+ * Find singular count nouns used as a verb's object or complement with no determiner:
+ * "I have car", "she is teacher", "he bought new phone"
+ */
+function findMissingDeterminers(text: string, options: ArticleCheckOptions): ArticleIssue[] {
+  const issues: ArticleIssue[] = [];
+  const terms = tagTerms(text);
+
+  terms.forEach((noun, index) => {
+    if (!isBareCountNoun(noun)) return;
+
+    // The noun must end its phrase: "car keys" is headed by "keys"
+    const next = terms[index + 1];
+    if (next && !hasBreakAfter(noun) && hasTag(next, 'Noun', 'Adjective')) return;
+
+    let start = index;
+    while (start > 0 && hasTag(terms[start - 1], 'Adjective') && !hasTag(terms[start - 1], 'Noun', 'Verb') && !hasBreakAfter(terms[start - 1])) {
+      start--;
+    }
+    const verb = start > 0 ? terms[start - 1] : null;
+    if (!verb || hasBreakAfter(verb) || !hasTag(verb, 'Verb') || ROLE_VERBS.has(verb.normal)) return;
+    if (hasTag(verb, 'Auxiliary') && !hasTag(verb, 'Copula')) return;
+
+    const phrase = text.slice(terms[start].start, noun.end);
+    issues.push({
+      kind: 'missing-determiner',
+      start: terms[start].start,
+      end: noun.end,
+      text: phrase,
+      replacement: `${indefiniteArticle(terms[start].text, options)} ${phrase}`,
+      alternatives: [`the ${phrase}`],
+      word: noun.text
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Find article errors in a sentence
+ * @param sentence - Sentence text
+ * @param options - Locale, which decides "a herb" versus "an herb"
+ * @returns Issues in text order
+ */
+export function findArticleErrors(sentence: string, options: ArticleCheckOptions = {}): ArticleIssue[] {
+  if (!sentence || sentence.trim().length === 0) {
+    return [];
+  }
+
+  return [...findArticleMismatches(sentence, options), ...findMissingDeterminers(sentence, options)]
+    .sort((a, b) => a.start - b.start);
+}
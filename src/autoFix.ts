@@ -0,0 +1,156 @@
+import { CheckResult, RuleType, SEVERITY_RANK, checkGrammar } from './grammarEngine';
+
+export interface FixOptions {
+  // Only apply fixes produced by these rule types; all types when omitted
+  types?: RuleType[];
+  // Only apply fixes from these rule ids, or 'all'; every rule when omitted
+  rules?: string[] | 'all';
+}
+
+export interface FixAllOptions extends FixOptions {
+  // Upper bound on check/fix rounds; rules report a limited number of issues per line
+  maxPasses?: number;
+}
+
+// Rules whose fixes are mechanical and safe to apply unreviewed. Agreement is
+// included because the checker skips any subject it cannot resolve; heuristic
+// rules (tense, comma splices, confused words) need opting in through `rules`
+export const DEFAULT_FIX_RULES = [
+  'misspelling',
+  'repeated-word',
+  'a-an',
+  'lowercase-i',
+  'multiple-spaces',
+  'space-before-punctuation',
+  'missing-space-after-comma',
+  'subject-verb-agreement'
+];
+
+export interface AppliedEdit {
+  type: RuleType;
+  message: string;
+  // Offsets into the text the edit was applied to (end is exclusive)
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
+}
+
+export interface FixResult {
+  text: string;
+  edits: AppliedEdit[];
+  // Fixable results that were not applied because they overlapped a more important edit
+  // or no longer matched the text
+  skipped: CheckResult[];
+}
+
+export interface FixAllResult extends FixResult {
+  passes: number;
+}
+
+/**
+ * Apply the suggestions carried by grammar check results to produce corrected text
+ * Overlapping edits are resolved in favour of the more severe issue, then the
+ * earlier and shorter one; the losers are reported in `skipped`
+ *
+ * @param text - The text the results were computed against
+ * @param results - Results from checkGrammar for `text`
+ * @param options - Optional rule type and rule id filters
+ * @returns Corrected text with a log of applied edits in document order
+ */
+export function applyFixes(text: string, results: CheckResult[], options: FixOptions = {}): FixResult {
+  if (!text || typeof text !== 'string') {
+    return { text: text || '', edits: [], skipped: [] };
+  }
+
+  const allowedTypes = options.types ? new Set(options.types) : null;
+  const allowedRules = options.rules && options.rules !== 'all' ? new Set(options.rules) : null;
+  const skipped: CheckResult[] = [];
+
+  // Only results with a concrete replacement that still matches the text are fixable
+  const candidates = results.filter(result => {
+    if (result.suggestion === undefined || result.suggestion === result.text) {
+      return false;
+    }
+    if (allowedTypes && !allowedTypes.has(result.type)) {
+      return false;
+    }
+    if (allowedRules && !allowedRules.has(result.ruleId)) {
+      return false;
+    }
+    if (text.slice(result.start, result.end) !== result.text) {
+      skipped.push(result);
+      return false;
+    }
+    return true;
+  });
+
+  candidates.sort((a, b) =>
+    SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+    a.start - b.start ||
+    a.length - b.length
+  );
+
+  const accepted: CheckResult[] = [];
+  for (const candidate of candidates) {
+    const overlaps = accepted.some(edit => candidate.start < edit.end && edit.start < candidate.end);
+    if (overlaps) {
+      skipped.push(candidate);
+    } else {
+      accepted.push(candidate);
+    }
+  }
+
+  accepted.sort((a, b) => a.start - b.start);
+
+  // Rebuild the text left to right so original offsets stay valid throughout
+  let output = '';
+  let cursor = 0;
+  const edits: AppliedEdit[] = accepted.map(result => {
+    output += text.slice(cursor, result.start) + result.suggestion;
+    cursor = result.end;
+    return {
+      type: result.type,
+      message: result.message,
+      start: result.start,
+      end: result.end,
+      original: result.text,
+      replacement: result.suggestion as string
+    };
+  });
+  output += text.slice(cursor);
+
+  return { text: output, edits, skipped };
+}
+
+/**
+ * "Fix all" operation: repeatedly check and fix until no fixable issues remain
+ * Only the rules in DEFAULT_FIX_RULES are fixed unless `options.rules` lists
+ * others (or is 'all'). Edit offsets refer to the text as it was at the start of
+ * the pass that applied them
+ *
+ * @param text - The text to correct
+ * @param options - Rule type and rule id filters and maximum number of passes (default 5)
+ * @returns Corrected text, every applied edit, and the number of passes run
+ */
+export function fixAll(text: string, options: FixAllOptions = {}): FixAllResult {
+  const maxPasses = options.maxPasses ?? 5;
+  const fixOptions: FixOptions = { types: options.types, rules: options.rules ?? DEFAULT_FIX_RULES };
+  const edits: AppliedEdit[] = [];
+  let skipped: CheckResult[] = [];
+  let current = text;
+  let passes = 0;
+
+  while (passes < maxPasses) {
+    passes++;
+    const result = applyFixes(current, checkGrammar(current), fixOptions);
+    skipped = result.skipped;
+    if (result.edits.length === 0) {
+      break;
+    }
+    edits.push(...result.edits);
+    current = result.text;
+  }
+
+  return { text: current, edits, skipped, passes };
+}
@@ -0,0 +1,311 @@
+import { isAbbreviation } from './sentenceSegmenter';
+import { dictionarySpelling } from './spellChecker';
+import { EnglishLocale } from './localeVariants';
+
+/**
+ * Capitalization checks: lowercase sentence starts, the pronoun "i", words in
+ * ALL CAPS, custom dictionary words written in the wrong case, and names that
+ * entity recognition found written in lower case.
+ * Words added to the DictionaryStore with capitals ("GitHub", "iPhone") are
+ * canonical and override the other checks.
+ */
+
+export type CapitalizationKind = 'sentence-start' | 'pronoun-i' | 'all-caps' | 'custom-casing' | 'proper-noun';
+
+export interface CapitalizationIssue {
+  kind: CapitalizationKind;
+  // Offsets into the checked text (end is exclusive)
+  start: number;
+  end: number;
+  text: string;
+  replacement: string;
+  // What a proper-noun issue names: 'person', 'place' or 'organization'
+  entityType?: string;
+}
+
+export interface CapitalizationOptions {
+  // Dictionary used to tell acronyms ("NASA") and names ("London") from ordinary words
+  locale?: EnglishLocale;
+}
+
+// A named entity as returned by entityRecognizer
+export interface NamedEntity {
+  text: string;
+  type: string;
+  start: number;
+  end: number;
+}
+
+// Entity types that are proper nouns, with the name used in messages
+export const PROPER_NOUN_TYPES: Record<string, string> = {
+  Person: 'person',
+  Location: 'place',
+  Organization: 'organization'
+};
+
+// Words that stay lower case inside a name ("Bank of America", "Ludwig van Beethoven")
+const NAME_PARTICLES = new Set(['of', 'the', 'and', 'for', 'de', 'da', 'del', 'der', 'van', 'von', 'la', 'le', 'du', 'bin']);
+
+const WORD_PATTERN = /[A-Za-z]+(?:['’][A-Za-z]+)*/g;
+// Characters next to a word that make it part of code, a URL, a path or a handle
+const NOT_PROSE_BEFORE = /[\w\-/@.\\]/;
+const NOT_PROSE_AFTER = /[\w\-/@\\]/;
+const ROMAN_NUMERAL = /^M{0,3}(CM|CD|D?C{0,3})(XC|XL|L?X{0,3})(IX|IV|V?I{0,3})$/;
+
+// Lower-cased custom word -> casing it was added with; only words that contain a capital
+let canonicalCasing = new Map<string, string>();
+
+/**
+ * Replace the canonical casings taken from the user's custom words (DictionaryStore)
+ * @param words - Custom words; all-lowercase entries and "entity:type:value" entries are ignored
+ */
+export function setCanonicalCasing(words: Iterable<string>): void {
+  canonicalCasing = new Map();
+  for (const word of words) {
+    const trimmed = word.trim().replace(/’/g, '\'');
+    if (/[A-Z]/.test(trimmed) && !trimmed.includes(':')) {
+      canonicalCasing.set(trimmed.toLowerCase(), trimmed);
+    }
+  }
+}
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function codeRanges(text: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  const pattern = /`[^`\n]*`/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+}
+
+/**
+ * Prose words, leaving out anything inside inline code, URLs, paths and identifiers
+ */
+function proseWords(text: string): Word[] {
+  const code = codeRanges(text);
+  const words: Word[] = [];
+  const pattern = new RegExp(WORD_PATTERN.source, WORD_PATTERN.flags);
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (NOT_PROSE_BEFORE.test(text[start - 1] || '') || NOT_PROSE_AFTER.test(text[end] || '')) continue;
+    if (/^\.\w/.test(text.slice(end))) continue;
+    if (code.some(([from, to]) => start < to && end > from)) continue;
+    words.push({ text: match[0], start, end });
+  }
+  return words;
+}
+
+/**
+ * Offsets where a sentence starts: the beginning of the text and the first
+ * letter after terminal punctuation. Ellipses, abbreviations and dialogue tags
+ * ("Where?" she asked) do not start a sentence.
+ */
+function sentenceStarts(text: string): Set<number> {
+  const starts = new Set<number>([/^[\s"'“‘(\[*_]*/.exec(text)![0].length]);
+  const pattern = /([.!?…]+)(["'”’)\]]*)\s+["'“‘(\[]*(?=[A-Za-z])/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const terminator = match[1];
+    if (terminator.includes('…') || /^\.{2,}$/.test(terminator)) continue;
+    if (terminator === '.' && isAbbreviation(text, match.index)) continue;
+    const next = match.index + match[0].length;
+    if (match[2] && /[”"’']/.test(match[2]) && /[a-z]/.test(text[next])) continue;
+    starts.add(next);
+  }
+  return starts;
+}
+
+const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1);
+
+function isPronounI(word: string): boolean {
+  return /^i(?:['’](?:m|ve|d|ll))?$/i.test(word);
+}
+
+/**
+ * Preferred casing of a word written in capitals: canonical casing, the
+ * dictionary's casing for names ("London"), and lower case otherwise
+ */
+function quietCase(word: string, options: CapitalizationOptions): string {
+  const lower = word.toLowerCase();
+  if (isPronounI(word)) return 'I' + lower.slice(1);
+  const canonical = canonicalCasing.get(lower.replace(/’/g, '\''));
+  if (canonical) return canonical;
+  const spelling = dictionarySpelling(lower, options.locale);
+  return spelling && /^[A-Z]/.test(spelling) ? spelling : lower;
+}
+
+/**
+ * Whether a word in capitals is shouting rather than an acronym, an initialism or a numeral
+ */
+function isShouted(word: string, options: CapitalizationOptions): boolean {
+  if (word.length < 2 || /[a-z]/.test(word) || ROMAN_NUMERAL.test(word)) return false;
+  if (canonicalCasing.has(word.toLowerCase().replace(/’/g, '\''))) return false;
+  const spelling = dictionarySpelling(word, options.locale);
+  return spelling !== null && spelling !== spelling.toUpperCase();
+}
+
+function findSentenceStartIssues(words: Word[], starts: Set<number>): CapitalizationIssue[] {
+  const issues: CapitalizationIssue[] = [];
+
+  for (const word of words) {
+    if (!starts.has(word.start) || !/^[a-z]/.test(word.text)) continue;
+    // "iPhone", "eBay", canonical custom words and the pronoun are handled by their own checks
+    if (/[A-Z]/.test(word.text) || isPronounI(word.text) || canonicalCasing.has(word.text.toLowerCase())) continue;
+    issues.push({ kind: 'sentence-start', start: word.start, end: word.end, text: word.text, replacement: capitalize(word.text) });
+  }
+  return issues;
+}
+
+function findPronounIssues(text: string, words: Word[]): CapitalizationIssue[] {
+  return words
+    .filter(word => word.text === 'i' || (isPronounI(word.text) && word.text[0] === 'i'))
+    // Roman numerals in lists: "(i)", "i)" and "i." at the start of a line
+    .filter(word => text[word.end] !== ')' && !(text[word.end] === '.' && /(^|\n)\s*$/.test(text.slice(0, word.start))))
+    .map(word => ({ kind: 'pronoun-i' as const, start: word.start, end: word.start + 1, text: 'i', replacement: 'I' }));
+}
+
+function findCustomCasingIssues(words: Word[]): CapitalizationIssue[] {
+  const issues: CapitalizationIssue[] = [];
+  for (const word of words) {
+    const canonical = canonicalCasing.get(word.text.toLowerCase().replace(/’/g, '\''));
+    if (canonical && canonical !== word.text.replace(/’/g, '\'')) {
+      issues.push({ kind: 'custom-casing', start: word.start, end: word.end, text: word.text, replacement: canonical });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Runs of shouted words, reported once per run; a run needs a word of three or
+ * more letters so that "US", "IT" and "OR" on their own pass
+ */
+function findShoutingIssues(text: string, words: Word[], starts: Set<number>, options: CapitalizationOptions): CapitalizationIssue[] {
+  const issues: CapitalizationIssue[] = [];
+  let run: Word[] = [];
+
+  const flush = () => {
+    if (run.some(word => word.text.replace(/['’]/g, '').length >= 3)) {
+      const start = run[0].start;
+      const end = run[run.length - 1].end;
+      let replacement = '';
+      let offset = start;
+      for (const word of run) {
+        replacement += text.slice(offset, word.start) + quietCase(word.text, options);
+        offset = word.end;
+      }
+      if (starts.has(start)) replacement = capitalize(replacement);
+      issues.push({ kind: 'all-caps', start, end, text: text.slice(start, end), replacement });
+    }
+    run = [];
+  };
+
+  for (const word of words) {
+    if (!isShouted(word.text, options)) {
+      flush();
+      continue;
+    }
+    const previous = run[run.length - 1];
+    if (previous && !/^[\s,;:'"“”‘’\-–—]*$/.test(text.slice(previous.end, word.start))) flush();
+    run.push(word);
+  }
+  flush();
+
+  return issues;
+}
+
+/**
+ * Find capitalization problems that need no entity recognition
+ * @param text - Sentence or paragraph
+ * @param options - Locale of the dictionary used to recognise acronyms and names
+ * @returns Issues in text order
+ */
+export function findCapitalizationIssues(text: string, options: CapitalizationOptions = {}): CapitalizationIssue[] {
+  const words = proseWords(text);
+  const starts = sentenceStarts(text);
+
+  const issues = [
+    ...findSentenceStartIssues(words, starts),
+    ...findPronounIssues(text, words),
+    ...findCustomCasingIssues(words),
+    ...findShoutingIssues(text, words, starts, options)
+  ];
+  return issues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Whether a lower-case entity is really a name: it has several words ("john
+ * smith"), or its word is a name in the dictionary ("paris" -> "Paris") or not
+ * in the dictionary at all, so ordinary words that compromise also knows as
+ * names ("will", "china") pass
+ */
+function looksLikeName(words: string[], options: CapitalizationOptions): boolean {
+  if (words.filter(word => !NAME_PARTICLES.has(word)).length > 1) return true;
+  return words.some(word => {
+    if (NAME_PARTICLES.has(word.toLowerCase())) return false;
+    const spelling = dictionarySpelling(word, options.locale);
+    return spelling === null || /^[A-Z]/.test(spelling);
+  });
+}
+
+/**
+ * Find names of people, places and organizations written in lower case
+ * @param text - The text the entities were recognised in
+ * @param entities - Output of entityRecognizer; every occurrence of a recognised name is checked
+ * @param options - Locale of the dictionary used to rule out ordinary words
+ * @returns Issues in text order; names whose only fix is a sentence-start capital are left to that check
+ */
+export function findProperNounIssues(text: string, entities: NamedEntity[], options: CapitalizationOptions = {}): CapitalizationIssue[] {
+  // Lower-cased name -> entity type
+  const names = new Map(entities
+    .filter(entity => PROPER_NOUN_TYPES[entity.type] && /[a-z]/.test(entity.text))
+    .map(entity => [entity.text.toLowerCase().trim(), PROPER_NOUN_TYPES[entity.type]]));
+  const starts = sentenceStarts(text);
+  const words = proseWords(text);
+  const issues: CapitalizationIssue[] = [];
+
+  for (const [name, entityType] of names) {
+    const nameWords = name.split(/\s+/);
+    if (!looksLikeName(nameWords, options)) continue;
+
+    for (let i = 0; i + nameWords.length <= words.length; i++) {
+      const occurrence = words.slice(i, i + nameWords.length);
+      if (occurrence.some((word, j) => word.text.toLowerCase() !== nameWords[j])) continue;
+      if (nameWords.length === 1 && starts.has(occurrence[0].start)) continue;
+      if (occurrence.some((word, j) => j > 0 && !/^\s+$/.test(text.slice(occurrence[j - 1].end, word.start)))) continue;
+
+      const start = occurrence[0].start;
+      const end = occurrence[occurrence.length - 1].end;
+      const written = text.slice(start, end);
+
+      let replacement = '';
+      let offset = start;
+      occurrence.forEach((word, j) => {
+        const lower = word.text.toLowerCase();
+        const canonical = canonicalCasing.get(lower);
+        const spelling = dictionarySpelling(lower, options.locale);
+        const cased = canonical
+          || (j > 0 && NAME_PARTICLES.has(lower) ? word.text
+            : spelling && /^[A-Z]/.test(spelling) ? spelling : capitalize(word.text));
+        replacement += text.slice(offset, word.start) + cased;
+        offset = word.end;
+      });
+
+      if (replacement !== written) {
+        issues.push({ kind: 'proper-noun', start, end, text: written, replacement, entityType });
+      }
+    }
+  }
+
+  return issues.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,192 @@
+import { TaggedTerm, tagTerms, hasTag } from './posTagging';
+
+/**
+ * POS-driven comma checks: comma splices, missing commas after introductory
+ * words and clauses, and the Oxford (serial) comma as an optional house style
+ */
+
+export type OxfordCommaStyle = 'require' | 'omit';
+
+export interface CommaOptions {
+  // House style for the comma before the last item of a list; unchecked when omitted
+  oxfordComma?: OxfordCommaStyle;
+}
+
+export interface CommaIssue {
+  kind: 'comma-splice' | 'introductory-comma' | 'oxford-comma';
+  // Offsets into the checked text (end is exclusive)
+  start: number;
+  end: number;
+  text: string;
+  replacement: string;
+}
+
+// Sentence adverbs and transitions that are followed by a comma at the start of a sentence
+const INTRODUCTORY_PHRASES = [
+  'however', 'therefore', 'moreover', 'furthermore', 'meanwhile', 'nevertheless', 'nonetheless',
+  'consequently', 'additionally', 'unfortunately', 'fortunately', 'similarly', 'likewise',
+  'instead', 'otherwise', 'indeed', 'finally', 'firstly', 'secondly', 'lastly', 'surprisingly',
+  'ultimately', 'besides', 'of course', 'in fact', 'for example', 'for instance', 'in addition',
+  'as a result', 'on the other hand', 'in conclusion', 'in other words', 'after all', 'in short',
+  'by contrast', 'in contrast', 'on the contrary', 'in general', 'at the same time'
+].sort((a, b) => b.length - a.length);
+
+// Conjunctions that open an introductory clause ("When we arrived, ...")
+const SUBORDINATORS = new Set([
+  'if', 'when', 'whenever', 'although', 'though', 'because', 'since', 'while', 'whilst', 'after',
+  'before', 'unless', 'until', 'once', 'as', 'whereas'
+]);
+
+const SUBJECT_PRONOUNS = new Set(['i', 'you', 'he', 'she', 'it', 'we', 'they']);
+const COORDINATORS = new Set(['and', 'but', 'or', 'nor', 'so', 'yet', 'for', 'then']);
+const REPORTING_VERBS = /^(said|says|say|asked|asks|replied|replies|added|adds|thought|thinks|explained|wrote|writes|told|tells|shouted|whispered|answered|noted)$/;
+
+function isFiniteVerb(term: TaggedTerm): boolean {
+  return hasTag(term, 'Verb')
+    && hasTag(term, 'PresentTense', 'PastTense', 'Copula', 'Modal', 'Auxiliary')
+    && !hasTag(term, 'Gerund', 'Participle', 'Imperative');
+}
+
+function isClauseSubject(term: TaggedTerm): boolean {
+  return SUBJECT_PRONOUNS.has(term.normal) || (hasTag(term, 'Noun') && !hasTag(term, 'Pronoun'));
+}
+
+/**
+ * Whether terms[from, to) form an independent clause: a subject followed by a finite verb
+ */
+function isIndependentClause(terms: TaggedTerm[], from: number, to: number): boolean {
+  if (from >= to) return false;
+  if (SUBORDINATORS.has(terms[from].normal) || /^(which|who|whom|whose|that|where)$/.test(terms[from].normal)) return false;
+
+  for (let i = from; i < to - 1 && i < from + 4; i++) {
+    if (isClauseSubject(terms[i]) && isFiniteVerb(terms[i + 1])) return true;
+    if (!hasTag(terms[i], 'Determiner', 'Adjective', 'Noun', 'Possessive', 'Value')) return false;
+  }
+  return false;
+}
+
+/**
+ * Commas that join two independent clauses without a conjunction: "I was late, it was raining"
+ */
+function findCommaSplices(terms: TaggedTerm[], mainClauseStart: number): CommaIssue[] {
+  const issues: CommaIssue[] = [];
+  const commaAfter = terms.map(term => /^\s*,/.test(term.post));
+  const commaCount = commaAfter.filter(Boolean).length;
+  // An introduction missing its comma is not part of the first clause
+  let clauseStart = mainClauseStart;
+
+  for (let i = 0; i < terms.length - 1; i++) {
+    if (!commaAfter[i]) continue;
+
+    const next = i + 1;
+    let nextComma = commaAfter.indexOf(true, next);
+    if (nextComma === -1) nextComma = terms.length - 1;
+
+    const left = isIndependentClause(terms, clauseStart, i + 1);
+    const right = !COORDINATORS.has(terms[next].normal) && isIndependentClause(terms, next, nextComma + 1);
+    // "I came, I saw, I conquered" and dialogue tags ("..., she said") are deliberate
+    const rightLength = nextComma + 1 - next;
+    const isDialogueTag = rightLength <= 3 && terms.slice(next, nextComma + 1).some(term => REPORTING_VERBS.test(term.normal));
+
+    if (left && right && !isDialogueTag && !(commaCount >= 2 && rightLength <= 3)) {
+      const commaIndex = terms[i].end + terms[i].post.indexOf(',');
+      issues.push({ kind: 'comma-splice', start: commaIndex, end: commaIndex + 1, text: ',', replacement: ';' });
+    }
+    clauseStart = next;
+  }
+
+  return issues;
+}
+
+/**
+ * Introductory transitions ("However we decided") and clauses ("When we arrived we ate")
+ * that are not followed by a comma
+ * @returns Index of the last term of the introduction, or -1
+ */
+function findMissingIntroductoryComma(sentence: string, terms: TaggedTerm[]): number {
+  if (terms.length < 3) return -1;
+
+  const lead = sentence.slice(terms[0].start).toLowerCase();
+  const phrase = INTRODUCTORY_PHRASES.find(candidate => lead.startsWith(candidate) && /^[\s]/.test(lead.slice(candidate.length)));
+  if (phrase) {
+    const lastIndex = phrase.split(' ').length - 1;
+    const last = terms[lastIndex];
+    if (!last || /,/.test(last.post)) return -1;
+    // "However you look at it, it is fine" uses "however" as an adverb of manner
+    const clauseEnd = terms.findIndex((term, index) => index >= lastIndex && /,/.test(term.post));
+    if (phrase === 'however' && clauseEnd !== -1 && isIndependentClause(terms, clauseEnd + 1, terms.length)) return -1;
+    return lastIndex;
+  }
+
+  if (!SUBORDINATORS.has(terms[0].normal)) return -1;
+
+  // The main clause starts at the first subject pronoun after the introductory clause's verb
+  let sawVerb = false;
+  for (let i = 1; i < terms.length - 1; i++) {
+    if (/[,;:]/.test(terms[i - 1].post)) return -1;
+    if (sawVerb && SUBJECT_PRONOUNS.has(terms[i].normal) && isFiniteVerb(terms[i + 1]) && !COORDINATORS.has(terms[i - 1].normal)) {
+      return i - 1;
+    }
+    if (i > 1 && isFiniteVerb(terms[i])) sawVerb = true;
+  }
+  return -1;
+}
+
+function introductoryCommaIssue(last: TaggedTerm): CommaIssue {
+  return { kind: 'introductory-comma', start: last.start, end: last.end, text: last.text, replacement: `${last.text},` };
+}
+
+/**
+ * Lists of three or more items, checked against the house Oxford comma style
+ */
+function findOxfordCommaIssues(terms: TaggedTerm[], style: OxfordCommaStyle): CommaIssue[] {
+  const issues: CommaIssue[] = [];
+  const itemKind = (term: TaggedTerm) => hasTag(term, 'Noun') ? 'noun' : hasTag(term, 'Adjective') ? 'adjective' : hasTag(term, 'Verb') ? 'verb' : null;
+
+  for (let i = 1; i < terms.length - 1; i++) {
+    if (terms[i].normal !== 'and' && terms[i].normal !== 'or') continue;
+
+    // Walk back over the penultimate item to the comma that ends the item before it
+    const before = terms[i - 1];
+    const hasSerialComma = /,/.test(before.post);
+    let j = i - 1;
+    if (hasSerialComma) j--;
+    while (j >= 0 && !/,/.test(terms[j].post) && i - j <= 4) j--;
+    if (j < 0 || !/,/.test(terms[j].post)) continue;
+
+    const kind = itemKind(terms[j]);
+    if (!kind || kind !== itemKind(before) || kind !== itemKind(terms[i + 1] || terms[i])) continue;
+    if (terms.slice(j + 1, i).some(isFiniteVerb)) continue;
+
+    if (style === 'require' && !hasSerialComma) {
+      issues.push({ kind: 'oxford-comma', start: before.start, end: before.end, text: before.text, replacement: `${before.text},` });
+    } else if (style === 'omit' && hasSerialComma) {
+      const commaIndex = before.end + before.post.indexOf(',');
+      issues.push({ kind: 'oxford-comma', start: commaIndex, end: commaIndex + 1, text: ',', replacement: '' });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Find comma problems in a sentence
+ * @param sentence - Sentence text
+ * @param options - House style for the Oxford comma
+ * @returns Issues in text order
+ */
+export function findCommaIssues(sentence: string, options: CommaOptions = {}): CommaIssue[] {
+  const terms = tagTerms(sentence);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  // Both checks run on every sentence: "When we arrived we ate, it was late" needs two fixes
+  const introduction = findMissingIntroductoryComma(sentence, terms);
+  const issues = [
+    ...findCommaSplices(terms, introduction + 1),
+    ...(introduction === -1 ? [] : [introductoryCommaIssue(terms[introduction])]),
+    ...(options.oxfordComma ? findOxfordCommaIssues(terms, options.oxfordComma) : [])
+  ];
+  return issues.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,263 @@
+import { TaggedTerm, tagTerms, hasTag, hasBreakAfter } from './posTagging';
+import { isRecord } from './rulePacks';
+import defaultConfusionSets from './confusionSets.json';
+
+/**
+ * Commonly confused words (their/there/they're, affect/effect, ...)
+ * Each word of a confusion set lists the context that calls for it: the word
+ * before, the word after, and the head of the noun phrase that follows. A word
+ * is reported when another member of its set fits the context clearly better.
+ */
+
+export interface ConfusableWord {
+  word: string;
+  // Short meaning shown in the message ("belonging to them")
+  gloss?: string;
+  // Context cues. Entries starting with a capital letter are compromise tags,
+  // "$start" and "$end" match a clause boundary, anything else is a literal word
+  before?: string[];
+  after?: string[];
+  // Cues for the first word after any adjectives and adverbs ("their [new] car")
+  head?: string[];
+}
+
+export interface ConfusionSet {
+  // Stable id, also used to replace a set when configuration adds one with the same id
+  id: string;
+  words: ConfusableWord[];
+}
+
+export interface ConfusionSetConfig {
+  version?: number;
+  sets: ConfusionSet[];
+}
+
+export interface ConfusedWord {
+  // Offsets into the checked text (end is exclusive)
+  start: number;
+  end: number;
+  text: string;
+  // The member of the set that fits the context, in the casing of `text`
+  replacement: string;
+  setId: string;
+  gloss?: string;
+  replacementGloss?: string;
+}
+
+// A literal next word is the strongest evidence ("your welcome"), tags the weakest
+const AFTER_WORD_WEIGHT = 3;
+const WORD_WEIGHT = 2;
+const TAG_WEIGHT = 1;
+// How far the best alternative must lead when the written word fits its context too
+const MIN_LEAD = 2;
+
+// Bundled sets and those added with addConfusionSets
+const baseSets = new Map<string, ConfusionSet>();
+// Rule pack id -> sets the pack contributes, in load order
+const packSets = new Map<string, ConfusionSet[]>();
+// Active sets: the base sets, then each pack's sets replacing any with the same id
+const confusionSets = new Map<string, ConfusionSet>();
+// Lower-case word -> sets containing it
+const setsByWord = new Map<string, ConfusionSet[]>();
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/’/g, '\'');
+}
+
+function rebuildWordIndex(): void {
+  confusionSets.clear();
+  baseSets.forEach((set, id) => confusionSets.set(id, set));
+  packSets.forEach(sets => sets.forEach(set => confusionSets.set(set.id, set)));
+
+  setsByWord.clear();
+  for (const set of confusionSets.values()) {
+    for (const entry of set.words) {
+      const word = normalizeWord(entry.word);
+      setsByWord.set(word, [...(setsByWord.get(word) || []), set]);
+    }
+  }
+}
+
+/**
+ * Check the shape of a confusion set, throwing on the first problem
+ */
+function validateConfusionSet(set: unknown, index: number): ConfusionSet {
+  if (!isRecord(set) || typeof set.id !== 'string' || set.id.length === 0) {
+    throw new Error(`Confusion set at index ${index} is missing an id`);
+  }
+  const id = set.id;
+  if (!Array.isArray(set.words) || set.words.length < 2) {
+    throw new Error(`Confusion set "${id}" must list at least two words`);
+  }
+
+  const words = set.words.map((entry: unknown): ConfusableWord => {
+    if (!isRecord(entry) || typeof entry.word !== 'string' || entry.word.trim().length === 0) {
+      throw new Error(`Confusion set "${id}" has a word without text`);
+    }
+    if (entry.gloss !== undefined && typeof entry.gloss !== 'string') {
+      throw new Error(`Confusion set "${id}": "gloss" of "${entry.word}" must be a string`);
+    }
+    for (const key of ['before', 'after', 'head']) {
+      const cues = entry[key];
+      if (cues !== undefined && (!Array.isArray(cues) || cues.some((cue: unknown) => typeof cue !== 'string'))) {
+        throw new Error(`Confusion set "${id}": "${key}" of "${entry.word}" must be an array of strings`);
+      }
+    }
+    return { ...entry, word: entry.word } as ConfusableWord;
+  });
+
+  return { ...set, id, words } as ConfusionSet;
+}
+
+/**
+ * Add confusion sets, replacing any existing set with the same id
+ * @param config - Parsed confusion set configuration
+ * @throws Error when a set is malformed; no sets are added in that case
+ */
+export function addConfusionSets(config: ConfusionSetConfig): void {
+  if (!config || !Array.isArray(config.sets)) {
+    throw new Error('Confusion set configuration must contain a "sets" array');
+  }
+
+  const sets = config.sets.map(validateConfusionSet);
+  sets.forEach(set => baseSets.set(set.id, set));
+  rebuildWordIndex();
+}
+
+/**
+ * Set the confusion sets a rule pack contributes, replacing those it added before
+ * Pack sets take precedence over bundled sets with the same id until the pack is removed.
+ * @param packId - Id of the rule pack
+ * @param config - The pack's confusion sets
+ * @throws Error when a set is malformed; the pack's previous sets stay in that case
+ */
+export function setPackConfusionSets(packId: string, config: ConfusionSetConfig): void {
+  if (!config || !Array.isArray(config.sets)) {
+    throw new Error('Confusion set configuration must contain a "sets" array');
+  }
+
+  const sets = config.sets.map(validateConfusionSet);
+  packSets.delete(packId);
+  packSets.set(packId, sets);
+  rebuildWordIndex();
+}
+
+/**
+ * Remove the confusion sets a rule pack contributed, restoring any bundled sets they replaced
+ * @returns True if the pack had contributed sets
+ */
+export function removePackConfusionSets(packId: string): boolean {
+  const removed = packSets.delete(packId);
+  if (removed) {
+    rebuildWordIndex();
+  }
+  return removed;
+}
+
+/**
+ * All confusion sets currently in use, built-in ones first
+ */
+export function listConfusionSets(): ConfusionSet[] {
+  return [...confusionSets.values()];
+}
+
+/**
+ * Drop configured sets and go back to the bundled list
+ */
+export function resetConfusionSets(): void {
+  baseSets.clear();
+  packSets.clear();
+  addConfusionSets(defaultConfusionSets as ConfusionSetConfig);
+}
+
+function cueScore(term: TaggedTerm | null, cues: string[] | undefined, boundary: '$start' | '$end', wordWeight: number): number {
+  if (!cues) return 0;
+  if (!term) return cues.includes(boundary) ? WORD_WEIGHT : 0;
+
+  let score = 0;
+  for (const cue of cues) {
+    if (/^[A-Z]/.test(cue)) {
+      if (term.tags.has(cue)) score = Math.max(score, TAG_WEIGHT);
+    } else if (normalizeWord(term.normal) === cue) {
+      return wordWeight;
+    }
+  }
+  return score;
+}
+
+/**
+ * First term after any adjectives and adverbs, or null at a clause boundary
+ */
+function phraseHead(terms: TaggedTerm[], index: number): TaggedTerm | null {
+  for (let i = index + 1; i < terms.length; i++) {
+    if (hasBreakAfter(terms[i - 1]) || /[.!?]/.test(terms[i - 1].post)) return null;
+    if (hasTag(terms[i], 'Adjective', 'Adverb') && !hasTag(terms[i], 'Noun')) continue;
+    return terms[i];
+  }
+  return null;
+}
+
+function contextScore(entry: ConfusableWord, terms: TaggedTerm[], index: number): number {
+  const previous = index > 0 && !hasBreakAfter(terms[index - 1]) ? terms[index - 1] : null;
+  const atClauseEnd = hasBreakAfter(terms[index]) || /[.!?]/.test(terms[index].post);
+  const next = !atClauseEnd && index + 1 < terms.length ? terms[index + 1] : null;
+
+  return cueScore(previous, entry.before, '$start', WORD_WEIGHT)
+    + cueScore(next, entry.after, '$end', AFTER_WORD_WEIGHT)
+    + cueScore(phraseHead(terms, index), entry.head, '$end', WORD_WEIGHT);
+}
+
+function matchCase(source: string, replacement: string): string {
+  return /^[A-Z]/.test(source) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+}
+
+/**
+ * Find words that are probably a confusable of the intended word
+ * @param sentence - Sentence text
+ * @returns One entry per confused word, in text order
+ */
+export function findConfusedWords(sentence: string): ConfusedWord[] {
+  const issues: ConfusedWord[] = [];
+  const terms = tagTerms(sentence);
+
+  terms.forEach((term, index) => {
+    const word = normalizeWord(term.normal);
+    for (const set of setsByWord.get(word) || []) {
+      const written = set.words.find(entry => normalizeWord(entry.word) === word)!;
+      const ownScore = contextScore(written, terms, index);
+
+      let best: ConfusableWord | null = null;
+      let bestScore = 0;
+      let tied = false;
+      for (const candidate of set.words) {
+        if (candidate === written) continue;
+        const score = contextScore(candidate, terms, index);
+        if (score > bestScore) {
+          best = candidate;
+          bestScore = score;
+          tied = false;
+        } else if (score === bestScore && score > 0) {
+          tied = true;
+        }
+      }
+
+      const clearlyBetter = ownScore === 0 ? bestScore > 0 : bestScore >= ownScore + MIN_LEAD;
+      if (best && !tied && clearlyBetter) {
+        issues.push({
+          start: term.start,
+          end: term.end,
+          text: term.text,
+          replacement: matchCase(term.text, best.word),
+          setId: set.id,
+          gloss: written.gloss,
+          replacementGloss: best.gloss
+        });
+        return;
+      }
+    }
+  });
+
+  return issues;
+}
+
+resetConfusionSets();
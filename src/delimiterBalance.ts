@@ -0,0 +1,149 @@
+/**
+ * Structural check that quotes, parentheses, brackets and braces are paired
+ * Works on a whole document: straight and smart quotes, apostrophes in
+ * contractions and possessives ("don't", "James'"), list markers ("1)") and
+ * emoticons (":)") are told apart from real delimiters.
+ */
+
+export interface UnbalancedDelimiter {
+  // 'opener' when nothing closes it, 'closer' when nothing opened it
+  kind: 'opener' | 'closer';
+  char: string;
+  // The delimiter it should pair with
+  partner: string;
+  // Offsets into the checked text (end is exclusive)
+  start: number;
+  end: number;
+}
+
+const CLOSER_OF: Record<string, string> = {
+  '(': ')', '[': ']', '{': '}', '“': '”', '‘': '’', '"': '"', '\'': '\''
+};
+const OPENER_OF: Record<string, string> = {
+  ')': '(', ']': '[', '}': '{', '”': '“'
+};
+
+// Words that start with an elision apostrophe: 'em, 'til, 'cause
+const ELIDED_WORDS = /^(em|til|till|cause|cos|n|tis|twas|round|bout|nuff)\b/i;
+
+interface OpenDelimiter {
+  char: string;
+  start: number;
+}
+
+const isWordChar = (char: string | undefined): boolean => char !== undefined && /[A-Za-z0-9]/.test(char);
+
+/**
+ * Whether a closing parenthesis ends a list marker ("1)", "b)") or an emoticon (":)")
+ */
+function isMarkerOrEmoticon(text: string, index: number): boolean {
+  const lineStart = text.lastIndexOf('\n', index - 1) + 1;
+  if (/^\s*([0-9]{1,3}|[a-zA-Z]|[ivxIVX]{1,4})$/.test(text.slice(lineStart, index))) return true;
+  return /[:;=8]-?$/.test(text.slice(Math.max(0, index - 2), index));
+}
+
+/**
+ * Classify a straight or curly single quote as 'open', 'close' or an apostrophe
+ */
+function singleQuoteRole(text: string, index: number, stack: OpenDelimiter[], opener: string): 'open' | 'close' | 'apostrophe' {
+  const before = text[index - 1];
+  const after = text[index + 1];
+  const quoteOpen = stack.some(open => open.char === opener);
+
+  // don't, it's, rock'n'roll
+  if (isWordChar(before) && isWordChar(after)) return 'apostrophe';
+  // Closing quote, or the possessive of a plural or a name ending in s ("James'")
+  if (isWordChar(before) || /[.,!?;:]/.test(before || '')) {
+    return quoteOpen ? 'close' : 'apostrophe';
+  }
+  // '90s, 'em, 'til
+  if (/[0-9]/.test(after || '') || ELIDED_WORDS.test(text.slice(index + 1))) return 'apostrophe';
+  return isWordChar(after) || /["“(]/.test(after || '') ? 'open' : 'apostrophe';
+}
+
+/**
+ * Find delimiters that are not paired
+ * @param text - Whole document; a quote still open at a paragraph break is closed
+ *               implicitly when the next paragraph reopens it (multi-paragraph dialogue)
+ * @returns Unpaired delimiters in text order
+ */
+export function findUnbalancedDelimiters(text: string): UnbalancedDelimiter[] {
+  const issues: UnbalancedDelimiter[] = [];
+  const stack: OpenDelimiter[] = [];
+
+  const unclosed = (open: OpenDelimiter) => issues.push({
+    kind: 'opener', char: open.char, partner: CLOSER_OF[open.char], start: open.start, end: open.start + 1
+  });
+  const unopened = (char: string, index: number, partner: string) => issues.push({
+    kind: 'closer', char, partner, start: index, end: index + 1
+  });
+
+  // Close the innermost `opener`, reporting anything opened inside it that never closed
+  const close = (opener: string, char: string, index: number) => {
+    const depth = stack.map(open => open.char).lastIndexOf(opener);
+    if (depth === -1) {
+      unopened(char, index, opener);
+      return;
+    }
+    stack.splice(depth + 1).forEach(unclosed);
+    stack.pop();
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (char === '\n' && /^\n\s*\n/.test(text.slice(index))) {
+      // Dialogue spanning paragraphs reopens the quote instead of closing it
+      const next = text.slice(index).replace(/^\s+/, '')[0];
+      const top = stack[stack.length - 1];
+      if (top && (top.char === '“' || top.char === '"') && next === top.char) {
+        stack.pop();
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '(':
+      case '[':
+      case '{':
+      case '“':
+        stack.push({ char, start: index });
+        break;
+      case ')':
+        if (!isMarkerOrEmoticon(text, index) || stack.some(open => open.char === '(')) {
+          close('(', char, index);
+        }
+        break;
+      case ']':
+      case '}':
+      case '”':
+        close(OPENER_OF[char], char, index);
+        break;
+      case '"':
+        // Straight quotes look the same both ways, so they toggle; 5'10" is a measurement
+        if (stack.some(open => open.char === '"')) {
+          close('"', char, index);
+        } else if (!/[0-9]'?$/.test(text.slice(Math.max(0, index - 2), index))) {
+          stack.push({ char, start: index });
+        }
+        break;
+      case '‘':
+        // ‘90s is a mistyped apostrophe rather than a quote
+        if (!/[0-9]/.test(text[index + 1] || '')) {
+          stack.push({ char, start: index });
+        }
+        break;
+      case '\'':
+      case '’': {
+        const opener = char === '\'' ? '\'' : '‘';
+        const role = singleQuoteRole(text, index, stack, opener);
+        if (role === 'open' && char === '\'') stack.push({ char, start: index });
+        else if (role === 'close') close(opener, char, index);
+        break;
+      }
+    }
+  }
+
+  stack.forEach(unclosed);
+  return issues.sort((a, b) => a.start - b.start);
+}
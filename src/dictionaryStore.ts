@@ -1,15 +1,25 @@
 import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import { EventEmitter } from 'events';
 
-export class DictionaryStore {
-  private words: Set<string> = new Set();
+/**
+ * Encrypted store of the user's custom words
+ * Words keep the casing they were added with ("GitHub", "iPhone"), which the
+ * capitalization check treats as canonical; lookups ignore case.
+ * Emits 'changed' once loaded and whenever the word list is modified
+ */
+export class DictionaryStore extends EventEmitter {
+  // Lower-cased word -> word as added
+  private words: Map<string, string> = new Map();
   private isInitialized = false;
 
   constructor(
     private filePath: string,
     private passphrase: string
-  ) {}
+  ) {
+    super();
+  }
 
   /**
    * Initialize the dictionary store by loading from encrypted file
@@ -25,10 +35,11 @@ export class DictionaryStore {
         await this.loadFromFile();
       } else {
         // Create empty dictionary if file doesn't exist
-        this.words = new Set();
+        this.words = new Map();
         await this.saveToFile();
       }
       this.isInitialized = true;
+      this.emit('changed');
     } catch (error) {
       if (error instanceof Error && error.message.includes('bad decrypt')) {
         throw new Error('Failed to decrypt dictionary: invalid passphrase');
@@ -41,17 +52,18 @@ export class DictionaryStore {
 
   /**
    * Add a word to the custom dictionary
-   * @param word - The word to add
+   * @param word - The word to add; adding it again with different casing updates its casing
    */
   async addWord(word: string): Promise<void> {
     if (!this.isInitialized) {
       throw new Error('Dictionary store not initialized');
     }
 
-    const normalizedWord = word.toLowerCase().trim();
-    if (normalizedWord && !this.words.has(normalizedWord)) {
-      this.words.add(normalizedWord);
+    const trimmedWord = word.trim();
+    if (trimmedWord && this.words.get(trimmedWord.toLowerCase()) !== trimmedWord) {
+      this.words.set(trimmedWord.toLowerCase(), trimmedWord);
       await this.saveToFile();
+      this.emit('changed');
     }
   }
 
@@ -68,19 +80,20 @@ export class DictionaryStore {
     if (this.words.has(normalizedWord)) {
       this.words.delete(normalizedWord);
       await this.saveToFile();
+      this.emit('changed');
     }
   }
 
   /**
    * List all words in the custom dictionary
-   * @returns Array of words sorted alphabetically
+   * @returns Array of words in their stored casing, sorted alphabetically ignoring case
    */
   async listWords(): Promise<string[]> {
     if (!this.isInitialized) {
       throw new Error('Dictionary store not initialized');
     }
 
-    return Array.from(this.words).sort();
+    return Array.from(this.words.keys()).sort().map(key => this.words.get(key)!);
   }
 
   /**
@@ -117,10 +130,10 @@ export class DictionaryStore {
       const decryptedData = this.decrypt(encryptedData);
       
       if (decryptedData.trim()) {
-        const wordsArray = JSON.parse(decryptedData);
-        this.words = new Set(wordsArray);
+        const wordsArray: string[] = JSON.parse(decryptedData);
+        this.words = new Map(wordsArray.map(word => [word.toLowerCase(), word]));
       } else {
-        this.words = new Set();
+        this.words = new Map();
       }
     } catch (error) {
       if (error instanceof SyntaxError) {
@@ -141,7 +154,7 @@ export class DictionaryStore {
         fs.mkdirSync(dir, { recursive: true });
       }
 
-      const wordsArray = Array.from(this.words);
+      const wordsArray = Array.from(this.words.values());
       const jsonData = JSON.stringify(wordsArray);
       const encryptedData = this.encrypt(jsonData);
       
@@ -246,6 +259,7 @@ export class DictionaryStore {
 
     this.words.clear();
     await this.saveToFile();
+    this.emit('changed');
   }
 
   /**
@@ -257,18 +271,20 @@ export class DictionaryStore {
       throw new Error('Dictionary store not initialized');
     }
 
-    const originalSize = this.words.size;
-    
+    let changed = false;
+
     words.forEach(word => {
-      const normalizedWord = word.toLowerCase().trim();
-      if (normalizedWord) {
-        this.words.add(normalizedWord);
+      const trimmedWord = word.trim();
+      if (trimmedWord && this.words.get(trimmedWord.toLowerCase()) !== trimmedWord) {
+        this.words.set(trimmedWord.toLowerCase(), trimmedWord);
+        changed = true;
       }
     });
 
-    // Only save if words were actually added
-    if (this.words.size > originalSize) {
+    // Only save if words were actually added or recased
+    if (changed) {
       await this.saveToFile();
+      this.emit('changed');
     }
   }
 
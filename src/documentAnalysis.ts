@@ -0,0 +1,245 @@
+import {
+  CheckResult,
+  addProperNounResults,
+  GrammarCheckOptions,
+  InlineSuggestion,
+  RuleType,
+  ToneResult,
+  checkGrammar,
+  detectTone,
+  suggestInlineEnhancements
+} from './grammarEngine';
+import { StyleCheckOptions, Suggestion, suggestStyle } from './styleService';
+import { SentenceSpan, segmentParagraph, segmentParagraphs } from './sentenceSegmenter';
+import { createLineIndex, offsetToPosition } from './textPositions';
+import { tagTerms } from './posTagging';
+import { SuppressionOptions, applySuppressions, parseSuppressions } from './suppression';
+import { LocaleOptions } from './localeVariants';
+import { ReadabilityScores, analyzeReadability } from './readability';
+
+/**
+ * One-call document analysis
+ * Segments and tags the text once, runs the selected analysers over it, and
+ * returns their findings as a single list of DocumentIssues in text order,
+ * together with the document's tone and statistics. The grammar checks reuse
+ * the tagging done here, since tagTerms caches per sentence.
+ */
+
+export type AnalyzerName = 'grammar' | 'style' | 'tone' | 'enhancements';
+
+export type IssueCategory = 'spelling' | 'grammar' | 'style' | 'enhancement';
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+export interface IssueRange {
+  // Absolute offsets into the analysed text (end is exclusive)
+  start: number;
+  end: number;
+  // 1-based position of `start`
+  line: number;
+  column: number;
+}
+
+export interface DocumentIssue {
+  // Unique within one analysis: analyser, rule and range
+  id: string;
+  source: Exclude<AnalyzerName, 'tone'>;
+  ruleId: string;
+  type: string;
+  category: IssueCategory;
+  severity: IssueSeverity;
+  message: string;
+  explanation?: string;
+  range: IssueRange;
+  // The text covered by the range
+  text: string;
+  // Candidate replacements for `text`, best first; empty when there is no fix
+  replacements: string[];
+}
+
+export interface DocumentStats {
+  characters: number;
+  words: number;
+  sentences: number;
+  paragraphs: number;
+  // Mean words per sentence
+  averageSentenceLength: number;
+  // Minutes at 200 words per minute, rounded up; 0 for empty text
+  readingTimeMinutes: number;
+  // Whole-document indices (see readability)
+  readability: ReadabilityScores;
+  issuesBySeverity: Record<IssueSeverity, number>;
+  issuesByCategory: Record<IssueCategory, number>;
+}
+
+export interface DocumentAnalysis {
+  issues: DocumentIssue[];
+  // Empty unless the tone analyser ran
+  tone: ToneResult[];
+  stats: DocumentStats;
+}
+
+export interface AnalyzeDocumentOptions extends SuppressionOptions, LocaleOptions {
+  // Analysers to run; all of them by default
+  analyzers?: AnalyzerName[];
+  // Grammar-only options (rule filter, comma style); override the shared ones
+  grammar?: GrammarCheckOptions;
+  // Style-only options (rule filter, typography); override the shared ones
+  style?: StyleCheckOptions;
+}
+
+const ALL_ANALYZERS: AnalyzerName[] = ['grammar', 'style', 'tone', 'enhancements'];
+const WORDS_PER_MINUTE = 200;
+const SEVERITY_RANK: Record<IssueSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+// Why each kind of grammar result matters; grammar rules carry no explanation of their own
+const GRAMMAR_EXPLANATIONS: Record<RuleType, string> = {
+  [RuleType.SPELLING]: 'The word is not in the dictionary for this locale or in your custom words.',
+  [RuleType.PUNCTUATION]: 'Punctuation that is missing, doubled or misplaced makes a sentence harder to read.',
+  [RuleType.SUBJECT_VERB_AGREEMENT]: 'A verb should agree in number with its subject.',
+  [RuleType.TENSE_CONSISTENCY]: 'Switching tense without a reason makes it unclear when things happen.',
+  [RuleType.VARIANT_CONSISTENCY]: 'Mixing American and British spellings looks inconsistent.',
+  [RuleType.ARTICLE]: 'Articles and determiners must match the sound and number of the noun phrase.',
+  [RuleType.CONFUSED_WORDS]: 'This word is often confused with one that sounds the same.',
+  [RuleType.REPEATED_WORDS]: 'The same word appears twice in a row, usually by mistake.',
+  [RuleType.CAPITALIZATION]: 'Sentences, the pronoun "I" and names start with a capital letter.'
+};
+
+const ENHANCEMENT_EXPLANATION = 'An optional rewording that may make the text clearer or more varied.';
+
+interface DocumentModel {
+  paragraphs: SentenceSpan[];
+  sentences: SentenceSpan[];
+  // Words per sentence, in sentence order
+  sentenceWords: number[];
+}
+
+/**
+ * Segment and tag the text once for the analysers and the statistics
+ */
+function buildModel(text: string): DocumentModel {
+  const paragraphs = segmentParagraphs(text);
+  const sentences = paragraphs.flatMap(segmentParagraph);
+  const sentenceWords = sentences.map(sentence => tagTerms(sentence.text).filter(term => /[A-Za-z0-9]/.test(term.text)).length);
+  return { paragraphs, sentences, sentenceWords };
+}
+
+function fromCheckResult(result: CheckResult): Omit<DocumentIssue, 'id' | 'range'> & { start: number; end: number } {
+  const replacements = result.suggestions?.length ? result.suggestions : result.suggestion !== undefined ? [result.suggestion] : [];
+  return {
+    source: 'grammar',
+    ruleId: result.ruleId,
+    type: result.type,
+    category: result.type === RuleType.SPELLING ? 'spelling' : 'grammar',
+    severity: result.severity,
+    message: result.message,
+    explanation: GRAMMAR_EXPLANATIONS[result.type],
+    start: result.start,
+    end: result.end,
+    text: result.text,
+    replacements
+  };
+}
+
+function fromStyleSuggestion(text: string, suggestion: Suggestion): Omit<DocumentIssue, 'id' | 'range'> & { start: number; end: number } {
+  return {
+    source: 'style',
+    ruleId: suggestion.ruleId,
+    type: suggestion.type,
+    category: 'style',
+    severity: suggestion.severity,
+    message: suggestion.message,
+    explanation: suggestion.explanation,
+    start: suggestion.start,
+    end: suggestion.end,
+    text: text.slice(suggestion.start, suggestion.end),
+    replacements: suggestion.suggestion !== undefined ? [suggestion.suggestion] : []
+  };
+}
+
+function fromInlineSuggestion(suggestion: InlineSuggestion): Omit<DocumentIssue, 'id' | 'range'> & { start: number; end: number } {
+  return {
+    source: 'enhancements',
+    ruleId: 'inline-enhancement',
+    type: 'enhancement',
+    category: 'enhancement',
+    severity: 'info',
+    message: `Consider ${suggestion.suggestions.map(option => `"${option}"`).join(', ')} instead of "${suggestion.text}"`,
+    explanation: ENHANCEMENT_EXPLANATION,
+    start: suggestion.start,
+    end: suggestion.end,
+    text: suggestion.text,
+    replacements: [...suggestion.suggestions]
+  };
+}
+
+function countBy<K extends string>(issues: DocumentIssue[], keys: K[], key: (issue: DocumentIssue) => K): Record<K, number> {
+  const counts = Object.fromEntries(keys.map(name => [name, 0])) as Record<K, number>;
+  issues.forEach(issue => counts[key(issue)]++);
+  return counts;
+}
+
+/**
+ * Analyse a document with every selected analyser and normalise their findings
+ * @param text - The document text
+ * @param options - Analysers to run and their options
+ * @returns Issues sorted by position (then severity), tone and document statistics
+ */
+export async function analyzeDocument(text: string, options: AnalyzeDocumentOptions = {}): Promise<DocumentAnalysis> {
+  const source = typeof text === 'string' ? text : '';
+  const analyzers = new Set(options.analyzers || ALL_ANALYZERS);
+  const { analyzers: _analyzers, grammar, style, ...shared } = options;
+  const model = buildModel(source);
+
+  const found: Array<Omit<DocumentIssue, 'id' | 'range'> & { start: number; end: number }> = [];
+  if (analyzers.has('grammar')) {
+    const grammarOptions = { ...shared, ...grammar };
+    const results = await addProperNounResults(source, checkGrammar(source, grammarOptions), grammarOptions);
+    found.push(...results.map(fromCheckResult));
+  }
+  if (analyzers.has('style')) {
+    found.push(...suggestStyle(source, { ...shared, ...style }).map(suggestion => fromStyleSuggestion(source, suggestion)));
+  }
+
+  const [tone, enhancements] = await Promise.all([
+    analyzers.has('tone') ? detectTone(source) : Promise.resolve([]),
+    analyzers.has('enhancements') ? suggestInlineEnhancements(source) : Promise.resolve([])
+  ]);
+
+  // Enhancements honour the same directives and ignore ranges, and give way to
+  // a grammar or style issue on exactly the same text
+  const covered = new Set(found.map(issue => `${issue.start}:${issue.end}`));
+  const inline = enhancements.map(fromInlineSuggestion).filter(issue => !covered.has(`${issue.start}:${issue.end}`));
+  found.push(...applySuppressions(inline, 'style', parseSuppressions(source, shared)).results);
+
+  const lineIndex = createLineIndex(source);
+  const ids = new Map<string, number>();
+  const issues: DocumentIssue[] = found.map(({ start, end, ...issue }) => {
+    const baseId = `${issue.source}:${issue.ruleId}:${start}-${end}`;
+    const seen = ids.get(baseId) || 0;
+    ids.set(baseId, seen + 1);
+    return {
+      ...issue,
+      id: seen === 0 ? baseId : `${baseId}#${seen + 1}`,
+      range: { start, end, ...offsetToPosition(lineIndex, start) }
+    };
+  });
+  issues.sort((a, b) => a.range.start - b.range.start || SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+
+  const words = model.sentenceWords.reduce((sum, count) => sum + count, 0);
+  return {
+    issues,
+    tone,
+    stats: {
+      characters: source.length,
+      words,
+      sentences: model.sentences.length,
+      paragraphs: model.paragraphs.length,
+      averageSentenceLength: model.sentences.length > 0 ? Math.round((words / model.sentences.length) * 10) / 10 : 0,
+      readingTimeMinutes: Math.ceil(words / WORDS_PER_MINUTE),
+      readability: analyzeReadability(source, { hardestSentences: 0 }).document.scores,
+      issuesBySeverity: countBy(issues, ['error', 'warning', 'info'], issue => issue.severity),
+      issuesByCategory: countBy(issues, ['spelling', 'grammar', 'style', 'enhancement'], issue => issue.category)
+    }
+  };
+}
@@ -1,8 +1,24 @@
 import nlp from 'compromise';
-import * as fs from 'fs';
 import { processText as enhancedProcessText, EnhancedToken, setSynonymProvider, setDictionaryStore as setNlpDictionaryStore } from './nlpService';
 import type { SynonymProvider } from './synonymProvider';
 import { logger } from './logger';
+import { RuleCategory, RuleFilter, RuleIdentity, isRuleActive } from './ruleFilter';
+import { SuppressionOptions, SuppressionReport, parseSuppressions, applySuppressions } from './suppression';
+import { SentenceSpan, segmentParagraphs, segmentSentences } from './sentenceSegmenter';
+import { LineIndex, createLineIndex, offsetToPosition } from './textPositions';
+import { findMisspellings, setCustomWords } from './spellChecker';
+import { findAgreementErrors } from './agreementChecker';
+import { tagTerms } from './posTagging';
+import { analyzeTense } from './tenseAnalyzer';
+import { findArticleErrors, indefiniteArticle } from './articleChecker';
+import { findConfusedWords, removePackConfusionSets, setPackConfusionSets } from './confusables';
+import { findRepeatedWords } from './repeatedWords';
+import { findUnbalancedDelimiters } from './delimiterBalance';
+import { CommaOptions, findCommaIssues } from './commaChecker';
+import { compileReplacement } from './replacements';
+import { RulePackInfo, RulePackSnapshot, describeRulePack, isRecord, packIdFromPath, parseRulePack, readRulePackFile, selfTestRulePack } from './rulePacks';
+import { CapitalizationIssue, findCapitalizationIssues, findProperNounIssues, setCanonicalCasing } from './capitalization';
+import { LocaleOptions, findVariantSpellings, inferLocale, lookupVariant, preferredVariant } from './localeVariants';
 
 // Interface for inline suggestions
 export interface InlineSuggestion {
@@ -22,22 +38,72 @@ export enum RuleType {
   SPELLING = 'spelling',
   PUNCTUATION = 'punctuation',
   SUBJECT_VERB_AGREEMENT = 'subject-verb-agreement',
-  TENSE_CONSISTENCY = 'tense-consistency'
+  TENSE_CONSISTENCY = 'tense-consistency',
+  VARIANT_CONSISTENCY = 'variant-consistency',
+  ARTICLE = 'article',
+  CONFUSED_WORDS = 'confused-words',
+  REPEATED_WORDS = 'repeated-words',
+  CAPITALIZATION = 'capitalization'
 }
 
+export type GrammarSeverity = 'error' | 'warning';
+
 export interface CheckResult {
   type: RuleType;
+  // Stable id of the rule that produced this result
+  ruleId: string;
   message: string;
+  severity: GrammarSeverity;
   line: number;
   column: number;
+  // Absolute character offsets into the checked text (end is exclusive)
+  start: number;
+  end: number;
+  length: number;
+  // The exact text covered by [start, end)
+  text: string;
+  // Replacement for `text` when the rule can fix the issue automatically
   suggestion?: string;
+  // Ranked alternatives for `text`, best first (spelling results, and fixes the writer must choose)
+  suggestions?: string[];
+}
+
+export interface GrammarCheckOptions extends SuppressionOptions, LocaleOptions, CommaOptions {
+  // Narrows the rules run for this call, on top of the engine-wide filter
+  rules?: RuleFilter;
 }
 
+// Reported results plus those hidden by directives or ignore ranges
+export type GrammarReport = SuppressionReport<CheckResult>;
+
 interface GrammarRule {
+  id: string;
   type: RuleType;
+  category: RuleCategory;
   pattern: RegExp;
   message: string;
-  severity: 'error' | 'warning';
+  severity: GrammarSeverity;
+  // Produces the replacement for the matched text, for rules that can be auto-fixed
+  fix?: (match: RegExpExecArray) => string | undefined;
+  // 'paragraph' rules see the text between sentences too, and report every match
+  scope?: 'sentence' | 'paragraph';
+}
+
+// Higher rank means more important; used to order results for display
+export const SEVERITY_RANK: Record<GrammarSeverity, number> = {
+  error: 2,
+  warning: 1
+};
+
+/**
+ * Sort check results by importance: errors first, then by position in the text
+ * @param results - Results to sort (not mutated)
+ * @returns New array ordered by severity, then start offset
+ */
+export function sortResultsBySeverity(results: CheckResult[]): CheckResult[] {
+  return [...results].sort((a, b) =>
+    SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || a.start - b.start
+  );
 }
 
 // Import the actual DictionaryStore type
@@ -47,8 +113,39 @@ import type { DictionaryStore } from './dictionaryStore';
 let dictionaryStore: DictionaryStore | null = null;
 
 export function setDictionaryStore(store: DictionaryStore) {
+  if (dictionaryStore && dictionaryStore !== store) {
+    dictionaryStore.off('changed', syncCustomWords);
+  }
   dictionaryStore = store;
   setNlpDictionaryStore(store);
+
+  // Custom words are never reported as misspellings; keep the spell checker's copy current
+  store.on('changed', syncCustomWords);
+  void syncCustomWords();
+}
+
+/**
+ * Copy the dictionary store's words into the spell checker and drop cached results
+ */
+async function syncCustomWords(): Promise<void> {
+  if (!dictionaryStore) return;
+
+  try {
+    setGrammarCustomWords(await dictionaryStore.listWords());
+  } catch (error) {
+    // The store emits 'changed' once initialized; until then there is nothing to copy
+    logger.debug(`Custom words not synced: ${(error as Error).message}`, 'GrammarEngine');
+  }
+}
+
+/**
+ * Replace the custom words used by the spelling and capitalization checks
+ * Kept current from the dictionary store; analysis workers receive the words directly
+ */
+export function setGrammarCustomWords(words: string[]): void {
+  setCustomWords(words);
+  setCanonicalCasing(words);
+  invalidateResults();
 }
 
 // Export synonym provider setter for integration
@@ -65,106 +162,214 @@ export async function processTextWithSynonyms(text: string): Promise<EnhancedTok
   return enhancedProcessText(text);
 }
 
-// Common misspellings dictionary
-const COMMON_MISSPELLINGS: Record<string, string> = {
-  'caat': 'cat',
-  'eror': 'error',
-  'runing': 'running',
-  'quikly': 'quickly',
-  'wrold': 'world',
-  'recieve': 'receive',
-  'seperate': 'separate',
-  'definately': 'definitely'
+// The dictionary-based spelling check is not a regex rule but is filtered like one
+const SPELLING_RULE = {
+  id: 'misspelling',
+  type: RuleType.SPELLING,
+  category: 'grammar' as RuleCategory,
+  severity: 'error' as GrammarSeverity
 };
 
+// POS-based subject-verb agreement (see agreementChecker)
+const AGREEMENT_RULE = {
+  id: 'subject-verb-agreement',
+  type: RuleType.SUBJECT_VERB_AGREEMENT,
+  category: 'grammar' as RuleCategory,
+  severity: 'error' as GrammarSeverity
+};
+
+// American/British spellings that do not match the locale, or the rest of the document
+const VARIANT_RULE = {
+  id: 'mixed-variant-spelling',
+  type: RuleType.VARIANT_CONSISTENCY,
+  category: 'grammar' as RuleCategory,
+  severity: 'warning' as GrammarSeverity
+};
+
+// Verbs that leave the paragraph's dominant tense (see tenseAnalyzer)
+const TENSE_RULE = {
+  id: 'tense-shift',
+  type: RuleType.TENSE_CONSISTENCY,
+  category: 'grammar' as RuleCategory,
+  severity: 'warning' as GrammarSeverity
+};
+
+// "a" or "an" that does not match the sound of the next word (see articleChecker)
+const ARTICLE_RULE = {
+  id: 'a-an',
+  type: RuleType.ARTICLE,
+  category: 'grammar' as RuleCategory,
+  severity: 'error' as GrammarSeverity
+};
+
+// Singular count noun without a determiner ("she is teacher")
+const DETERMINER_RULE = {
+  id: 'missing-determiner',
+  type: RuleType.ARTICLE,
+  category: 'grammar' as RuleCategory,
+  severity: 'warning' as GrammarSeverity
+};
+
+// Commonly confused words such as their/there/they're (see confusables)
+const CONFUSABLE_RULE = {
+  id: 'confused-word',
+  type: RuleType.CONFUSED_WORDS,
+  category: 'grammar' as RuleCategory,
+  severity: 'warning' as GrammarSeverity
+};
+
+// "the the", also across a line break (see repeatedWords)
+const REPEATED_WORD_RULE = {
+  id: 'repeated-word',
+  type: RuleType.REPEATED_WORDS,
+  category: 'grammar' as RuleCategory,
+  severity: 'error' as GrammarSeverity
+};
+
+// Quotes, parentheses, brackets and braces without a partner (see delimiterBalance)
+const BALANCE_RULE = {
+  id: 'unbalanced-delimiter',
+  type: RuleType.PUNCTUATION,
+  category: 'grammar' as RuleCategory,
+  severity: 'error' as GrammarSeverity
+};
+
+// Two independent clauses joined by a comma alone
+const COMMA_SPLICE_RULE = {
+  id: 'comma-splice',
+  type: RuleType.PUNCTUATION,
+  category: 'grammar' as RuleCategory,
+  severity: 'warning' as GrammarSeverity
+};
+
+// "However we decided", "When we arrived we ate"
+const INTRODUCTORY_COMMA_RULE = {
+  id: 'introductory-comma',
+  type: RuleType.PUNCTUATION,
+  category: 'grammar' as RuleCategory,
+  severity: 'warning' as GrammarSeverity
+};
+
+// Serial comma house style; only runs when GrammarCheckOptions.oxfordComma is set
+const OXFORD_COMMA_RULE = {
+  id: 'oxford-comma',
+  type: RuleType.PUNCTUATION,
+  category: 'grammar' as RuleCategory,
+  severity: 'warning' as GrammarSeverity
+};
+
+// Lowercase first word of a sentence (see capitalization)
+const SENTENCE_CAPITAL_RULE = {
+  id: 'sentence-capital',
+  type: RuleType.CAPITALIZATION,
+  category: 'grammar' as RuleCategory,
+  severity: 'error' as GrammarSeverity
+};
+
+// The pronoun written as "i"
+const PRONOUN_I_RULE = {
+  id: 'lowercase-i',
+  type: RuleType.CAPITALIZATION,
+  category: 'grammar' as RuleCategory,
+  severity: 'error' as GrammarSeverity
+};
+
+// Names written in lower case, and custom dictionary words not in their stored casing
+const PROPER_NOUN_RULE = {
+  id: 'proper-noun-case',
+  type: RuleType.CAPITALIZATION,
+  category: 'grammar' as RuleCategory,
+  severity: 'warning' as GrammarSeverity
+};
+
+// Ordinary words written in ALL CAPS; acronyms pass
+const SHOUTING_RULE = {
+  id: 'all-caps',
+  type: RuleType.CAPITALIZATION,
+  category: 'grammar' as RuleCategory,
+  severity: 'warning' as GrammarSeverity
+};
+
+/**
+ * Apply the casing of `source` to `replacement` (all caps, capitalized or as-is)
+ * so fixes such as "Recieve" -> "Receive" keep the author's capitalization
+ */
+function matchCase(source: string, replacement: string): string {
+  if (source.length > 1 && source === source.toUpperCase() && source !== source.toLowerCase()) {
+    return replacement.toUpperCase();
+  }
+  if (source[0] && source[0] === source[0].toUpperCase() && source[0] !== source[0].toLowerCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
 // Enhanced grammar rules with comprehensive punctuation detection
-const GRAMMAR_RULES: GrammarRule[] = [
+const BUILT_IN_GRAMMAR_RULES: GrammarRule[] = [
   // Enhanced punctuation rules - multiple patterns for comprehensive coverage
   {
+    id: 'missing-period',
     type: RuleType.PUNCTUATION,
+    category: 'grammar',
     pattern: /^[A-Z][^.!?]*[a-zA-Z]\s*$/,
     message: 'Missing period at end of sentence',
     severity: 'error'
   },
   {
+    id: 'multiple-spaces',
     type: RuleType.PUNCTUATION,
-    pattern: /\s{2,}/g,
+    category: 'grammar',
+    pattern: /(?<=\S)[ \t]{2,}(?=\S)/g,
     message: 'Multiple consecutive spaces should be single space',
-    severity: 'warning'
+    severity: 'warning',
+    fix: () => ' ',
+    // The spaces between two sentences belong to neither of them
+    scope: 'paragraph'
   },
   {
+    id: 'repeated-punctuation',
     type: RuleType.PUNCTUATION,
+    category: 'grammar',
     pattern: /[.!?]{2,}/g,
     message: 'Multiple consecutive punctuation marks',
     severity: 'warning'
   },
   {
+    id: 'space-before-punctuation',
     type: RuleType.PUNCTUATION,
+    category: 'grammar',
     pattern: /\s+[.!?]/g,
     message: 'Space before punctuation mark',
-    severity: 'error'
+    severity: 'error',
+    fix: (match) => match[0].trim()
   },
   {
+    id: 'missing-space-after-punctuation',
     type: RuleType.PUNCTUATION,
-    pattern: /[.!?](?=[a-zA-Z])/g,
+    category: 'grammar',
+    // Requires a word before and a capitalised word after, so "e.g.", "p.m." and "U.S." pass
+    pattern: /(?<=[a-z]{2})[.!?](?=[A-Z][a-z])/g,
     message: 'Missing space after punctuation mark',
     severity: 'error'
   },
   {
+    id: 'missing-space-after-comma',
     type: RuleType.PUNCTUATION,
+    category: 'grammar',
     pattern: /(?<=[a-zA-Z]),(?=[a-zA-Z])/g,
     message: 'Missing space after comma',
-    severity: 'error'
-  },
-  
-  // Enhanced subject-verb agreement rules
-  {
-    type: RuleType.SUBJECT_VERB_AGREEMENT,
-    pattern: /\b(cats|dogs|birds|people|children|women|men)\s+is\b/i,
-    message: 'Subject-verb agreement error: plural subject requires "are"',
-    severity: 'error'
-  },
-  {
-    type: RuleType.SUBJECT_VERB_AGREEMENT,
-    pattern: /\b(cat|dog|bird|person|child|woman|man|caat|doog|brid)\s+are\b/i,
-    message: 'Subject-verb agreement error: singular subject requires "is"',
-    severity: 'error'
-  },
-  {
-    type: RuleType.SUBJECT_VERB_AGREEMENT,
-    pattern: /\b(he|she|it)\s+are\b/i,
-    message: 'Subject-verb agreement error: singular pronoun requires "is"',
-    severity: 'error'
-  },
-  {
-    type: RuleType.SUBJECT_VERB_AGREEMENT,
-    pattern: /\b(they|we|you)\s+is\b/i,
-    message: 'Subject-verb agreement error: plural pronoun requires "are"',
-    severity: 'error'
-  },
-  // Additional pattern to catch determiners with mismatch
-  {
-    type: RuleType.SUBJECT_VERB_AGREEMENT,
-    pattern: /\b(the|a|an)\s+\w+\s+are\b/i,
-    message: 'Subject-verb agreement error: singular subject with determiner requires "is"',
-    severity: 'error'
-  },
-  
-  // Enhanced tense consistency rules
-  {
-    type: RuleType.TENSE_CONSISTENCY,
-    pattern: /\b(went|walked|ran|drove|ate|bought)\b.*\band\s+(go|walk|run|drive|eat|buy)\b/i,
-    message: 'Tense inconsistency: mixing past and present tense',
-    severity: 'error'
+    severity: 'error',
+    fix: () => ', '
   },
-  {
-    type: RuleType.TENSE_CONSISTENCY,
-    pattern: /\b(go|walk|run|drive|eat|buy)\b.*\band\s+(went|walked|ran|drove|ate|bought)\b/i,
-    message: 'Tense inconsistency: mixing present and past tense',
-    severity: 'error'
-  }
+
 ];
 
+// Regex rules in use: the built-ins merged with every loaded rule pack
+const GRAMMAR_RULES: GrammarRule[] = [...BUILT_IN_GRAMMAR_RULES];
+
+// Rules contributed by each loaded pack, by pack id
+const grammarRulePacks = new Map<string, { info: RulePackInfo; config: unknown; rules: GrammarRule[] }>();
+
 // Tone detection lexicons for rule-based analysis
 const TONE_LEXICONS = {
   formal: {
@@ -274,6 +479,94 @@ function setCachedResult(text: string, result: CheckResult[]): void {
   }, CACHE_TTL);
 }
 
+// Bumped whenever rules, the filter or custom words change, so callers holding
+// their own results (the incremental checker) know to recheck
+let resultsVersion = 0;
+
+function invalidateResults(): void {
+  processingCache.clear();
+  resultsVersion++;
+}
+
+/**
+ * Version of the engine's rules, filter and custom words; changes whenever earlier results may be stale
+ */
+export function getGrammarResultsVersion(): number {
+  return resultsVersion;
+}
+
+// Engine-wide rule filter, kept in sync with plugin settings by SettingsService
+let activeRuleFilter: RuleFilter = {};
+
+/**
+ * Set the engine-wide grammar rule filter and drop cached results computed under the old one
+ * @param filter - Rules to enable/disable by id, type or category
+ */
+export function setGrammarRuleFilter(filter: RuleFilter): void {
+  activeRuleFilter = { ...filter };
+  invalidateResults();
+}
+
+export function getGrammarRuleFilter(): RuleFilter {
+  return { ...activeRuleFilter };
+}
+
+/**
+ * List the identity of every grammar rule, including the built-in spelling check
+ * @returns Rule ids, types and categories in evaluation order
+ */
+export function listGrammarRules(): RuleIdentity[] {
+  return [SPELLING_RULE, AGREEMENT_RULE, VARIANT_RULE, TENSE_RULE, ARTICLE_RULE, DETERMINER_RULE, CONFUSABLE_RULE, REPEATED_WORD_RULE, BALANCE_RULE,
+    COMMA_SPLICE_RULE, INTRODUCTORY_COMMA_RULE, OXFORD_COMMA_RULE, SENTENCE_CAPITAL_RULE, PRONOUN_I_RULE, PROPER_NOUN_RULE, SHOUTING_RULE,
+    ...GRAMMAR_RULES].map(({ id, type, category }) => ({ id, type, category }));
+}
+
+// Rules selected for a single checkGrammar call
+interface RuleSelection {
+  rules: GrammarRule[];
+  paragraphRules: GrammarRule[];
+  spelling: boolean;
+  agreement: boolean;
+  variants: boolean;
+  tense: boolean;
+  articles: boolean;
+  determiners: boolean;
+  confusables: boolean;
+  repeats: boolean;
+  balance: boolean;
+  commaSplices: boolean;
+  introductoryCommas: boolean;
+  oxfordComma: boolean;
+  sentenceCapitals: boolean;
+  pronounI: boolean;
+  properNouns: boolean;
+  shouting: boolean;
+}
+
+function selectRules(callFilter?: RuleFilter): RuleSelection {
+  const active = GRAMMAR_RULES.filter(rule => isRuleActive(rule, activeRuleFilter, callFilter));
+  return {
+    rules: active.filter(rule => rule.scope !== 'paragraph'),
+    paragraphRules: active.filter(rule => rule.scope === 'paragraph'),
+    spelling: isRuleActive(SPELLING_RULE, activeRuleFilter, callFilter),
+    agreement: isRuleActive(AGREEMENT_RULE, activeRuleFilter, callFilter),
+    variants: isRuleActive(VARIANT_RULE, activeRuleFilter, callFilter),
+    tense: isRuleActive(TENSE_RULE, activeRuleFilter, callFilter),
+    articles: isRuleActive(ARTICLE_RULE, activeRuleFilter, callFilter),
+    determiners: isRuleActive(DETERMINER_RULE, activeRuleFilter, callFilter),
+    confusables: isRuleActive(CONFUSABLE_RULE, activeRuleFilter, callFilter),
+    repeats: isRuleActive(REPEATED_WORD_RULE, activeRuleFilter, callFilter),
+    balance: isRuleActive(BALANCE_RULE, activeRuleFilter, callFilter),
+    commaSplices: isRuleActive(COMMA_SPLICE_RULE, activeRuleFilter, callFilter),
+    introductoryCommas: isRuleActive(INTRODUCTORY_COMMA_RULE, activeRuleFilter, callFilter),
+    oxfordComma: isRuleActive(OXFORD_COMMA_RULE, activeRuleFilter, callFilter),
+    sentenceCapitals: isRuleActive(SENTENCE_CAPITAL_RULE, activeRuleFilter, callFilter),
+    pronounI: isRuleActive(PRONOUN_I_RULE, activeRuleFilter, callFilter),
+    properNouns: isRuleActive(PROPER_NOUN_RULE, activeRuleFilter, callFilter),
+    shouting: isRuleActive(SHOUTING_RULE, activeRuleFilter, callFilter)
+  };
+}
+
 // POS tag mapping from compromise to expected test format
 const POS_TAG_MAP: Record<string, string> = {
   'Determiner': 'Determiner',
@@ -290,159 +583,488 @@ const POS_TAG_MAP: Record<string, string> = {
 
 /**
  * High-performance offline spell & grammar checking rules engine
+ * Segments the input into sentences and runs the rules once per sentence
  * Executes in under 10ms per sentence on commodity hardware
  * Ultra-optimized with aggressive caching and fast-path processing
  *
  * @param sentence - The sentence to analyze
+ * @param options - Optional per-call rule filter, locale, ignore ranges and directive handling
  * @returns Array of CheckResult objects containing detected issues
  */
-export function checkGrammar(sentence: string): CheckResult[] {
+export function checkGrammar(sentence: string, options: GrammarCheckOptions = {}): CheckResult[] {
+  return checkGrammarReport(sentence, options).results;
+}
+
+/**
+ * Same as checkGrammar, but also reports the results that inline
+ * `opengrammer-disable` directives or `ignoreRanges` suppressed
+ *
+ * @param sentence - The text to analyze
+ * @param options - Optional per-call rule filter, locale, ignore ranges and directive handling
+ * @returns Reported and suppressed results
+ */
+export function checkGrammarReport(sentence: string, options: GrammarCheckOptions = {}): GrammarReport {
   // Input validation - handle non-string inputs gracefully
   if (!sentence || typeof sentence !== 'string' || sentence.trim().length === 0) {
-    return [];
+    return { results: [], suppressed: [] };
   }
 
-  // Check cache for repeated inputs - early return for performance
-  const trimmedSentence = sentence.trim();
-  const cachedResult = getCachedResult(trimmedSentence);
+  // Suppression is applied after the cache, which holds every detected issue
+  const suppressions = parseSuppressions(sentence, options);
+  return applySuppressions(detectIssues(sentence, options), 'grammar', suppressions);
+}
+
+/**
+ * Run the selected rules over the whole text, using the cache when possible
+ */
+function detectIssues(sentence: string, options: GrammarCheckOptions): CheckResult[] {
+  // Check cache for repeated inputs - early return for performance.
+  // Keyed on the locale and the untrimmed text because result offsets depend on
+  // leading whitespace; calls with their own rule filter bypass the cache
+  const useCache = !options.rules;
+  const styleKey = `${options.locale || ''}${options.preferIze ? '+ize' : ''}${options.oxfordComma ? `+oxford-${options.oxfordComma}` : ''}`;
+  const cacheKey = styleKey ? `${styleKey}\u0000${sentence}` : sentence;
+  const cachedResult = useCache ? getCachedResult(cacheKey) : null;
   if (cachedResult) {
     return cachedResult;
   }
 
   // Ultra-fast processing for real-time scenarios
   const results: CheckResult[] = [];
+  const selection = selectRules(options.rules);
+  const lineIndex = createLineIndex(sentence);
   
-  // Fast single-line processing (most common case)
-  if (!sentence.includes('\n')) {
-    const lineResults = processLineFast(sentence, 1);
-    results.push(...lineResults);
-  } else {
-    // Multi-line processing only when needed
-    const lines = sentence.split('\n');
-    for (let i = 0; i < lines.length; i++) {
-      const lineResults = processLineFast(lines[i], i + 1);
-      results.push(...lineResults);
+  // Rules run once per sentence so wrapped sentences are checked as a unit
+  const sentences = segmentSentences(sentence);
+  for (let i = 0; i < sentences.length; i++) {
+    const sentenceResults = processSentenceFast(sentences[i], lineIndex, selection, options);
+    results.push(...sentenceResults);
+  }
+
+  // Variant consistency depends on the whole document, not a single sentence
+  if (selection.variants) {
+    results.push(...checkVariantConsistency(sentence, lineIndex, options));
+  }
+
+  // Tense is judged against the paragraph, so it also runs over the whole text
+  if (selection.tense) {
+    results.push(...checkTenseConsistency({ text: sentence, start: 0, end: sentence.length }, lineIndex));
+  }
+
+  if (selection.paragraphRules.length > 0) {
+    for (const paragraph of segmentParagraphs(sentence)) {
+      results.push(...checkParagraphPatterns(paragraph, lineIndex, selection.paragraphRules));
     }
   }
 
+  // A quote or parenthesis may span several sentences
+  if (selection.balance) {
+    results.push(...checkDelimiterBalance(sentence, lineIndex));
+  }
+
   // Cache result for future use (no performance logging in fast path)
-  setCachedResult(trimmedSentence, results);
+  if (useCache) {
+    setCachedResult(cacheKey, results);
+  }
 
   return results;
 }
 
 /**
- * Ultra-fast line processing optimized for <10ms performance
+ * Ultra-fast sentence processing optimized for <10ms performance
  * Uses simplified algorithms and early exits
  */
-function processLineFast(line: string, lineNumber: number): CheckResult[] {
+function processSentenceFast(
+  sentence: SentenceSpan,
+  lineIndex: LineIndex,
+  selection: RuleSelection,
+  options: GrammarCheckOptions
+): CheckResult[] {
   const results: CheckResult[] = [];
   
-  // Fast spelling check - only check obvious misspellings
-  const fastSpellingErrors = checkSpellingFast(line, lineNumber);
-  results.push(...fastSpellingErrors);
+  // Dictionary spelling check; variant spellings are left to the consistency check when it runs
+  if (selection.spelling) {
+    const fastSpellingErrors = checkSpellingFast(sentence, lineIndex, options, selection.variants);
+    results.push(...fastSpellingErrors);
+  }
+  
+  if (selection.agreement) {
+    results.push(...checkAgreement(sentence, lineIndex));
+  }
+
+  if (selection.articles || selection.determiners) {
+    results.push(...checkArticles(sentence, lineIndex, selection, options));
+  }
+
+  if (selection.confusables) {
+    results.push(...checkConfusables(sentence, lineIndex));
+  }
+
+  if (selection.repeats) {
+    results.push(...checkRepeatedWords(sentence, lineIndex));
+  }
+
+  if (selection.commaSplices || selection.introductoryCommas || (selection.oxfordComma && options.oxfordComma)) {
+    results.push(...checkCommas(sentence, lineIndex, selection, options));
+  }
+
+  if (selection.sentenceCapitals || selection.pronounI || selection.properNouns || selection.shouting) {
+    results.push(...checkCapitalization(sentence, lineIndex, selection, options));
+  }
   
   // Fast grammar check - only essential rules
-  const fastGrammarErrors = checkGrammarRulesFast(line, lineNumber);
+  const fastGrammarErrors = checkGrammarRulesFast(sentence, lineIndex, selection.rules);
   results.push(...fastGrammarErrors);
   
   return results;
 }
 
 /**
- * Ultra-fast spelling check - only most common misspellings, optimized for <10ms
+ * Sentence-level rules for one sentence, as checkGrammar runs them
+ * Lets callers that keep their own sentence model (the incremental checker)
+ * recheck only the sentences that changed
+ * @param sentence - Sentence span from segmentSentences or segmentParagraph
+ * @param lineIndex - Line index of the whole document, for line and column
+ * @param options - Per-call rule filter, locale and comma style
  */
-function checkSpellingFast(line: string, lineNumber: number): CheckResult[] {
-  const results: CheckResult[] = [];
+export function checkSentenceRules(sentence: SentenceSpan, lineIndex: LineIndex, options: GrammarCheckOptions = {}): CheckResult[] {
+  return processSentenceFast(sentence, lineIndex, selectRules(options.rules), options);
+}
+
+/**
+ * Paragraph-level rules (tense consistency, spacing) for one paragraph from segmentParagraphs
+ */
+export function checkParagraphRules(paragraph: SentenceSpan, lineIndex: LineIndex, options: GrammarCheckOptions = {}): CheckResult[] {
+  const selection = selectRules(options.rules);
+  return [
+    ...(selection.tense ? checkTenseConsistency(paragraph, lineIndex) : []),
+    ...checkParagraphPatterns(paragraph, lineIndex, selection.paragraphRules)
+  ];
+}
+
+/**
+ * Rules that need the whole document: variant consistency and delimiter balance
+ */
+export function checkDocumentRules(text: string, lineIndex: LineIndex, options: GrammarCheckOptions = {}): CheckResult[] {
+  const selection = selectRules(options.rules);
+  return [
+    ...(selection.variants ? checkVariantConsistency(text, lineIndex, options) : []),
+    ...(selection.balance ? checkDelimiterBalance(text, lineIndex) : [])
+  ];
+}
+
+/**
+ * Build a CheckResult covering `length` characters at `index` of a sentence
+ * Maps the sentence-relative position to absolute offsets, line and column
+ */
+function createResult(
+  rule: { id: string; type: RuleType; severity: GrammarSeverity },
+  message: string,
+  sentence: SentenceSpan,
+  lineIndex: LineIndex,
+  index: number,
+  length: number,
+  suggestion?: string
+): CheckResult {
+  const start = sentence.start + index;
+  const position = offsetToPosition(lineIndex, start);
+  const result: CheckResult = {
+    type: rule.type,
+    ruleId: rule.id,
+    message,
+    severity: rule.severity,
+    line: position.line,
+    column: position.column,
+    start,
+    end: start + length,
+    length,
+    text: sentence.text.substr(index, length)
+  };
   
-  // Ultra-fast direct checks for known misspellings only
-  const knownWords = Object.keys(COMMON_MISSPELLINGS);
-  for (let i = 0; i < knownWords.length; i++) {
-    const word = knownWords[i];
-    const index = line.toLowerCase().indexOf(word);
-    if (index !== -1) {
-      // Quick boundary check
-      const beforeChar = index > 0 ? line[index - 1] : ' ';
-      const afterChar = index + word.length < line.length ? line[index + word.length] : ' ';
-      if (/\W/.test(beforeChar) && /\W/.test(afterChar)) {
-        results.push({
-          type: RuleType.SPELLING,
-          message: `Possible spelling error: "${word}" should be "${COMMON_MISSPELLINGS[word]}"`,
-          line: lineNumber,
-          column: index + 1,
-          suggestion: COMMON_MISSPELLINGS[word]
-        });
-        
-        // Early exit for performance
-        if (results.length >= 2) break;
-      }
-    }
+  if (suggestion !== undefined) {
+    result.suggestion = suggestion;
   }
   
+  return result;
+}
+
+/**
+ * Dictionary spelling check against the bundled Hunspell word list and the user's custom words
+ */
+function checkSpellingFast(
+  sentence: SentenceSpan,
+  lineIndex: LineIndex,
+  options: LocaleOptions,
+  skipVariants: boolean
+): CheckResult[] {
+  const misspellings = findMisspellings(sentence.text, { locale: options.locale })
+    .filter(misspelling => !skipVariants || !lookupVariant(misspelling.word));
+
+  return misspellings.map(misspelling => {
+    const message = misspelling.suggestions.length > 0
+      ? `Possible spelling error: "${misspelling.word}" - did you mean "${misspelling.suggestions[0]}"?`
+      : `Possible spelling error: "${misspelling.word}" is not in the dictionary`;
+    const result = createResult(
+      SPELLING_RULE,
+      message,
+      sentence,
+      lineIndex,
+      misspelling.start,
+      misspelling.word.length,
+      misspelling.correction
+    );
+    result.suggestions = misspelling.suggestions;
+    return result;
+  });
+}
+
+/**
+ * Subject-verb agreement from compromise POS tags; the suggestion replaces the verb
+ */
+function checkAgreement(sentence: SentenceSpan, lineIndex: LineIndex): CheckResult[] {
+  return findAgreementErrors(sentence.text).map(issue => {
+    const subjectKind = issue.number === 'first' ? 'first-person' : issue.number;
+    return createResult(
+      AGREEMENT_RULE,
+      `Subject-verb agreement error: ${subjectKind} subject "${issue.subject}" requires "${issue.expected}"`,
+      sentence,
+      lineIndex,
+      issue.start,
+      issue.end - issue.start,
+      issue.expected
+    );
+  });
+}
+
+/**
+ * a/an by pronunciation and missing determiners; suggestions replace the article or the noun phrase
+ */
+function checkArticles(
+  sentence: SentenceSpan,
+  lineIndex: LineIndex,
+  selection: RuleSelection,
+  options: LocaleOptions
+): CheckResult[] {
+  const results: CheckResult[] = [];
+
+  for (const issue of findArticleErrors(sentence.text, { locale: options.locale })) {
+    if (issue.kind === 'a-an' && selection.articles) {
+      const message = `Use "${issue.replacement}" before "${issue.word}"`;
+      results.push(createResult(ARTICLE_RULE, message, sentence, lineIndex, issue.start, issue.end - issue.start, issue.replacement));
+    } else if (issue.kind === 'missing-determiner' && selection.determiners) {
+      // Whether "a" or "the" is meant is the writer's call, so there is no automatic fix
+      const message = `Missing article: the singular noun "${issue.word}" needs "a", "an" or "the"`;
+      const result = createResult(DETERMINER_RULE, message, sentence, lineIndex, issue.start, issue.end - issue.start);
+      result.suggestions = [issue.replacement, ...(issue.alternatives || [])];
+      results.push(result);
+    }
+  }
+
   return results;
 }
 
 /**
- * Ultra-fast grammar rules check - optimized for <10ms performance
+ * Words that another member of their confusion set fits better
+ */
+function checkConfusables(sentence: SentenceSpan, lineIndex: LineIndex): CheckResult[] {
+  return findConfusedWords(sentence.text).map(issue => {
+    const meaning = issue.replacementGloss ? ` ("${issue.replacement.toLowerCase()}" means ${issue.replacementGloss})` : '';
+    return createResult(
+      CONFUSABLE_RULE,
+      `Commonly confused: did you mean "${issue.replacement}"?${meaning}`,
+      sentence,
+      lineIndex,
+      issue.start,
+      issue.end - issue.start,
+      issue.replacement
+    );
+  });
+}
+
+/**
+ * Immediately repeated words and phrases; the empty suggestion deletes the duplicate
  */
-function checkGrammarRulesFast(line: string, lineNumber: number): CheckResult[] {
+function checkRepeatedWords(sentence: SentenceSpan, lineIndex: LineIndex): CheckResult[] {
+  return findRepeatedWords(sentence.text).map(repeat => createResult(
+    REPEATED_WORD_RULE,
+    `Repeated ${repeat.words > 1 ? 'phrase' : 'word'}: "${repeat.repeated}"`,
+    sentence,
+    lineIndex,
+    repeat.start,
+    repeat.end - repeat.start,
+    ''
+  ));
+}
+
+/**
+ * Comma splices, missing introductory commas and the optional Oxford comma house style
+ */
+function checkCommas(
+  sentence: SentenceSpan,
+  lineIndex: LineIndex,
+  selection: RuleSelection,
+  options: CommaOptions
+): CheckResult[] {
+  const oxfordComma = selection.oxfordComma ? options.oxfordComma : undefined;
   const results: CheckResult[] = [];
-  
-  // Optimized rule checking with early exits and minimal overhead
-  for (let i = 0; i < GRAMMAR_RULES.length; i++) {
-    const rule = GRAMMAR_RULES[i];
-    rule.pattern.lastIndex = 0; // Reset regex state
-    
-    const match = rule.pattern.exec(line);
-    if (match) {
-      results.push({
-        type: rule.type,
-        message: rule.message,
-        line: lineNumber,
-        column: match.index + 1
-      });
-      
-      // Early exit after finding first few matches for performance
-      if (results.length >= 3) break;
+
+  for (const issue of findCommaIssues(sentence.text, { oxfordComma })) {
+    const length = issue.end - issue.start;
+    if (issue.kind === 'comma-splice' && selection.commaSplices) {
+      const message = 'Comma splice: use a semicolon, a period or a conjunction to join these independent clauses';
+      results.push(createResult(COMMA_SPLICE_RULE, message, sentence, lineIndex, issue.start, length, issue.replacement));
+    } else if (issue.kind === 'introductory-comma' && selection.introductoryCommas) {
+      const message = `Add a comma after the introductory "${issue.text}"`;
+      results.push(createResult(INTRODUCTORY_COMMA_RULE, message, sentence, lineIndex, issue.start, length, issue.replacement));
+    } else if (issue.kind === 'oxford-comma') {
+      const message = oxfordComma === 'require'
+        ? 'Add a serial (Oxford) comma before the last item of the list'
+        : 'Remove the serial (Oxford) comma before the last item of the list';
+      results.push(createResult(OXFORD_COMMA_RULE, message, sentence, lineIndex, issue.start, length, issue.replacement));
     }
   }
-  
+
   return results;
 }
 
 /**
- * Process a single line for all grammar and spelling issues
- * Reduces complexity by consolidating line-level processing
+ * Lowercase sentence starts and "i", custom words in the wrong case, and words in ALL CAPS
  */
-function processLine(line: string, lineNumber: number): CheckResult[] {
+function checkCapitalization(
+  sentence: SentenceSpan,
+  lineIndex: LineIndex,
+  selection: RuleSelection,
+  options: LocaleOptions
+): CheckResult[] {
   const results: CheckResult[] = [];
-  
-  // Check spelling errors
-  const spellingErrors = checkSpelling(line, lineNumber);
-  results.push(...spellingErrors);
-  
-  // Check grammar rules
-  const grammarErrors = checkGrammarRules(line, lineNumber);
-  results.push(...grammarErrors);
-  
+
+  for (const issue of findCapitalizationIssues(sentence.text, { locale: options.locale })) {
+    const rule = issue.kind === 'sentence-start' ? (selection.sentenceCapitals && SENTENCE_CAPITAL_RULE)
+      : issue.kind === 'pronoun-i' ? (selection.pronounI && PRONOUN_I_RULE)
+        : issue.kind === 'all-caps' ? (selection.shouting && SHOUTING_RULE)
+          : (selection.properNouns && PROPER_NOUN_RULE);
+    if (rule) {
+      results.push(createResult(rule, capitalizationMessage(issue), sentence, lineIndex, issue.start, issue.end - issue.start, issue.replacement));
+    }
+  }
+
   return results;
 }
 
+function capitalizationMessage(issue: CapitalizationIssue): string {
+  switch (issue.kind) {
+    case 'sentence-start': return `Capitalize the first word of a sentence: "${issue.replacement}"`;
+    case 'pronoun-i': return 'The pronoun "I" is always capitalized';
+    case 'all-caps': return 'Avoid writing ordinary words in all capitals; it reads as shouting';
+    case 'custom-casing': return `"${issue.text}" is written "${issue.replacement}" in your dictionary`;
+    default: {
+      const kind = issue.entityType || 'proper noun';
+      return `"${issue.text}" is the name of ${indefiniteArticle(kind)} ${kind} and should be capitalized: "${issue.replacement}"`;
+    }
+  }
+}
+
 /**
- * Check for spelling errors in a line of text
+ * Names of people, places and organizations written in lower case ("we met john in paris")
+ * Entity recognition is asynchronous, so this runs next to checkGrammar rather than
+ * inside it; addProperNounResults merges the two
+ *
+ * @param text - The text to analyze
+ * @param options - Optional per-call rule filter, locale, ignore ranges and directive handling
+ * @returns Results of the proper-noun-case rule, after suppressions
  */
-function checkSpelling(line: string, lineNumber: number): CheckResult[] {
+export async function checkProperNouns(text: string, options: GrammarCheckOptions = {}): Promise<CheckResult[]> {
+  if (!text || typeof text !== 'string' || text.trim().length === 0 || !selectRules(options.rules).properNouns) {
+    return [];
+  }
+
+  // entityRecognizer drops punctuation, so recognise each clause on its own ("in london. london is")
+  const clauses: Array<Array<{ text: string; pos: string; start: number; end: number }>> = [[]];
+  for (const term of tagTerms(text)) {
+    clauses[clauses.length - 1].push({ text: term.text, pos: term.tags.values().next().value || 'UNK', start: term.start, end: term.end });
+    if (/[.!?;:]/.test(term.post)) clauses.push([]);
+  }
+  const entities = (await Promise.all(clauses.map(clause => entityRecognizer(clause)))).flat();
+  const document: SentenceSpan = { text, start: 0, end: text.length };
+  const lineIndex = createLineIndex(text);
+
+  const results = findProperNounIssues(text, entities, { locale: options.locale }).map(issue => createResult(
+    PROPER_NOUN_RULE,
+    capitalizationMessage(issue),
+    document,
+    lineIndex,
+    issue.start,
+    issue.end - issue.start,
+    issue.replacement
+  ));
+  return applySuppressions(results, 'grammar', parseSuppressions(text, options)).results;
+}
+
+/**
+ * Add the results of checkProperNouns to those checkGrammar (or an IncrementalChecker)
+ * returned for the same text and options
+ * A name the synchronous checks already reported at the same range is not repeated
+ * @returns All results, in text order when any were added
+ */
+export async function addProperNounResults(text: string, results: CheckResult[], options: GrammarCheckOptions = {}): Promise<CheckResult[]> {
+  const reported = new Set(results.map(result => `${result.ruleId}:${result.start}:${result.end}`));
+  const names = (await checkProperNouns(text, options))
+    .filter(result => !reported.has(`${result.ruleId}:${result.start}:${result.end}`));
+  return names.length === 0 ? results : [...results, ...names].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Flag American/British spellings that do not match the requested locale or,
+ * when no locale is given, the variant the rest of the document uses
+ */
+function checkVariantConsistency(text: string, lineIndex: LineIndex, options: LocaleOptions): CheckResult[] {
+  const spellings = findVariantSpellings(text);
+  if (spellings.length === 0) {
+    return [];
+  }
+
+  const locale = options.locale || inferLocale(spellings, options);
+  const document: SentenceSpan = { text, start: 0, end: text.length };
   const results: CheckResult[] = [];
-  const wordRegex = /\S+/g; // Matches sequences of non-whitespace characters
-  let match: RegExpExecArray | null;
 
-  while ((match = wordRegex.exec(line)) !== null) {
-    const word = match[0];
-    const wordIndex = match.index;
-    const spellingError = processWordForSpelling(word, lineNumber, wordIndex);
-    
-    if (spellingError) {
-      results.push(spellingError);
+  for (const spelling of spellings) {
+    const preferred = preferredVariant(spelling.pair.convention, locale, options);
+    if (preferred === spelling.variant) continue;
+
+    const replacement = matchCase(spelling.word, spelling.pair[preferred]);
+    const variantName = spelling.variant === 'american' ? 'American' : 'British';
+    const message = options.locale
+      ? `"${spelling.word}" is the ${variantName} spelling; ${locale} uses "${replacement}"`
+      : `Mixed English variants: "${spelling.word}" is ${variantName}, but this text mostly follows ${locale}; use "${replacement}"`;
+    results.push(createResult(VARIANT_RULE, message, document, lineIndex, spelling.start, spelling.word.length, replacement));
+  }
+
+  return results;
+}
+
+/**
+ * Flag verbs that shift away from the paragraph's dominant tense, or from the verb they are joined to
+ */
+function checkTenseConsistency(span: SentenceSpan, lineIndex: LineIndex): CheckResult[] {
+  const results: CheckResult[] = [];
+
+  for (const paragraph of analyzeTense(span.text)) {
+    for (const shift of paragraph.shifts) {
+      const context = shift.reason === 'coordination'
+        ? `the verb it is joined to is in the ${shift.expected} tense`
+        : shift.reason === 'adverbial'
+          ? 'the sentence opens with a past time expression'
+          : `this paragraph is mostly in the ${shift.expected} tense`;
+      const suggestion = shift.suggestion ? matchCase(shift.text, shift.suggestion) : undefined;
+      results.push(createResult(
+        TENSE_RULE,
+        `Tense shift: "${shift.text}" is in the ${shift.tense} tense, but ${context}`,
+        span,
+        lineIndex,
+        shift.start,
+        shift.end - shift.start,
+        suggestion
+      ));
     }
   }
 
@@ -450,119 +1072,129 @@ function checkSpelling(line: string, lineNumber: number): CheckResult[] {
 }
 
 /**
- * Process a single word for spelling errors
- * Optimized for high performance with minimal overhead
+ * Report quotes and brackets that are opened but never closed, or closed but never opened
  */
-function processWordForSpelling(word: string, lineNumber: number, wordIndex: number): CheckResult | null {
-  // Fast path: Skip very short words and common words
-  if (word.length < 3) return null;
-  
-  // Clean the word (remove punctuation) - optimized version
-  const cleanWord = word.replace(/[^\w]/g, '').toLowerCase();
+function checkDelimiterBalance(text: string, lineIndex: LineIndex): CheckResult[] {
+  const document: SentenceSpan = { text, start: 0, end: text.length };
+
+  return findUnbalancedDelimiters(text).map(delimiter => {
+    const message = delimiter.kind === 'opener'
+      ? `Unmatched "${delimiter.char}": no closing "${delimiter.partner}" found`
+      : `Unmatched "${delimiter.char}": no opening "${delimiter.partner}" found`;
+    return createResult(BALANCE_RULE, message, document, lineIndex, delimiter.start, delimiter.end - delimiter.start);
+  });
+}
+
+/**
+ * Ultra-fast grammar rules check - optimized for <10ms performance
+ */
+function checkGrammarRulesFast(sentence: SentenceSpan, lineIndex: LineIndex, rules: GrammarRule[]): CheckResult[] {
+  const results: CheckResult[] = [];
   
-  // Fast lookup in misspellings dictionary
-  const correction = COMMON_MISSPELLINGS[cleanWord];
-  if (!correction) {
-    return null;
+  // Optimized rule checking with early exits and minimal overhead
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i];
+    rule.pattern.lastIndex = 0; // Reset regex state
+    
+    const match = rule.pattern.exec(sentence.text);
+    if (match) {
+      results.push(createResult(rule, rule.message, sentence, lineIndex, match.index, match[0].length, rule.fix?.(match)));
+      
+      // Early exit after finding first few matches for performance
+      if (results.length >= 3) break;
+    }
   }
   
-  return {
-    type: RuleType.SPELLING,
-    message: `Possible spelling error: "${cleanWord}" should be "${correction}"`,
-    line: lineNumber,
-    column: wordIndex + 1,
-    suggestion: correction
-  };
+  return results;
 }
 
 /**
- * Check grammar rules against a line of text
+ * Run paragraph-scoped pattern rules over one paragraph, reporting every match
  */
-function checkGrammarRules(line: string, lineNumber: number): CheckResult[] {
+function checkParagraphPatterns(paragraph: SentenceSpan, lineIndex: LineIndex, rules: GrammarRule[]): CheckResult[] {
   const results: CheckResult[] = [];
 
-  GRAMMAR_RULES.forEach(rule => {
-    const grammarError = processRuleForLine(rule, line, lineNumber);
-    if (grammarError) {
-      results.push(grammarError);
+  for (const rule of rules) {
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = rule.pattern.exec(paragraph.text)) !== null) {
+      results.push(createResult(rule, rule.message, paragraph, lineIndex, match.index, match[0].length, rule.fix?.(match)));
+      if (!rule.pattern.global || match[0].length === 0) break;
     }
-  });
+  }
 
   return results;
 }
 
 /**
- * Process a single grammar rule against a line
- * Optimized for high performance with early exits
+ * Load a grammar rule pack (see rulePacks) and merge it into the active rules
+ * Built-in rules stay; a pack rule with a built-in's id replaces it, and loading
+ * a pack again replaces the rules it loaded before. A pack may also add
+ * confusion sets. The pack's examples and tests must pass before it is merged.
+ * @param configPath - Path to the JSON rule pack
+ * @returns Summary of the loaded pack
+ * @throws Error if the file cannot be read or parsed, the pack is invalid, or its self-tests fail
  */
-function processRuleForLine(rule: GrammarRule, line: string, lineNumber: number): CheckResult | null {
-  // Reset regex lastIndex to ensure consistent behavior
-  rule.pattern.lastIndex = 0;
-  
-  const match = rule.pattern.exec(line);
-  
-  if (!match) {
-    return null;
+export function loadRulesFromConfig(configPath: string): RulePackInfo {
+  let config: unknown;
+  try {
+    config = readRulePackFile(configPath);
+  } catch (error) {
+    throw new Error(`Failed to load grammar rules: ${(error as Error).message}`);
   }
-  
-  return {
-    type: rule.type,
-    message: rule.message,
-    line: lineNumber,
-    column: match.index + 1
-  };
+  return loadGrammarRulePack(config, configPath);
 }
 
 /**
- * Load grammar rules from JSON configuration
- * Supports pluggable architecture for rule definitions
- * @param configPath - Path to the JSON configuration file
- * @throws Error if the file cannot be read or parsed, or if the configuration is invalid
+ * Load a grammar rule pack from parsed JSON, as loadRulesFromConfig does for a file
+ * @param config - Parsed pack
+ * @param file - File the pack came from; names packs without an id
+ * @returns Summary of the loaded pack
+ * @throws Error if the pack is invalid or its self-tests fail
  */
-export function loadRulesFromConfig(configPath: string): void {
+export function loadGrammarRulePack(config: unknown, file?: string): RulePackInfo {
   try {
-    // Read the configuration file
-    const configData = fs.readFileSync(configPath, 'utf8');
-    const config = JSON.parse(configData);
-    
     // Validate the configuration structure
-    if (!Array.isArray(config.rules)) {
-      throw new Error('Configuration must contain a "rules" array');
+    const hasRules = isRecord(config) && Array.isArray(config.rules);
+    const confusionSets = isRecord(config) && Array.isArray(config.confusionSets) ? config.confusionSets : null;
+    if (!hasRules && !confusionSets) {
+      throw new Error('Configuration must contain a "rules" or "confusionSets" array');
     }
     
-    // Map configuration to GrammarRule objects
-    const loadedRules: GrammarRule[] = config.rules.map((rule: any, index: number) => {
-      if (!rule.type || !rule.pattern || !rule.message || !rule.severity) {
-        throw new Error(`Rule at index ${index} is missing required properties`);
-      }
-      
-      // Validate rule type
-      if (!Object.values(RuleType).includes(rule.type)) {
-        throw new Error(`Invalid rule type: ${rule.type} at index ${index}`);
-      }
-      
-      // Validate severity
-      if (!['error', 'warning'].includes(rule.severity)) {
-        throw new Error(`Invalid severity: ${rule.severity} at index ${index}`);
-      }
-      
-      try {
-        // Compile regex pattern
-        return {
-          type: rule.type,
-          pattern: new RegExp(rule.pattern, rule.flags || ''),
-          message: rule.message,
-          severity: rule.severity
-        };
-      } catch (error) {
-        throw new Error(`Invalid regex pattern at index ${index}: ${rule.pattern}`);
-      }
+    const pack = parseRulePack(config, file ? packIdFromPath(file) : 'custom', {
+      severities: ['error', 'warning'],
+      types: Object.values(RuleType)
     });
+    const rules: GrammarRule[] = pack.rules.map(rule => {
+      const pattern = new RegExp(rule.pattern, rule.flags || '');
+      return {
+        id: rule.id,
+        type: rule.type as RuleType,
+        category: 'grammar',
+        pattern,
+        message: rule.message,
+        severity: rule.severity as GrammarSeverity,
+        fix: rule.replacement !== undefined ? compileReplacement(rule.replacement, pattern) : undefined
+      };
+    });
+
+    const failures = selfTestRulePack(pack, text => firedPackRules(text, rules));
+    if (failures.length > 0) {
+      throw new Error(`Rule pack "${pack.id}" failed its self-tests: ${failures.join('; ')}`);
+    }
     
-    // Replace existing rules with loaded rules
-    GRAMMAR_RULES.length = 0;
-    GRAMMAR_RULES.push(...loadedRules);
+    // Confusion sets extend the bundled list; sets with a known id replace it
+    // until the pack is unloaded, and a new version of the pack replaces its old sets
+    if (confusionSets) {
+      setPackConfusionSets(pack.id, { sets: confusionSets });
+    } else {
+      removePackConfusionSets(pack.id);
+    }
     
+    const info = { ...describeRulePack(pack), file };
+    grammarRulePacks.set(pack.id, { info, config, rules });
+    rebuildGrammarRules();
+    return info;
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Failed to load grammar rules: ${error.message}`);
@@ -572,6 +1204,60 @@ export function loadRulesFromConfig(configPath: string): void {
   }
 }
 
+/**
+ * Remove a loaded rule pack and its confusion sets, restoring any built-in rules and sets it replaced
+ * @param packId - Id of the pack
+ * @returns True if the pack was loaded
+ */
+export function unloadGrammarRulePack(packId: string): boolean {
+  const removed = grammarRulePacks.delete(packId);
+  if (removed) {
+    removePackConfusionSets(packId);
+    rebuildGrammarRules();
+  }
+  return removed;
+}
+
+/**
+ * Summaries of the loaded grammar rule packs, in load order
+ */
+export function listGrammarRulePacks(): RulePackInfo[] {
+  return [...grammarRulePacks.values()].map(pack => ({ ...pack.info }));
+}
+
+/**
+ * The loaded grammar packs' validated JSON, in load order (see loadGrammarRulePack)
+ */
+export function exportGrammarRulePacks(): RulePackSnapshot[] {
+  return [...grammarRulePacks.values()].map(pack => ({ id: pack.info.id, file: pack.info.file, config: pack.config }));
+}
+
+/**
+ * Ids of `rules` that fire on `text`, run the way checkGrammar runs them
+ */
+function firedPackRules(text: string, rules: GrammarRule[]): string[] {
+  const lineIndex = createLineIndex(text);
+  return segmentSentences(text).flatMap(sentence => checkGrammarRulesFast(sentence, lineIndex, rules).map(result => result.ruleId));
+}
+
+/**
+ * Rebuild the active regex rules from the built-ins and the loaded packs
+ * Later rules replace earlier ones with the same id, in place
+ */
+function rebuildGrammarRules(): void {
+  const rulesById = new Map<string, GrammarRule>();
+  for (const rule of BUILT_IN_GRAMMAR_RULES) {
+    rulesById.set(rule.id, rule);
+  }
+  for (const pack of grammarRulePacks.values()) {
+    pack.rules.forEach(rule => rulesById.set(rule.id, rule));
+  }
+
+  GRAMMAR_RULES.length = 0;
+  GRAMMAR_RULES.push(...rulesById.values());
+  invalidateResults();
+}
+
 /**
  * POS Tagging function that uses compromise.js for lightweight NLP processing
  * @param sentence - Raw sentence string to tag
@@ -584,29 +1270,16 @@ export function posTagger(sentence: string): Array<{ text: string; pos: string;
 
   try {
     const startTime = performance.now();
-    const doc = nlp(sentence);
-    const tokens = doc.json()[0]?.terms || [];
-    let currentOffset = 0;
-    
-    const result = tokens.map((token: any) => {
+    const result = tagTerms(sentence).map(term => {
       // Map compromise tags to expected test format
-      let pos = 'UNK';
-      if (token.tags && token.tags.length > 0) {
-        const compromiseTag = token.tags[0];
-        pos = POS_TAG_MAP[compromiseTag] || compromiseTag || 'UNK';
-      }
-      
-      // Calculate offsets for performance optimization
-      const tokenText = token.text;
-      const startOffset = sentence.indexOf(tokenText, currentOffset);
-      const endOffset = startOffset + tokenText.length;
-      currentOffset = endOffset;
+      const compromiseTag = term.tags.values().next().value;
+      const pos = compromiseTag ? POS_TAG_MAP[compromiseTag] || compromiseTag : 'UNK';
       
       return {
-        text: tokenText,
+        text: term.text,
         pos: pos,
-        start: startOffset,
-        end: endOffset
+        start: term.start,
+        end: term.end
       };
     });
     
@@ -862,6 +1535,9 @@ async function processCustomEntities(tokens: Array<{ text: string; pos: string;
  * Ultra-optimized for <10ms processing with minimal debounce for testing
  * @param input - The text input to analyze
  * @param callback - Function called with grammar check results
+ * @deprecated Every call is checked and answered on its own, so results can
+ * arrive out of order and cannot be cancelled; use createGrammarSession
+ * (grammarSession) for a debounced, cancellable per-document session
  */
 export function monitorRealTimeGrammar(input: string, callback: (results: CheckResult[]) => void): void {
   try {
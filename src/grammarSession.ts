@@ -0,0 +1,154 @@
+import { EventEmitter } from 'events';
+import { CheckResult, GrammarCheckOptions, InlineSuggestion, addProperNounResults, suggestInlineEnhancements } from './grammarEngine';
+import { StyleCheckOptions, Suggestion, suggestStyle } from './styleService';
+import { IncrementalChecker, TextEdit } from './incrementalChecker';
+import { logger } from './logger';
+
+/**
+ * Real-time checking session for one document
+ * Updates are debounced, each burst of typing is analysed once, and results are
+ * only published for the latest text: a check that finishes after newer input
+ * arrived is dropped. Grammar, style and inline enhancement results for a
+ * revision arrive together in a single 'results' event (GrammarSessionResults).
+ *
+ *   const session = createGrammarSession('note-1', { debounceMs: 100 });
+ *   session.on('results', results => render(results));
+ *   session.update(text);
+ *   ...
+ *   session.dispose();
+ */
+
+export interface GrammarSessionOptions {
+  // Quiet period after the last update before the text is analysed
+  debounceMs?: number;
+  grammar?: GrammarCheckOptions;
+  // Style options, or false to skip style suggestions
+  style?: StyleCheckOptions | false;
+  // Set to false to skip inline enhancements, the slowest of the three
+  inline?: boolean;
+}
+
+export interface GrammarSessionResults {
+  documentId: string;
+  // Increases with every update; results always belong to the latest one
+  revision: number;
+  text: string;
+  grammar: CheckResult[];
+  style: Suggestion[];
+  inline: InlineSuggestion[];
+}
+
+const DEFAULT_DEBOUNCE_MS = 150;
+
+export class GrammarSession extends EventEmitter {
+  readonly documentId: string;
+  private readonly options: GrammarSessionOptions;
+  private readonly debounceMs: number;
+  private readonly checker: IncrementalChecker;
+  private revision = 0;
+  private pending: { text: string; caret?: number } | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private disposed = false;
+
+  constructor(documentId: string, options: GrammarSessionOptions = {}) {
+    super();
+    this.documentId = documentId;
+    this.options = { ...options };
+    this.debounceMs = Math.max(0, options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+    this.checker = new IncrementalChecker(options.grammar);
+  }
+
+  /**
+   * Queue the document's new text for analysis; supersedes any check still waiting or running
+   * @param text - The full text of the document
+   * @param caret - Caret position in the text, if known
+   */
+  update(text: string, caret?: number): void {
+    if (this.disposed) {
+      return;
+    }
+
+    this.revision++;
+    this.pending = { text: typeof text === 'string' ? text : '', caret };
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => void this.flush(), this.debounceMs);
+  }
+
+  /**
+   * Queue an edit reported by the text-change hooks
+   */
+  applyEdit(edit: TextEdit): void {
+    this.update(edit.newText, edit.selectionEnd);
+  }
+
+  /**
+   * Analyse the queued text now instead of waiting for the debounce
+   * @returns Resolves once the results are published, or dropped as stale
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.disposed || !this.pending) {
+      return;
+    }
+
+    const { text, caret } = this.pending;
+    const revision = this.revision;
+    this.pending = null;
+
+    try {
+      const grammar = await addProperNounResults(text, this.checker.update(text, caret), this.options.grammar);
+      const style = this.options.style === false
+        ? []
+        : suggestStyle(text, { locale: this.options.grammar?.locale, ...this.options.style });
+      const inline = this.options.inline === false ? [] : await suggestInlineEnhancements(text);
+
+      if (this.disposed || revision !== this.revision) {
+        return;
+      }
+      const results: GrammarSessionResults = { documentId: this.documentId, revision, text, grammar, style, inline };
+      this.emit('results', results);
+    } catch (error) {
+      logger.error(`Failed to analyze document ${this.documentId}`, 'GrammarSession', error as Error);
+    }
+  }
+
+  /**
+   * Whether dispose has been called
+   */
+  isDisposed(): boolean {
+    return this.disposed;
+  }
+
+  /**
+   * Cancel pending work, drop the document model and remove all listeners
+   * Checks already running finish, but their results are never delivered
+   */
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+
+    this.disposed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = null;
+    this.checker.reset();
+    this.removeAllListeners();
+  }
+}
+
+/**
+ * Start a real-time checking session for a document
+ * @param documentId - Caller's id for the document, echoed in every result
+ * @param options - Debounce and per-engine options
+ */
+export function createGrammarSession(documentId: string, options: GrammarSessionOptions = {}): GrammarSession {
+  return new GrammarSession(documentId, options);
+}
@@ -0,0 +1,250 @@
+import {
+  CheckResult,
+  GrammarCheckOptions,
+  checkDocumentRules,
+  checkParagraphRules,
+  checkSentenceRules,
+  getGrammarResultsVersion
+} from './grammarEngine';
+import { SentenceSpan, segmentParagraph, segmentParagraphs } from './sentenceSegmenter';
+import { LineIndex, createLineIndex, offsetToPosition } from './textPositions';
+import { applySuppressions, parseSuppressions } from './suppression';
+
+/**
+ * Incremental grammar checking for a document that is edited keystroke by keystroke
+ * The checker keeps the document's paragraphs and sentences with the results
+ * found in each. After an edit only the paragraphs around the changed range are
+ * re-segmented, only sentences whose text changed are checked again, and the
+ * results of everything else are moved by the edit's length. Rules that need the
+ * whole document (variant consistency, delimiter balance) are cheap and rerun
+ * on every update.
+ */
+
+export interface TextEdit {
+  oldText: string;
+  newText: string;
+  // Selection in newText after the edit; the caret disambiguates edits such as "helo" -> "hello"
+  selectionStart?: number;
+  selectionEnd?: number;
+}
+
+// Changed range: [start, oldEnd) of the old text became [start, newEnd) of the new one
+interface TextChange {
+  start: number;
+  oldEnd: number;
+  newEnd: number;
+}
+
+interface SentenceEntry {
+  span: SentenceSpan;
+  results: CheckResult[];
+}
+
+interface ParagraphEntry {
+  span: SentenceSpan;
+  sentences: SentenceEntry[];
+  // Paragraph-level (tense) results
+  results: CheckResult[];
+}
+
+/**
+ * Find the range an edit changed, from the common prefix and suffix of the two texts
+ * @param caret - Caret in the new text, if known; the change is placed to end there when the texts allow it
+ */
+function findChange(oldText: string, newText: string, caret?: number): TextChange {
+  const shorter = Math.min(oldText.length, newText.length);
+  let start = 0;
+  while (start < shorter && oldText.charCodeAt(start) === newText.charCodeAt(start)) {
+    start++;
+  }
+
+  // Typing ends at the caret and deleting leaves it where the text was removed
+  if (caret !== undefined && Number.isInteger(caret) && caret >= 0 && caret <= newText.length) {
+    start = Math.min(start, Math.max(0, caret - Math.max(0, newText.length - oldText.length)));
+  }
+
+  let suffix = 0;
+  while (suffix < shorter - start
+    && oldText.charCodeAt(oldText.length - 1 - suffix) === newText.charCodeAt(newText.length - 1 - suffix)) {
+    suffix++;
+  }
+
+  return { start, oldEnd: oldText.length - suffix, newEnd: newText.length - suffix };
+}
+
+function shiftResult(result: CheckResult, delta: number): CheckResult {
+  return delta === 0 ? result : { ...result, start: result.start + delta, end: result.end + delta };
+}
+
+function shiftSpan(span: SentenceSpan, delta: number): SentenceSpan {
+  return delta === 0 ? span : { text: span.text, start: span.start + delta, end: span.end + delta };
+}
+
+export class IncrementalChecker {
+  private readonly options: GrammarCheckOptions;
+  private text = '';
+  private paragraphs: ParagraphEntry[] = [];
+  private results: CheckResult[] = [];
+  private resultsVersion = -1;
+
+  /**
+   * @param options - Rule filter, locale, comma style and suppression options used for every check
+   */
+  constructor(options: GrammarCheckOptions = {}) {
+    this.options = { ...options };
+  }
+
+  /**
+   * Text the current results belong to
+   */
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * Results for the current text, in text order, with suppressed results removed
+   */
+  getResults(): CheckResult[] {
+    return [...this.results];
+  }
+
+  /**
+   * Apply an edit reported by the text-change hooks
+   * When the edit's old text is not the text the checker holds (a missed event),
+   * the new text is diffed against the held text instead and the caret is ignored
+   * @returns Results for the edited text
+   */
+  applyEdit(edit: TextEdit): CheckResult[] {
+    const caret = edit.oldText === this.text ? edit.selectionEnd : undefined;
+    return this.update(edit.newText, caret);
+  }
+
+  /**
+   * Replace the document text, rechecking only what changed since the last update
+   * @param text - The full new text
+   * @param caret - Caret position in the new text, if known
+   * @returns Results for the new text
+   */
+  update(text: string, caret?: number): CheckResult[] {
+    const newText = typeof text === 'string' ? text : '';
+
+    // Rules, filter or custom words changed since the stored results were computed
+    if (this.resultsVersion !== getGrammarResultsVersion()) {
+      this.paragraphs = [];
+      this.text = '';
+      this.resultsVersion = getGrammarResultsVersion();
+    }
+
+    if (newText === this.text && this.paragraphs.length > 0) {
+      return this.getResults();
+    }
+
+    const lineIndex = createLineIndex(newText);
+    this.paragraphs = this.paragraphs.length === 0
+      ? this.checkRegion(newText, 0, newText.length, lineIndex, [])
+      : this.reconcile(newText, findChange(this.text, newText, caret), lineIndex);
+    this.text = newText;
+    this.results = this.collectResults(lineIndex);
+    return this.getResults();
+  }
+
+  /**
+   * Drop the document model; the next update checks the text from scratch
+   */
+  reset(): void {
+    this.text = '';
+    this.paragraphs = [];
+    this.results = [];
+  }
+
+  /**
+   * Rebuild the paragraphs touched by a change and move the ones after it
+   */
+  private reconcile(newText: string, change: TextChange, lineIndex: LineIndex): ParagraphEntry[] {
+    const delta = change.newEnd - change.oldEnd;
+
+    // The paragraph containing or preceding the change, through the one containing or
+    // following its end: merging or splitting paragraphs never reaches further
+    let first = -1;
+    for (let i = 0; i < this.paragraphs.length && this.paragraphs[i].span.start <= change.start; i++) {
+      first = i;
+    }
+    let last = this.paragraphs.findIndex(paragraph => paragraph.span.end >= change.oldEnd);
+    if (last === -1) last = this.paragraphs.length;
+
+    const regionStart = first === -1 ? 0 : this.paragraphs[first].span.start;
+    const regionEnd = last === this.paragraphs.length ? newText.length : this.paragraphs[last].span.end + delta;
+    const dirty = this.paragraphs.slice(Math.max(first, 0), last + 1);
+
+    const before = this.paragraphs.slice(0, Math.max(first, 0));
+    const after = this.paragraphs.slice(last + 1).map(paragraph => ({
+      span: shiftSpan(paragraph.span, delta),
+      sentences: paragraph.sentences.map(sentence => ({
+        span: shiftSpan(sentence.span, delta),
+        results: sentence.results.map(result => shiftResult(result, delta))
+      })),
+      results: paragraph.results.map(result => shiftResult(result, delta))
+    }));
+
+    return [...before, ...this.checkRegion(newText, regionStart, regionEnd, lineIndex, dirty), ...after];
+  }
+
+  /**
+   * Segment and check [start, end) of the text, reusing results of unchanged
+   * paragraphs and sentences from `previous`
+   */
+  private checkRegion(text: string, start: number, end: number, lineIndex: LineIndex, previous: ParagraphEntry[]): ParagraphEntry[] {
+    const oldParagraphs = new Map<string, ParagraphEntry[]>();
+    const oldSentences = new Map<string, SentenceEntry[]>();
+    for (const paragraph of previous) {
+      oldParagraphs.set(paragraph.span.text, [...(oldParagraphs.get(paragraph.span.text) || []), paragraph]);
+      for (const sentence of paragraph.sentences) {
+        oldSentences.set(sentence.span.text, [...(oldSentences.get(sentence.span.text) || []), sentence]);
+      }
+    }
+
+    return segmentParagraphs(text.slice(start, end)).map(region => {
+      const span = shiftSpan(region, start);
+      const sentences = segmentParagraph(span).map(sentence => {
+        const reused = oldSentences.get(sentence.text)?.shift();
+        const results = reused
+          ? reused.results.map(result => shiftResult(result, sentence.start - reused.span.start))
+          : checkSentenceRules(sentence, lineIndex, this.options);
+        return { span: sentence, results };
+      });
+
+      const reused = oldParagraphs.get(span.text)?.shift();
+      const results = reused
+        ? reused.results.map(result => shiftResult(result, span.start - reused.span.start))
+        : checkParagraphRules(span, lineIndex, this.options);
+      return { span, sentences, results };
+    });
+  }
+
+  /**
+   * Gather every result, add the document-level ones, refresh line and column
+   * numbers and apply suppressions
+   */
+  private collectResults(lineIndex: LineIndex): CheckResult[] {
+    if (this.text.trim().length === 0) {
+      return [];
+    }
+
+    const results: CheckResult[] = [];
+    for (const paragraph of this.paragraphs) {
+      paragraph.sentences.forEach(sentence => results.push(...sentence.results));
+      results.push(...paragraph.results);
+    }
+
+    const positioned = results.map(result => {
+      const position = offsetToPosition(lineIndex, result.start);
+      return position.line === result.line && position.column === result.column
+        ? result
+        : { ...result, line: position.line, column: position.column };
+    });
+    positioned.push(...checkDocumentRules(this.text, lineIndex, this.options));
+    positioned.sort((a, b) => a.start - b.start);
+
+    return applySuppressions(positioned, 'grammar', parseSuppressions(this.text, this.options)).results;
+  }
+}
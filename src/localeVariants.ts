@@ -0,0 +1,229 @@
+/**
+ * English locale variants (US, UK, Canadian, Australian) and the spellings that tell them apart
+ * Each variant word belongs to a convention ("-our", "-ize", "-re", ...) and every
+ * locale prefers either the American or the British form of each convention
+ */
+
+export type EnglishLocale = 'en-US' | 'en-GB' | 'en-CA' | 'en-AU';
+
+export const ENGLISH_LOCALES: EnglishLocale[] = ['en-US', 'en-GB', 'en-CA', 'en-AU'];
+
+export const DEFAULT_LOCALE: EnglishLocale = 'en-US';
+
+export interface LocaleOptions {
+  // English variant to check against (default en-US). When omitted, mixed
+  // variants are still reported against the variant the document mostly uses
+  locale?: EnglishLocale;
+  // Oxford spelling: prefer -ize over -ise in en-GB and en-AU
+  preferIze?: boolean;
+}
+
+export type SpellingVariant = 'american' | 'british';
+
+export type VariantConvention =
+  | 'our'           // color / colour
+  | 'ize'           // organize / organise
+  | 'yze'           // analyze / analyse
+  | 're'            // center / centre
+  | 'double-l'      // traveled / travelled
+  | 'ence'          // defense / defence
+  | 'ogue'          // catalog / catalogue
+  | 'british-words' // gray / grey: Canada follows British usage
+  | 'american-words'; // aluminum / aluminium: Canada follows American usage
+
+export interface VariantPair {
+  american: string;
+  british: string;
+  convention: VariantConvention;
+}
+
+export interface VariantSpelling {
+  word: string;
+  // Offsets into the scanned text (end is exclusive)
+  start: number;
+  end: number;
+  variant: SpellingVariant;
+  pair: VariantPair;
+}
+
+const LOCALE_PREFERENCES: Record<EnglishLocale, Record<VariantConvention, SpellingVariant>> = {
+  'en-US': {
+    'our': 'american', 'ize': 'american', 'yze': 'american', 're': 'american', 'double-l': 'american',
+    'ence': 'american', 'ogue': 'american', 'british-words': 'american', 'american-words': 'american'
+  },
+  'en-GB': {
+    'our': 'british', 'ize': 'british', 'yze': 'british', 're': 'british', 'double-l': 'british',
+    'ence': 'british', 'ogue': 'british', 'british-words': 'british', 'american-words': 'british'
+  },
+  'en-CA': {
+    'our': 'british', 'ize': 'american', 'yze': 'american', 're': 'british', 'double-l': 'british',
+    'ence': 'british', 'ogue': 'british', 'british-words': 'british', 'american-words': 'american'
+  },
+  'en-AU': {
+    'our': 'british', 'ize': 'british', 'yze': 'british', 're': 'british', 'double-l': 'british',
+    'ence': 'british', 'ogue': 'british', 'british-words': 'british', 'american-words': 'british'
+  }
+};
+
+// Stems whose American and British forms differ only in the convention's letters
+const OUR_STEMS = [
+  'arm', 'behavi', 'cand', 'clam', 'col', 'endeav', 'fav', 'flav', 'harb', 'hon', 'hum', 'lab',
+  'neighb', 'od', 'parl', 'ranc', 'rum', 'sav', 'splend', 'tum', 'val', 'vap', 'vig'
+];
+const OUR_ENDINGS = ['', 's', 'ed', 'ing', 'ful', 'less', 'ite', 'ites', 'able', 'ably', 'er', 'ers', 'hood', 'hoods', 'ly', 'al', 'y'];
+
+const IZE_STEMS = [
+  'apolog', 'author', 'capital', 'categor', 'central', 'character', 'civil', 'critic', 'custom',
+  'emphas', 'familiar', 'final', 'general', 'global', 'harmon', 'ideal', 'initial', 'item',
+  'legal', 'local', 'maxim', 'memor', 'minim', 'mobil', 'modern', 'normal', 'optim', 'organ',
+  'personal', 'priorit', 'real', 'recogn', 'serial', 'special', 'stabil', 'standard', 'summar',
+  'symbol', 'sympath', 'synchron', 'util', 'visual'
+];
+const IZE_ENDINGS = ['e', 'es', 'ed', 'ing', 'ation', 'ations', 'er', 'ers'];
+
+const YZE_STEMS = ['anal', 'breathal', 'catal', 'paral'];
+const YZE_ENDINGS = ['e', 'es', 'ed', 'ing', 'er', 'ers'];
+
+const DOUBLE_L_STEMS = [
+  'cancel', 'channel', 'counsel', 'dial', 'duel', 'equal', 'fuel', 'grovel', 'jewel', 'label',
+  'level', 'libel', 'marvel', 'model', 'panel', 'pedal', 'quarrel', 'revel', 'rival', 'shovel',
+  'signal', 'total', 'travel', 'tunnel'
+];
+const DOUBLE_L_ENDINGS = ['ed', 'ing', 'er', 'ers', 'or', 'ors'];
+
+// Irregular pairs listed form by form: [American, British]
+const WORD_PAIRS: Array<[VariantConvention, Array<[string, string]>]> = [
+  ['re', [
+    ['center', 'centre'], ['centers', 'centres'], ['centered', 'centred'], ['centering', 'centring'],
+    ['theater', 'theatre'], ['theaters', 'theatres'], ['liter', 'litre'], ['liters', 'litres'],
+    ['fiber', 'fibre'], ['fibers', 'fibres'], ['caliber', 'calibre'], ['somber', 'sombre'],
+    ['luster', 'lustre'], ['specter', 'spectre'], ['meager', 'meagre'], ['saber', 'sabre']
+  ]],
+  ['ence', [
+    ['defense', 'defence'], ['defenses', 'defences'], ['defenseless', 'defenceless'],
+    ['offense', 'offence'], ['offenses', 'offences'], ['pretense', 'pretence'], ['pretenses', 'pretences']
+  ]],
+  ['ogue', [
+    ['catalog', 'catalogue'], ['catalogs', 'catalogues'], ['cataloged', 'catalogued'],
+    ['analog', 'analogue'], ['analogs', 'analogues'], ['monolog', 'monologue'],
+    ['epilog', 'epilogue'], ['prolog', 'prologue']
+  ]],
+  ['british-words', [
+    ['gray', 'grey'], ['grays', 'greys'], ['grayish', 'greyish'], ['jewelry', 'jewellery'],
+    ['pajamas', 'pyjamas'], ['maneuver', 'manoeuvre'], ['maneuvers', 'manoeuvres'],
+    ['maneuvered', 'manoeuvred'], ['maneuvering', 'manoeuvring'], ['mold', 'mould'], ['molds', 'moulds'],
+    ['moldy', 'mouldy'], ['mustache', 'moustache'], ['cozy', 'cosy'], ['plow', 'plough'],
+    ['plows', 'ploughs'], ['donut', 'doughnut'], ['donuts', 'doughnuts']
+  ]],
+  ['american-words', [
+    ['aluminum', 'aluminium'], ['skeptic', 'sceptic'], ['skeptics', 'sceptics'], ['skeptical', 'sceptical'],
+    ['skepticism', 'scepticism'], ['judgment', 'judgement'], ['judgments', 'judgements'],
+    ['acknowledgment', 'acknowledgement'], ['aging', 'ageing'], ['airplane', 'aeroplane'],
+    ['airplanes', 'aeroplanes'], ['fulfill', 'fulfil'], ['fulfills', 'fulfils'], ['fulfillment', 'fulfilment'],
+    ['enrollment', 'enrolment'], ['installment', 'instalment'], ['skillful', 'skilful'], ['willful', 'wilful'],
+    ['artifact', 'artefact'], ['artifacts', 'artefacts'], ['pediatric', 'paediatric'],
+    ['encyclopedia', 'encyclopaedia']
+  ]]
+];
+
+/**
+ * Build the lookup from every lower-case variant form to its pair
+ */
+function buildVariantIndex(): Map<string, { pair: VariantPair; variant: SpellingVariant }> {
+  const index = new Map<string, { pair: VariantPair; variant: SpellingVariant }>();
+  const add = (american: string, british: string, convention: VariantConvention) => {
+    const pair = { american, british, convention };
+    index.set(american, { pair, variant: 'american' });
+    index.set(british, { pair, variant: 'british' });
+  };
+
+  for (const stem of OUR_STEMS) {
+    OUR_ENDINGS.forEach(ending => add(`${stem}or${ending}`, `${stem}our${ending}`, 'our'));
+  }
+  for (const stem of IZE_STEMS) {
+    IZE_ENDINGS.forEach(ending => add(`${stem}iz${ending}`, `${stem}is${ending}`, 'ize'));
+  }
+  for (const stem of YZE_STEMS) {
+    YZE_ENDINGS.forEach(ending => add(`${stem}yz${ending}`, `${stem}ys${ending}`, 'yze'));
+  }
+  for (const stem of DOUBLE_L_STEMS) {
+    DOUBLE_L_ENDINGS.forEach(ending => add(`${stem}${ending}`, `${stem}l${ending}`, 'double-l'));
+  }
+  for (const [convention, pairs] of WORD_PAIRS) {
+    pairs.forEach(([american, british]) => add(american, british, convention));
+  }
+
+  return index;
+}
+
+const VARIANT_INDEX = buildVariantIndex();
+
+/**
+ * Whether a word is the American or British form of a known variant pair
+ * @param word - Word in any casing
+ */
+export function lookupVariant(word: string): { pair: VariantPair; variant: SpellingVariant } | undefined {
+  return VARIANT_INDEX.get(word.toLowerCase());
+}
+
+/**
+ * The form of a convention a locale prefers
+ */
+export function preferredVariant(
+  convention: VariantConvention,
+  locale: EnglishLocale,
+  options: LocaleOptions = {}
+): SpellingVariant {
+  if (convention === 'ize' && options.preferIze) {
+    return 'american';
+  }
+  return LOCALE_PREFERENCES[locale][convention];
+}
+
+/**
+ * Find every variant-specific spelling in text
+ * @param text - Text to scan
+ * @returns Variant spellings in text order
+ */
+export function findVariantSpellings(text: string): VariantSpelling[] {
+  const spellings: VariantSpelling[] = [];
+  const wordPattern = /[A-Za-z]+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = wordPattern.exec(text)) !== null) {
+    const entry = lookupVariant(match[0]);
+    if (entry) {
+      spellings.push({
+        word: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+        variant: entry.variant,
+        pair: entry.pair
+      });
+    }
+  }
+
+  return spellings;
+}
+
+/**
+ * Guess the locale a document is written in from its variant spellings
+ * Ties go to the earlier locale in ENGLISH_LOCALES, so plain text stays en-US
+ * @param spellings - Result of findVariantSpellings for the document
+ */
+export function inferLocale(spellings: VariantSpelling[], options: LocaleOptions = {}): EnglishLocale {
+  let best = DEFAULT_LOCALE;
+  let bestScore = -1;
+
+  for (const locale of ENGLISH_LOCALES) {
+    const score = spellings.filter(spelling =>
+      preferredVariant(spelling.pair.convention, locale, options) === spelling.variant
+    ).length;
+    if (score > bestScore) {
+      best = locale;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
@@ -7,9 +7,13 @@ import { app, BrowserWindow, Menu, shell, dialog } from 'electron';
 import * as path from 'path';
 import { autoUpdater } from 'electron-updater';
 import { OverlayService, createOverlayService } from './overlayService';
-import { checkGrammar } from './grammarEngine';
+import { CheckResult, addProperNounResults, checkGrammar, sortResultsBySeverity, setDictionaryStore } from './grammarEngine';
+import { loadSpellDictionary } from './spellChecker';
 import { DictionaryStore } from './dictionaryStore';
 import { SettingsService } from './settingsService';
+import { RulePackWatcher } from './rulePackWatcher';
+import { AnalysisPool, createAnalysisPool, isAnalysisCancelled } from './analysisPool';
+import { logger } from './logger';
 
 class OpenGrammerApp {
   private overlayService: OverlayService;
@@ -17,18 +21,63 @@ class OpenGrammerApp {
   private settingsWindow?: BrowserWindow;
   private dictionaryStore: DictionaryStore;
   private settingsService: SettingsService;
+  private rulePackWatcher: RulePackWatcher;
+  // Grammar checks run on worker threads so large pastes never block menus and overlays
+  private analysisPool: AnalysisPool;
 
   constructor() {
     // Initialize dictionary store
     const dictionaryPath = path.join(app.getPath('userData'), 'custom-dictionary.enc');
     this.dictionaryStore = new DictionaryStore(dictionaryPath, 'opengrammer-secret-key');
+    setDictionaryStore(this.dictionaryStore);
     
     // Initialize settings service
     this.settingsService = new SettingsService(this.dictionaryStore);
+
+    this.analysisPool = createAnalysisPool({ dictionaryStore: this.dictionaryStore });
     
     // Initialize overlay service with custom configuration
     this.overlayService = createOverlayService();
     this.setupOverlayService();
+
+    // House rule packs in ~/.opengrammer/rules reload as they are edited
+    this.rulePackWatcher = new RulePackWatcher();
+    this.setupRulePackWatcher();
+  }
+
+  /**
+   * Forward rule pack reloads to the windows so the settings UI can refresh its rule list
+   */
+  private setupRulePackWatcher(): void {
+    this.rulePackWatcher.on('rules-reloaded', (event) => {
+      if (event.status === 'failed') {
+        logger.error(`Rule pack ${event.file} was rejected: ${event.error}`, 'RulePackWatcher');
+      } else {
+        logger.info(`Rule pack ${event.pack?.id || event.file} ${event.status}`, 'RulePackWatcher');
+      }
+
+      for (const window of [this.mainWindow, this.settingsWindow]) {
+        window?.webContents.send('rules:reloaded', event);
+      }
+    });
+  }
+
+  /**
+   * Check captured text on the analysis pool; each element is checked incrementally by its worker
+   * The locale and comma style come from the writing preferences. Falls back to
+   * checking in-process if the pool fails, and returns nothing for superseded text
+   */
+  private async checkCapturedText(elementId: string | undefined, text: string): Promise<CheckResult[]> {
+    const options = this.settingsService.getGrammarOptions();
+    try {
+      return await this.analysisPool.run({ kind: 'grammar', text, options }, { documentId: elementId, priority: 'high' });
+    } catch (error) {
+      if (isAnalysisCancelled(error)) {
+        return [];
+      }
+      console.error('Analysis pool check failed, checking in-process:', error);
+      return addProperNounResults(text, checkGrammar(text, options), options);
+    }
   }
 
   /**
@@ -37,13 +86,16 @@ class OpenGrammerApp {
   private setupOverlayService(): void {
     // Register grammar checking handler
     this.overlayService.registerHandler({
-      onTextCapture: (event) => {
-        const grammarIssues = checkGrammar(event.text);
+      onTextCapture: async (event) => {
+        // Most important issues first so the overlay lists errors before warnings
+        const grammarIssues = sortResultsBySeverity(await this.checkCapturedText(event.elementId, event.text));
         
         const suggestions = grammarIssues.map(issue => ({
           type: issue.type,
           message: issue.message,
-          position: { x: event.position.x + (issue.column * 8), y: event.position.y },
+          position: event.position,
+          range: { start: issue.start, end: issue.end },
+          severity: issue.severity,
           suggestion: issue.suggestion || undefined,
           action: 'replace' as const
         }));
@@ -52,6 +104,11 @@ class OpenGrammerApp {
       },
       
       onFocusChange: (event) => {
+        if (event.type === 'focus') {
+          this.analysisPool.setFocusedDocument(event.elementId || null);
+        } else if (event.type === 'blur' && event.elementId) {
+          this.analysisPool.releaseDocument(event.elementId);
+        }
         console.log(`Focus changed: ${event.type} in ${event.applicationName || 'unknown app'}`);
       }
     });
@@ -84,6 +141,14 @@ class OpenGrammerApp {
       // Initialize dictionary store
       await this.dictionaryStore.initialize();
       console.log('Dictionary store initialized successfully');
+
+      // Load the spelling word list up front rather than on the first check
+      loadSpellDictionary();
+
+      this.rulePackWatcher.start();
+
+      // Workers start after the rule packs so they receive them with their first request
+      await this.analysisPool.start();
       
       // Start the overlay service for system-wide monitoring
       await this.overlayService.start();
@@ -296,6 +361,9 @@ class OpenGrammerApp {
       
       this.settingsService.dispose();
       console.log('Settings service disposed cleanly');
+
+      this.rulePackWatcher.stop();
+      await this.analysisPool.stop();
     } catch (error) {
       console.error('Error stopping services:', error);
     }
@@ -0,0 +1,439 @@
+import { CheckResult, checkGrammar } from './grammarEngine';
+import { Suggestion, suggestStyle } from './styleService';
+import { RuleFilter } from './ruleFilter';
+import { SuppressionOptions, SuppressionReport, parseSuppressions, applySuppressions } from './suppression';
+import { createLineIndex, offsetToPosition, LineIndex } from './textPositions';
+import { LocaleOptions, findVariantSpellings, inferLocale } from './localeVariants';
+import type { CommaOptions } from './commaChecker';
+
+/**
+ * Markdown front-end for the grammar and style engines
+ * Extracts prose from a Markdown document, checks it block by block and maps
+ * every result back to offsets, lines and columns of the original source.
+ * Code (fenced, indented and inline), URLs, link targets, HTML and table
+ * syntax are never sent to the engines.
+ */
+
+export type ProseBlockKind = 'paragraph' | 'heading' | 'list-item' | 'blockquote' | 'table-cell';
+
+export interface ProseBlock {
+  kind: ProseBlockKind;
+  text: string;
+  // Source offsets of each character of `text`: [starts[i], ends[i])
+  starts: number[];
+  ends: number[];
+}
+
+export interface MarkdownCheckOptions extends SuppressionOptions, LocaleOptions, CommaOptions {
+  // Rule filter applied to both engines, on top of the per-block treatment
+  rules?: RuleFilter;
+}
+
+export interface MarkdownCheckResult {
+  grammar: SuppressionReport<CheckResult>;
+  style: SuppressionReport<Suggestion>;
+}
+
+// Stands in for inline code, URLs and images so surrounding prose keeps its spacing
+export const PLACEHOLDER = '\uFFFC';
+
+// Rules that do not apply to a block kind: headings, list items and cells are rarely
+// full sentences, and often start with a lower-case identifier or value
+const BLOCK_RULE_EXCLUSIONS: Record<ProseBlockKind, string[]> = {
+  'paragraph': [],
+  'blockquote': [],
+  'heading': ['missing-period', 'sentence-length', 'sentence-capital'],
+  'list-item': ['missing-period', 'sentence-capital'],
+  'table-cell': ['missing-period', 'sentence-length', 'sentence-capital']
+};
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const ATX_HEADING_PATTERN = /^( {0,3}#{1,6})(?:[ \t]+|$)/;
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const LIST_ITEM_PATTERN = /^([ \t]*)([-*+]|\d{1,9}[.)])([ \t]+(?:\[[ xX]\][ \t]+)?|$)/;
+const BLOCKQUOTE_PATTERN = /^( {0,3}>[ \t]?)+/;
+const TABLE_DELIMITER_PATTERN = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const LINK_DEFINITION_PATTERN = /^ {0,3}\[[^\]]+\]:\s*\S+/;
+const HTML_BLOCK_PATTERN = /^ {0,3}<(?:!--|\/?[A-Za-z][\w-]*(?:[\s>/]|$))/;
+
+// Inline constructs, in priority order; see appendInline for how each group is treated
+const INLINE_PATTERN = new RegExp([
+  '(`+)(?!`).+?(?<!`)\\1(?!`)',                    // 1: code span
+  '!\\[[^\\]]*\\]\\([^)]*\\)',                       // image
+  '<(?:https?:\\/\\/|mailto:)[^>\\s]+>',             // autolink
+  '(<!--.*?-->|<\\/?[A-Za-z][^>]*>)',                // 2: inline HTML
+  '\\[([^\\]]*)\\](?:\\([^)]*\\)|\\[[^\\]]*\\])',    // 3: link text
+  '(?:https?:\\/\\/|www\\.)[^\\s<>()]*[^\\s<>().,;:!?\'"]', // bare URL
+  '\\\\([!-\\/:-@\\[-`{-~])',                        // 4: backslash escape
+  '((?<!\\w)[*_~]+(?=\\S)|(?<=\\S)[*_~]+(?!\\w))'    // 5: emphasis markers
+].join('|'), 'g');
+
+/**
+ * Accumulates block text together with its mapping back to the source
+ */
+class ProseBuilder {
+  text = '';
+  starts: number[] = [];
+  ends: number[] = [];
+
+  append(content: string, sourceOffset: number): void {
+    for (let i = 0; i < content.length; i++) {
+      this.text += content[i];
+      this.starts.push(sourceOffset + i);
+      this.ends.push(sourceOffset + i + 1);
+    }
+  }
+
+  appendPlaceholder(sourceStart: number, sourceEnd: number): void {
+    this.text += PLACEHOLDER;
+    this.starts.push(sourceStart);
+    this.ends.push(sourceEnd);
+  }
+}
+
+/**
+ * Append one line of block content, stripping inline Markdown syntax
+ */
+function appendInline(builder: ProseBuilder, content: string, sourceOffset: number): void {
+  INLINE_PATTERN.lastIndex = 0;
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = INLINE_PATTERN.exec(content)) !== null) {
+    builder.append(content.slice(cursor, match.index), sourceOffset + cursor);
+    const matchStart = sourceOffset + match.index;
+    const matchEnd = matchStart + match[0].length;
+
+    if (match[3] !== undefined) {
+      // Link: keep the visible text, drop brackets and target
+      appendInline(builder, match[3], matchStart + 1);
+      INLINE_PATTERN.lastIndex = match.index + match[0].length;
+    } else if (match[4] !== undefined) {
+      builder.append(match[4], matchStart + 1);
+    } else if (match[2] === undefined && match[5] === undefined) {
+      // Code spans, images, autolinks and URLs
+      builder.appendPlaceholder(matchStart, matchEnd);
+    }
+    // Inline HTML and emphasis markers are dropped entirely
+
+    cursor = match.index + match[0].length;
+  }
+
+  builder.append(content.slice(cursor), sourceOffset + cursor);
+}
+
+interface OpenBlock {
+  kind: ProseBlockKind;
+  builder: ProseBuilder;
+}
+
+interface SourceLine {
+  text: string;
+  offset: number;
+}
+
+function splitLines(source: string): SourceLine[] {
+  const lines: SourceLine[] = [];
+  let offset = 0;
+  for (const text of source.split('\n')) {
+    lines.push({ text, offset });
+    offset += text.length + 1;
+  }
+  return lines;
+}
+
+function splitTableCells(line: SourceLine): SourceLine[] {
+  const cells: SourceLine[] = [];
+  const pattern = /(?:\\\||[^|])+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line.text)) !== null) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    if (trimmed.length > 0) {
+      cells.push({ text: trimmed, offset: line.offset + match.index + leading });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Split a Markdown document into prose blocks, skipping code, HTML, tables syntax and front matter
+ * @param source - Markdown source
+ * @returns Prose blocks with per-character source mappings
+ */
+export function extractProse(source: string): ProseBlock[] {
+  const blocks: ProseBlock[] = [];
+  const lines = splitLines(source);
+  let current = null as OpenBlock | null;
+  let previousBlank = true;
+  let inListItem = false;
+
+  const closeBlock = () => {
+    if (current && current.builder.text.trim().length > 0) {
+      blocks.push({
+        kind: current.kind,
+        text: current.builder.text,
+        starts: current.builder.starts,
+        ends: current.builder.ends
+      });
+    }
+    current = null;
+  };
+
+  const addContent = (kind: ProseBlockKind, content: string, offset: number, startNew: boolean) => {
+    const leading = content.length - content.trimStart().length;
+    if (startNew || !current) {
+      closeBlock();
+      current = { kind, builder: new ProseBuilder() };
+    } else {
+      // Continuation line: keep the newline so the engines see the original line structure
+      current.builder.append('\n', offset - 1);
+    }
+    appendInline(current.builder, content.slice(leading).trimEnd(), offset + leading);
+  };
+
+  let i = 0;
+
+  // YAML front matter
+  if (lines[0] && lines[0].text.trim() === '---') {
+    const closing = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line.text));
+    if (closing !== -1) {
+      i = closing + 1;
+    }
+  }
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    const text = line.text;
+
+    if (text.trim().length === 0) {
+      closeBlock();
+      previousBlank = true;
+      continue;
+    }
+
+    // Fenced code block: skip through the closing fence
+    const fence = FENCE_PATTERN.exec(text);
+    if (fence) {
+      closeBlock();
+      const marker = fence[1];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`).test(lines[i].text)) {
+        i++;
+      }
+      previousBlank = false;
+      continue;
+    }
+
+    // Indented code block
+    if (previousBlank && !inListItem && /^( {4}|\t)/.test(text)) {
+      closeBlock();
+      continue;
+    }
+
+    // HTML block (including directive comments): skip to the next blank line or comment end
+    if (!current && HTML_BLOCK_PATTERN.test(text)) {
+      const isComment = /^ {0,3}<!--/.test(text);
+      while (i < lines.length - 1 && lines[i + 1].text.trim().length > 0 &&
+             !(isComment && lines[i].text.includes('-->'))) {
+        i++;
+      }
+      previousBlank = false;
+      continue;
+    }
+
+    if (LINK_DEFINITION_PATTERN.test(text)) {
+      closeBlock();
+      previousBlank = false;
+      continue;
+    }
+
+    // Setext heading underline turns the open paragraph into a heading
+    if (current && current.kind === 'paragraph' && SETEXT_UNDERLINE_PATTERN.test(text)) {
+      current.kind = 'heading';
+      closeBlock();
+      previousBlank = false;
+      continue;
+    }
+
+    if (THEMATIC_BREAK_PATTERN.test(text)) {
+      closeBlock();
+      inListItem = false;
+      previousBlank = false;
+      continue;
+    }
+
+    const heading = ATX_HEADING_PATTERN.exec(text);
+    if (heading) {
+      // Drop an optional closing sequence of #s
+      const content = text.slice(heading[0].length).replace(/[ \t]+#+[ \t]*$/, '');
+      addContent('heading', content, line.offset + heading[0].length, true);
+      closeBlock();
+      inListItem = false;
+      previousBlank = false;
+      continue;
+    }
+
+    // Table: a header row followed by a delimiter row
+    if (text.includes('|') && i + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[i + 1].text)) {
+      closeBlock();
+      for (const cell of splitTableCells(line)) {
+        addContent('table-cell', cell.text, cell.offset, true);
+      }
+      i += 2;
+      while (i < lines.length && lines[i].text.includes('|') && lines[i].text.trim().length > 0) {
+        for (const cell of splitTableCells(lines[i])) {
+          addContent('table-cell', cell.text, cell.offset, true);
+        }
+        i++;
+      }
+      closeBlock();
+      i--;
+      previousBlank = false;
+      continue;
+    }
+
+    const quote = BLOCKQUOTE_PATTERN.exec(text);
+    if (quote) {
+      const isContinuation = current?.kind === 'blockquote';
+      addContent('blockquote', text.slice(quote[0].length), line.offset + quote[0].length, !isContinuation);
+      previousBlank = false;
+      continue;
+    }
+
+    const listItem = LIST_ITEM_PATTERN.exec(text);
+    if (listItem) {
+      addContent('list-item', text.slice(listItem[0].length), line.offset + listItem[0].length, true);
+      inListItem = true;
+      previousBlank = false;
+      continue;
+    }
+
+    // Paragraph text, or a lazy continuation of the open block
+    if (current && !previousBlank) {
+      addContent(current.kind, text, line.offset, false);
+    } else if (inListItem && /^\s/.test(text)) {
+      addContent('list-item', text, line.offset, true);
+    } else {
+      inListItem = false;
+      addContent('paragraph', text, line.offset, true);
+    }
+    previousBlank = false;
+  }
+
+  closeBlock();
+  return blocks;
+}
+
+/**
+ * Map a [start, end) range of block text to source offsets
+ * Returns whether the range covers contiguous source text, i.e. is safe to replace
+ */
+function mapRange(block: ProseBlock, start: number, end: number): { start: number; end: number; contiguous: boolean } {
+  if (block.starts.length === 0) {
+    return { start: 0, end: 0, contiguous: false };
+  }
+  const clampedStart = Math.min(start, block.starts.length - 1);
+  const sourceStart = block.starts[clampedStart];
+  if (end <= start) {
+    return { start: sourceStart, end: sourceStart, contiguous: true };
+  }
+
+  const last = Math.min(end, block.ends.length) - 1;
+  let contiguous = true;
+  for (let i = clampedStart; i < last; i++) {
+    if (block.ends[i] !== block.starts[i + 1] || block.text[i] === PLACEHOLDER) {
+      contiguous = false;
+      break;
+    }
+  }
+  if (block.text[last] === PLACEHOLDER) {
+    contiguous = false;
+  }
+
+  return { start: sourceStart, end: block.ends[last], contiguous };
+}
+
+function blockRules(kind: ProseBlockKind, rules?: RuleFilter): RuleFilter {
+  return {
+    enabled: rules?.enabled,
+    disabled: [...(rules?.disabled || []), ...BLOCK_RULE_EXCLUSIONS[kind]]
+  };
+}
+
+function mapGrammarResult(result: CheckResult, block: ProseBlock, source: string, lineIndex: LineIndex): CheckResult {
+  const range = mapRange(block, result.start, result.end);
+  const position = offsetToPosition(lineIndex, range.start);
+  const mapped: CheckResult = {
+    ...result,
+    line: position.line,
+    column: position.column,
+    start: range.start,
+    end: range.end,
+    length: range.end - range.start,
+    text: source.slice(range.start, range.end)
+  };
+  // Only offer a replacement when it would not overwrite Markdown syntax
+  if (!range.contiguous) {
+    delete mapped.suggestion;
+  }
+  return mapped;
+}
+
+function mapStyleSuggestion(suggestion: Suggestion, block: ProseBlock, lineIndex: LineIndex): Suggestion {
+  const range = mapRange(block, suggestion.start, suggestion.end);
+  const position = offsetToPosition(lineIndex, range.start);
+  return {
+    ...suggestion,
+    line: position.line,
+    column: position.column,
+    start: range.start,
+    end: range.end
+  };
+}
+
+/**
+ * Check a Markdown document with the grammar and style engines
+ * Only prose reaches the engines; headings, list items and table cells skip
+ * sentence-level rules, and results are reported against the original source.
+ * Inline opengrammer-disable directives and ignoreRanges apply to source offsets.
+ *
+ * @param source - Markdown source text
+ * @param options - Rule filter, locale, ignore ranges and directive handling
+ * @returns Grammar and style reports for the whole document
+ */
+export function checkMarkdown(source: string, options: MarkdownCheckOptions = {}): MarkdownCheckResult {
+  const grammar: CheckResult[] = [];
+  const style: Suggestion[] = [];
+
+  if (!source || typeof source !== 'string' || source.trim().length === 0) {
+    return { grammar: { results: [], suppressed: [] }, style: { results: [], suppressed: [] } };
+  }
+
+  const lineIndex = createLineIndex(source);
+  const blocks = extractProse(source);
+
+  // Blocks are checked one at a time, so settle the document's variant up front
+  const locale = options.locale ||
+    inferLocale(findVariantSpellings(blocks.map(block => block.text).join('\n\n')), options);
+  const engineOptions = { directives: false, locale, preferIze: options.preferIze };
+
+  for (const block of blocks) {
+    const rules = blockRules(block.kind, options.rules);
+
+    checkGrammar(block.text, { ...engineOptions, rules, oxfordComma: options.oxfordComma }).forEach(result => {
+      grammar.push(mapGrammarResult(result, block, source, lineIndex));
+    });
+
+    suggestStyle(block.text, { ...engineOptions, rules }).forEach(suggestion => {
+      style.push(mapStyleSuggestion(suggestion, block, lineIndex));
+    });
+  }
+
+  const suppressions = parseSuppressions(source, options);
+  return {
+    grammar: applySuppressions(grammar, 'grammar', suppressions),
+    style: applySuppressions(style, 'style', suppressions)
+  };
+}
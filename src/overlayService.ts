@@ -93,6 +93,9 @@ export interface Suggestion {
   type: string;
   message: string;
   position: { x: number; y: number };
+  // Character range of the issue within the captured text, for exact underlining
+  range?: { start: number; end: number };
+  severity?: 'error' | 'warning' | 'info';
   suggestion?: string;
   action?: 'replace' | 'insert' | 'highlight';
 }
@@ -102,7 +105,7 @@ export interface OverlayResponse {
 }
 
 export interface OverlayHandler {
-  onTextCapture?: (event: OverlayEvent) => OverlayResponse;
+  onTextCapture?: (event: OverlayEvent) => OverlayResponse | Promise<OverlayResponse>;
   onFocusChange?: (event: OverlayEvent) => void;
 }
 
@@ -797,7 +800,7 @@ export class OverlayService extends EventEmitter {
       
       for (const handler of this.handlers) {
         if (handler.onTextCapture) {
-          const response = handler.onTextCapture(event);
+          const response = await handler.onTextCapture(event);
           allSuggestions.push(...response.suggestions);
         }
       }
@@ -952,7 +955,7 @@ export class OverlayService extends EventEmitter {
     };
 
     const suggestionItems = suggestions.map(suggestion =>
-      `<div class="suggestion-item" data-type="${escapeHtml(suggestion.type)}">
+      `<div class="suggestion-item" data-type="${escapeHtml(suggestion.type)}"${suggestion.severity ? ` data-severity="${escapeHtml(suggestion.severity)}"` : ''}${suggestion.range ? ` data-start="${suggestion.range.start}" data-end="${suggestion.range.end}"` : ''}>
         <div class="suggestion-message">${escapeHtml(suggestion.message)}</div>
         ${suggestion.suggestion ? `<div class="suggestion-text">${escapeHtml(suggestion.suggestion)}</div>` : ''}
       </div>`
@@ -0,0 +1,87 @@
+import nlp from 'compromise';
+
+/**
+ * Shared compromise tagging for the POS-based grammar checks
+ */
+
+export interface TaggedTerm {
+  text: string;
+  // Lower-cased form without surrounding punctuation
+  normal: string;
+  tags: Set<string>;
+  // Offsets into the tagged text (end is exclusive)
+  start: number;
+  end: number;
+  // Punctuation and whitespace between this term and the next one
+  post: string;
+}
+
+// Several checks tag the same sentence, so recent results are kept; callers must not mutate them
+const tagCache = new Map<string, TaggedTerm[]>();
+const TAG_CACHE_LIMIT = 200;
+
+/**
+ * Tag every term of a text with compromise
+ * Contractions keep their written form ("don't"); the empty placeholder terms
+ * compromise adds for their expansions are dropped
+ *
+ * @param text - Text to tag, usually one sentence
+ * @returns Terms in text order
+ */
+export function tagTerms(text: string): TaggedTerm[] {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  const cached = tagCache.get(text);
+  if (cached) {
+    return cached;
+  }
+
+  const terms: TaggedTerm[] = [];
+  for (const sentence of nlp(text).json({ offset: true })) {
+    for (const term of sentence.terms || []) {
+      if (!term.text) continue;
+      terms.push({
+        text: term.text,
+        normal: term.normal || term.text.toLowerCase(),
+        tags: new Set<string>(term.tags || []),
+        start: term.offset.start,
+        end: term.offset.start + term.offset.length,
+        post: term.post || ''
+      });
+    }
+  }
+
+  if (tagCache.size >= TAG_CACHE_LIMIT) {
+    tagCache.delete(tagCache.keys().next().value!);
+  }
+  tagCache.set(text, terms);
+  return terms;
+}
+
+/**
+ * Whether the term carries any of the given tags
+ */
+export function hasTag(term: TaggedTerm, ...tags: string[]): boolean {
+  return tags.some(tag => term.tags.has(tag));
+}
+
+/**
+ * Whether punctuation separates the term from the next one
+ */
+export function hasBreakAfter(term: TaggedTerm): boolean {
+  return /[,;:()–—"]/.test(term.post);
+}
+
+/**
+ * Whether the verb at `index` starts its verb group; later verbs ("can go", "to have") are non-finite
+ */
+export function startsVerbGroup(terms: TaggedTerm[], index: number): boolean {
+  for (let i = index - 1; i >= 0; i--) {
+    const term = terms[i];
+    if (hasTag(term, 'Adverb') && !hasTag(term, 'Noun')) continue;
+    return !hasTag(term, 'Verb', 'Modal', 'Auxiliary') && term.normal !== 'to';
+  }
+  return true;
+}
@@ -0,0 +1,284 @@
+import { SentenceSpan, segmentParagraph, segmentParagraphs } from './sentenceSegmenter';
+
+/**
+ * Readability metrics: Flesch Reading Ease, Flesch–Kincaid grade, Gunning Fog
+ * and SMOG, for the whole document and each paragraph, plus the sentences that
+ * are hardest to read. A target audience sets the thresholds above which
+ * paragraphs and sentences are reported.
+ * Syllables are counted with vowel-group heuristics, so scores are estimates;
+ * SMOG is only meaningful from about 30 sentences up.
+ */
+
+export type ReadabilityAudience = 'children' | 'general' | 'business' | 'technical' | 'academic';
+
+export interface ReadabilityThresholds {
+  // Highest acceptable Flesch–Kincaid grade for a paragraph or the document
+  maxGrade: number;
+  // Lowest acceptable Flesch Reading Ease for a paragraph or the document
+  minReadingEase: number;
+  // Sentences longer than this many words are reported
+  maxSentenceWords: number;
+}
+
+export const READABILITY_AUDIENCES: Record<ReadabilityAudience, ReadabilityThresholds> = {
+  children: { maxGrade: 6, minReadingEase: 80, maxSentenceWords: 15 },
+  general: { maxGrade: 9, minReadingEase: 60, maxSentenceWords: 25 },
+  business: { maxGrade: 12, minReadingEase: 50, maxSentenceWords: 25 },
+  technical: { maxGrade: 14, minReadingEase: 30, maxSentenceWords: 30 },
+  academic: { maxGrade: 16, minReadingEase: 20, maxSentenceWords: 35 }
+};
+
+export interface ReadabilityOptions {
+  // Named audience, or custom thresholds (default 'general')
+  audience?: ReadabilityAudience | ReadabilityThresholds;
+  // How many of the hardest sentences to report (default 5)
+  hardestSentences?: number;
+}
+
+export interface ReadabilityCounts {
+  sentences: number;
+  words: number;
+  syllables: number;
+  // Words of three or more syllables, excluding names, compounds and -es/-ed/-ing endings (Gunning Fog)
+  complexWords: number;
+  // Words of three or more syllables (SMOG)
+  polysyllables: number;
+}
+
+export interface ReadabilityScores {
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  gunningFog: number;
+  smog: number;
+}
+
+export interface ReadabilityResult {
+  // Offsets into the analysed text (end is exclusive)
+  start: number;
+  end: number;
+  counts: ReadabilityCounts;
+  scores: ReadabilityScores;
+}
+
+export interface SentenceReadability {
+  start: number;
+  end: number;
+  text: string;
+  words: number;
+  syllables: number;
+  // Flesch–Kincaid grade of the sentence on its own
+  grade: number;
+  // Longer or harder than the audience allows
+  exceedsTarget: boolean;
+}
+
+export type ReadabilityScope = 'document' | 'paragraph' | 'sentence';
+
+export interface ReadabilityWarning {
+  scope: ReadabilityScope;
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ReadabilityReport {
+  thresholds: ReadabilityThresholds;
+  document: ReadabilityResult;
+  paragraphs: ReadabilityResult[];
+  // Hardest first
+  hardestSentences: SentenceReadability[];
+  warnings: ReadabilityWarning[];
+}
+
+const WORD_PATTERN = /[A-Za-z]+(?:['’-][A-Za-z]+)*|\d+(?:[.,]\d+)*/g;
+const DEFAULT_HARDEST_SENTENCES = 5;
+// A single sentence may run a few grades above the paragraph target before it is reported
+const SENTENCE_GRADE_ALLOWANCE = 3;
+
+// Words the vowel-group heuristic gets wrong
+const SYLLABLE_EXCEPTIONS: Record<string, number> = {
+  area: 3, idea: 3, being: 2, every: 3, everything: 4, business: 2, different: 3, interesting: 4,
+  people: 2, science: 2, quiet: 2, create: 2, created: 3, poem: 2, real: 1, really: 2, naive: 2,
+  simile: 3, recipe: 3, apostrophe: 4, catastrophe: 4, coyote: 3
+};
+
+/**
+ * Estimate the syllables in a word
+ * @param word - A single word; digits count as one syllable per group
+ */
+export function countSyllables(word: string): number {
+  const normal = word.toLowerCase().replace(/[’']/g, '');
+  if (/^\d/.test(normal)) return 1;
+  if (SYLLABLE_EXCEPTIONS[normal] !== undefined) return SYLLABLE_EXCEPTIONS[normal];
+  if (normal.includes('-')) {
+    return normal.split('-').reduce((sum, part) => sum + (part ? countSyllables(part) : 0), 0);
+  }
+
+  const letters = normal.replace(/[^a-z]/g, '');
+  if (letters.length === 0) return 0;
+  if (letters.length <= 3) return 1;
+
+  // Silent endings: "make", "makes", "baked"; but "table" and "wanted" keep theirs
+  const trimmed = letters
+    .replace(/(?:[^laeiouysxzh]es|[^laeiouydt]ed|[^laeiouy]e)$/, match => match.charAt(0))
+    .replace(/^y/, '');
+  const groups = trimmed.match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups ? groups.length : 1);
+}
+
+interface WordInfo {
+  text: string;
+  syllables: number;
+  complex: boolean;
+}
+
+function sentenceWords(sentence: string): WordInfo[] {
+  const words: WordInfo[] = [];
+  let match: RegExpExecArray | null;
+  const pattern = new RegExp(WORD_PATTERN.source, 'g');
+
+  while ((match = pattern.exec(sentence)) !== null) {
+    const text = match[0];
+    const syllables = countSyllables(text);
+    // Gunning counts neither names, nor compounds, nor syllables added by a suffix
+    const isName = words.length > 0 && /^[A-Z]/.test(text);
+    const stem = text.replace(/(?:es|ed|ing)$/i, '');
+    const complex = syllables >= 3 && !isName && !text.includes('-') && countSyllables(stem) >= 3;
+    words.push({ text, syllables, complex });
+  }
+
+  return words;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Standard readability indices from raw counts
+ */
+export function readabilityScores(counts: ReadabilityCounts): ReadabilityScores {
+  if (counts.words === 0 || counts.sentences === 0) {
+    return { fleschReadingEase: 0, fleschKincaidGrade: 0, gunningFog: 0, smog: 0 };
+  }
+
+  const wordsPerSentence = counts.words / counts.sentences;
+  const syllablesPerWord = counts.syllables / counts.words;
+  return {
+    fleschReadingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord),
+    fleschKincaidGrade: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59),
+    gunningFog: round(0.4 * (wordsPerSentence + 100 * (counts.complexWords / counts.words))),
+    smog: round(1.043 * Math.sqrt(counts.polysyllables * (30 / counts.sentences)) + 3.1291)
+  };
+}
+
+function resolveThresholds(audience: ReadabilityOptions['audience']): ReadabilityThresholds {
+  if (!audience) return READABILITY_AUDIENCES.general;
+  return typeof audience === 'string' ? READABILITY_AUDIENCES[audience] : audience;
+}
+
+interface SentenceMeasure {
+  span: SentenceSpan;
+  words: WordInfo[];
+}
+
+function countSentences(sentences: SentenceMeasure[]): ReadabilityCounts {
+  const counts: ReadabilityCounts = { sentences: 0, words: 0, syllables: 0, complexWords: 0, polysyllables: 0 };
+  for (const sentence of sentences) {
+    if (sentence.words.length === 0) continue;
+    counts.sentences++;
+    for (const word of sentence.words) {
+      counts.words++;
+      counts.syllables += word.syllables;
+      if (word.complex) counts.complexWords++;
+      if (word.syllables >= 3) counts.polysyllables++;
+    }
+  }
+  return counts;
+}
+
+function measure(start: number, end: number, sentences: SentenceMeasure[]): ReadabilityResult {
+  const counts = countSentences(sentences);
+  return { start, end, counts, scores: readabilityScores(counts) };
+}
+
+/**
+ * Whether a paragraph or document is harder than the thresholds allow, and why
+ */
+function describeExcess(result: ReadabilityResult, thresholds: ReadabilityThresholds): string | null {
+  if (result.counts.words === 0) return null;
+  if (result.scores.fleschKincaidGrade > thresholds.maxGrade) {
+    return `reads at grade ${result.scores.fleschKincaidGrade}, above the target of grade ${thresholds.maxGrade}`;
+  }
+  if (result.scores.fleschReadingEase < thresholds.minReadingEase) {
+    return `has a reading ease of ${result.scores.fleschReadingEase}, below the target of ${thresholds.minReadingEase}`;
+  }
+  return null;
+}
+
+/**
+ * Measure how easy a text is to read, per paragraph and overall
+ * @param text - Text to measure; paragraphs are separated by blank lines
+ * @param options - Target audience and how many hard sentences to report
+ * @returns Counts and scores, the hardest sentences and threshold warnings in text order
+ */
+export function analyzeReadability(text: string, options: ReadabilityOptions = {}): ReadabilityReport {
+  const source = typeof text === 'string' ? text : '';
+  const thresholds = resolveThresholds(options.audience);
+  const limit = Math.max(0, options.hardestSentences ?? DEFAULT_HARDEST_SENTENCES);
+
+  const paragraphs = segmentParagraphs(source).map(paragraph => ({
+    span: paragraph,
+    sentences: segmentParagraph(paragraph).map(span => ({ span, words: sentenceWords(span.text) }))
+  }));
+  const allSentences = paragraphs.flatMap(paragraph => paragraph.sentences);
+
+  const document = measure(0, source.length, allSentences);
+  const paragraphResults = paragraphs.map(paragraph => measure(paragraph.span.start, paragraph.span.end, paragraph.sentences));
+
+  const sentences: SentenceReadability[] = allSentences
+    .filter(sentence => sentence.words.length > 0)
+    .map(sentence => {
+      const counts = countSentences([sentence]);
+      const grade = readabilityScores(counts).fleschKincaidGrade;
+      return {
+        start: sentence.span.start,
+        end: sentence.span.end,
+        text: sentence.span.text,
+        words: counts.words,
+        syllables: counts.syllables,
+        grade,
+        exceedsTarget: counts.words > thresholds.maxSentenceWords || grade > thresholds.maxGrade + SENTENCE_GRADE_ALLOWANCE
+      };
+    });
+
+  const warnings: ReadabilityWarning[] = [];
+  const documentExcess = describeExcess(document, thresholds);
+  if (documentExcess) {
+    warnings.push({ scope: 'document', start: document.start, end: document.end, message: `The document ${documentExcess}` });
+  }
+  // With a single paragraph the document warning already covers it
+  if (paragraphResults.length > 1) {
+    for (const paragraph of paragraphResults) {
+      const excess = describeExcess(paragraph, thresholds);
+      if (excess) {
+        warnings.push({ scope: 'paragraph', start: paragraph.start, end: paragraph.end, message: `This paragraph ${excess}` });
+      }
+    }
+  }
+  for (const sentence of sentences.filter(entry => entry.exceedsTarget)) {
+    const message = sentence.words > thresholds.maxSentenceWords
+      ? `This sentence has ${sentence.words} words; aim for at most ${thresholds.maxSentenceWords}`
+      : `This sentence reads at grade ${sentence.grade}; try shorter words or splitting it`;
+    warnings.push({ scope: 'sentence', start: sentence.start, end: sentence.end, message });
+  }
+  warnings.sort((a, b) => a.start - b.start);
+
+  return {
+    thresholds: { ...thresholds },
+    document,
+    paragraphs: paragraphResults,
+    hardestSentences: [...sentences].sort((a, b) => b.grade - a.grade || b.words - a.words).slice(0, limit),
+    warnings
+  };
+}
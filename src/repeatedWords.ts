@@ -0,0 +1,106 @@
+/**
+ * Immediately repeated words and short phrases ("the the", "in the in the"),
+ * including repeats split across a line break
+ */
+
+export interface RepeatedWords {
+  // The duplicate copy and the whitespace before it; offsets into the checked text.
+  // Deleting [start, end) removes the repeat
+  start: number;
+  end: number;
+  text: string;
+  // The repeated word or phrase as first written
+  repeated: string;
+  // Number of words in the repeated unit
+  words: number;
+}
+
+// Longest phrase checked for an immediate repeat
+const MAX_PHRASE_WORDS = 3;
+
+// Words that are correctly doubled in ordinary English ("he had had enough",
+// "she said that that was fine") and common reduplications
+const LEGITIMATE_REPEATS = new Set([
+  'had', 'that', 'bye', 'ha', 'haha', 'no', 'yes', 'knock', 'so', 'hush', 'tut', 'chop', 'yada',
+  'bla', 'blah', 'la', 'boo', 'dum', 'ho', 'hey', 'there', 'now', 'well', 'very', 'really', 'many'
+]);
+
+const WORD_PATTERN = /[A-Za-z0-9]+(?:['’][A-Za-z]+)*/g;
+
+interface Token {
+  text: string;
+  lower: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  WORD_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = WORD_PATTERN.exec(text)) !== null) {
+    tokens.push({
+      text: match[0],
+      lower: match[0].toLowerCase().replace(/’/g, '\''),
+      start: match.index,
+      end: match.index + match[0].length
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Whether tokens [from, to] are separated by whitespace only (line breaks included)
+ */
+function joinedByWhitespace(text: string, tokens: Token[], from: number, to: number): boolean {
+  for (let i = from; i < to; i++) {
+    if (!/^\s+$/.test(text.slice(tokens[i].end, tokens[i + 1].start))) return false;
+  }
+  return true;
+}
+
+function isRepeatAt(tokens: Token[], index: number, length: number): boolean {
+  if (index + length * 2 > tokens.length) return false;
+  for (let i = 0; i < length; i++) {
+    if (tokens[index + i].lower !== tokens[index + length + i].lower) return false;
+  }
+  return true;
+}
+
+/**
+ * Find immediately repeated words and phrases of up to three words
+ * @param text - Sentence or paragraph; words separated by punctuation are not repeats
+ * @returns Repeats in text order
+ */
+export function findRepeatedWords(text: string): RepeatedWords[] {
+  const repeats: RepeatedWords[] = [];
+  const tokens = tokenize(text);
+
+  let index = 0;
+  while (index < tokens.length) {
+    let found = 0;
+    for (let length = MAX_PHRASE_WORDS; length >= 1 && !found; length--) {
+      if (!isRepeatAt(tokens, index, length) || !joinedByWhitespace(text, tokens, index, index + length * 2 - 1)) continue;
+
+      const first = tokens[index];
+      if (length === 1 && (LEGITIMATE_REPEATS.has(first.lower) || /^\d+$/.test(first.lower))) continue;
+      // "Will will come": a capitalised first copy mid-text is usually a name
+      if (index > 0 && /^[A-Z]/.test(first.text) && !/^[A-Z]/.test(tokens[index + length].text)) continue;
+
+      const start = tokens[index + length - 1].end;
+      const end = tokens[index + length * 2 - 1].end;
+      repeats.push({
+        start,
+        end,
+        text: text.slice(start, end),
+        repeated: text.slice(first.start, tokens[index + length - 1].end),
+        words: length
+      });
+      found = length;
+    }
+    // Step onto the duplicate so a third copy is caught as well
+    index += found || 1;
+  }
+
+  return repeats;
+}
@@ -0,0 +1,162 @@
+/**
+ * Declarative replacements for rule packs
+ * A replacement is either a template string or an object:
+ *
+ *   "use $1"                                   template
+ *   { "template": "$2 $1", "preserveCase": true }
+ *   { "lookup": { "group": 1, "table": { "learnt": "learned" } }, "template": "$1" }
+ *
+ * Templates understand $& (or $0) for the whole match, $1-$99 for capture
+ * groups, $<name> for named groups and $$ for a literal "$". A lookup table
+ * rewrites one group (the whole match by default) before the template is
+ * expanded, and the template defaults to that group ("$&" without a lookup).
+ * When the group's text is not in the table no replacement is offered.
+ * preserveCase gives the result the casing of the matched text. Nothing in a
+ * replacement is executed as code.
+ */
+
+export interface ReplacementLookup {
+  // Capture group the table is keyed on: a number, a group name, or 0 for the whole match
+  group?: number | string;
+  // Matched text (compared case-insensitively) -> replacement text
+  table: Record<string, string>;
+}
+
+export interface ReplacementObject {
+  // Defaults to "$&", or to the lookup's group
+  template?: string;
+  lookup?: ReplacementLookup;
+  preserveCase?: boolean;
+}
+
+export type ReplacementSpec = string | ReplacementObject;
+
+// Returns undefined when a lookup has no entry for the matched text
+export type CompiledReplacement = (match: RegExpMatchArray) => string | undefined;
+
+type TemplatePart = string | { group: number | string };
+
+const TOKEN_PATTERN = /\$(?:(\$)|(&)|(\d{1,2})|<([A-Za-z_][A-Za-z0-9_]*)>)/g;
+const OBJECT_KEYS = new Set(['template', 'lookup', 'preserveCase']);
+
+/**
+ * Apply the casing of `source` to `text`: all caps, capitalized, or as written
+ */
+export function preserveCase(source: string, text: string): string {
+  if (/[A-Za-z]{2}/.test(source) && source === source.toUpperCase()) {
+    return text.toUpperCase();
+  }
+  if (/^[A-Z]/.test(source)) {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+  return text;
+}
+
+/**
+ * Capture groups a pattern defines: their count and their names
+ */
+function describeGroups(pattern: RegExp): { count: number; names: Set<string> } {
+  const probe = new RegExp(`${pattern.source}|`).exec('')!;
+  return { count: probe.length - 1, names: new Set(Object.keys(probe.groups || {})) };
+}
+
+function checkGroup(group: number | string, groups: { count: number; names: Set<string> }): void {
+  if (typeof group === 'number' ? group > groups.count : !groups.names.has(group)) {
+    throw new Error(`the pattern has no group ${typeof group === 'number' ? group : `"${group}"`}`);
+  }
+}
+
+function parseTemplate(template: string, groups: { count: number; names: Set<string> }): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  const pattern = new RegExp(TOKEN_PATTERN.source, TOKEN_PATTERN.flags);
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(template)) !== null) {
+    const literal = template.slice(last, match.index);
+    if (literal.includes('$')) {
+      throw new Error(`unexpected "$" in template "${template}"; write "$$" for a literal "$"`);
+    }
+    parts.push(literal);
+
+    if (match[1]) {
+      parts.push('$');
+    } else {
+      const group = match[2] ? 0 : match[3] ? Number(match[3]) : match[4];
+      checkGroup(group, groups);
+      parts.push({ group });
+    }
+    last = match.index + match[0].length;
+  }
+
+  const rest = template.slice(last);
+  if (rest.includes('$')) {
+    throw new Error(`unexpected "$" in template "${template}"; write "$$" for a literal "$"`);
+  }
+  parts.push(rest);
+  return parts.filter(part => part !== '');
+}
+
+function groupText(match: RegExpMatchArray, group: number | string): string {
+  const value = typeof group === 'number' ? match[group] : match.groups?.[group];
+  return value || '';
+}
+
+/**
+ * Validate a replacement against the rule's pattern and compile it
+ * @param spec - Template string or replacement object from a rule pack
+ * @param pattern - The rule's pattern; group references are checked against it
+ * @returns A function building the replacement for a match
+ * @throws Error describing the first problem found
+ */
+export function compileReplacement(spec: unknown, pattern: RegExp): CompiledReplacement {
+  const groups = describeGroups(pattern);
+  const options: ReplacementObject = typeof spec === 'string' ? { template: spec } : spec as ReplacementObject;
+
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    throw new Error('replacement must be a template string or an object');
+  }
+  const unknownKey = Object.keys(options).find(key => !OBJECT_KEYS.has(key));
+  if (unknownKey) {
+    throw new Error(`unknown replacement property "${unknownKey}"`);
+  }
+  if (options.template !== undefined && typeof options.template !== 'string') {
+    throw new Error('"template" must be a string');
+  }
+  if (options.preserveCase !== undefined && typeof options.preserveCase !== 'boolean') {
+    throw new Error('"preserveCase" must be true or false');
+  }
+
+  let lookup: { group: number | string; table: Map<string, string> } | null = null;
+  if (options.lookup !== undefined) {
+    const { group = 0, table } = options.lookup || {} as ReplacementLookup;
+    if (typeof group === 'number' ? !Number.isInteger(group) || group < 0 : typeof group !== 'string') {
+      throw new Error('lookup "group" must be a group number or name');
+    }
+    checkGroup(group, groups);
+    if (!table || typeof table !== 'object' || Array.isArray(table) || Object.values(table).some(value => typeof value !== 'string')) {
+      throw new Error('lookup "table" must map strings to strings');
+    }
+    lookup = { group, table: new Map(Object.entries(table).map(([key, value]) => [key.toLowerCase(), value])) };
+  }
+
+  const defaultTemplate = !lookup || lookup.group === 0 ? '$&' : typeof lookup.group === 'number' ? `$${lookup.group}` : `$<${lookup.group}>`;
+  const parts = parseTemplate(options.template ?? defaultTemplate, groups);
+
+  return (match: RegExpMatchArray) => {
+    let lookedUp: string | undefined;
+    if (lookup) {
+      const key = groupText(match, lookup.group);
+      lookedUp = lookup.table.get(key.toLowerCase());
+      if (lookedUp === undefined) return undefined;
+      if (options.preserveCase) lookedUp = preserveCase(key, lookedUp);
+    }
+
+    const text = parts.map(part => {
+      if (typeof part === 'string') return part;
+      if (lookup && part.group === lookup.group) return lookedUp!;
+      return groupText(match, part.group);
+    }).join('');
+    return options.preserveCase ? preserveCase(match[0], text) : text;
+  };
+}
@@ -0,0 +1,57 @@
+import type { PluginConfig } from './types/settings';
+
+// Rule families, matching the plugin categories shown in settings
+export type RuleCategory = PluginConfig['category'];
+
+// Identity every grammar and style rule exposes to filters
+export interface RuleIdentity {
+  // Stable, unique id such as "missing-period"
+  id: string;
+  // Rule type, which doubles as the plugin id toggled in settings
+  type: string;
+  category: RuleCategory;
+}
+
+/**
+ * Selects which rules an engine runs
+ * Entries match a rule by its id, its type or its category
+ */
+export interface RuleFilter {
+  // When set, only rules matching one of these entries run
+  enabled?: string[];
+  // Rules matching one of these entries never run; takes precedence over `enabled`
+  disabled?: string[];
+}
+
+function matchesAny(rule: RuleIdentity, entries: string[]): boolean {
+  return entries.includes(rule.id) || entries.includes(rule.type) || entries.includes(rule.category);
+}
+
+/**
+ * Check whether a rule passes every supplied filter
+ * @param rule - Rule identity to test
+ * @param filters - Filters to apply; undefined entries are ignored
+ * @returns True if no filter excludes the rule
+ */
+export function isRuleActive(rule: RuleIdentity, ...filters: Array<RuleFilter | undefined>): boolean {
+  for (const filter of filters) {
+    if (!filter) continue;
+    if (filter.disabled && matchesAny(rule, filter.disabled)) {
+      return false;
+    }
+    if (filter.enabled && !matchesAny(rule, filter.enabled)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Build a filter from plugin configuration: disabled plugins disable their rules
+ * @param plugins - Plugin configuration as managed by SettingsService
+ */
+export function ruleFilterFromPlugins(plugins: PluginConfig[]): RuleFilter {
+  return {
+    disabled: plugins.filter(plugin => !plugin.enabled).map(plugin => plugin.id)
+  };
+}
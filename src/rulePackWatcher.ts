@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { loadRulesFromConfig, unloadGrammarRulePack } from './grammarEngine';
+import { loadStyleGuide, unloadStyleRulePack } from './styleService';
+import { RulePackInfo, isRecord, packIdFromPath, readRulePackFile } from './rulePacks';
+import { logger } from './logger';
+
+/**
+ * Loads rule packs from a directory and reloads them when they change
+ * Files named `*.grammar.json` go to the grammar engine and `*.style.json` to
+ * the style service; other files are ignored. A pack is swapped in only once
+ * it has validated and passed its self-tests, so a broken edit keeps the
+ * previous version active. Two files may not define packs with the same id;
+ * the one loaded second is rejected until the first is removed or renamed.
+ * Emits 'rules-reloaded' with a RulePackReloadEvent after every load attempt and removal
+ */
+
+export const DEFAULT_RULES_DIRECTORY = path.join(os.homedir(), '.opengrammer', 'rules');
+
+export type RulePackEngine = 'grammar' | 'style';
+
+export interface RulePackReloadEvent {
+  engine: RulePackEngine;
+  // Absolute path of the pack file
+  file: string;
+  // 'loaded' after a successful (re)load, 'unloaded' when the file was removed,
+  // 'failed' when the new version was rejected and the previous one kept
+  status: 'loaded' | 'unloaded' | 'failed';
+  pack?: RulePackInfo;
+  error?: string;
+}
+
+export interface RulePackWatcherOptions {
+  // Directory to load and watch; created if missing
+  directory?: string;
+  // Quiet period before a changed file is reloaded, so partial saves are not loaded
+  debounceMs?: number;
+}
+
+const DEFAULT_DEBOUNCE_MS = 200;
+
+/**
+ * Engine a pack file belongs to, from its name
+ */
+function engineForFile(fileName: string): RulePackEngine | null {
+  if (fileName.endsWith('.grammar.json')) return 'grammar';
+  if (fileName.endsWith('.style.json')) return 'style';
+  return null;
+}
+
+/**
+ * Id a pack file declares, or would be given from its name; null when the file cannot be parsed
+ */
+function declaredPackId(file: string): string | null {
+  try {
+    const config = readRulePackFile(file);
+    return isRecord(config) && typeof config.id === 'string' ? config.id : packIdFromPath(file);
+  } catch {
+    return null;
+  }
+}
+
+export class RulePackWatcher extends EventEmitter {
+  private readonly directory: string;
+  private readonly debounceMs: number;
+  private watcher: fs.FSWatcher | null = null;
+  private pendingReloads = new Map<string, NodeJS.Timeout>();
+  // Pack file -> id of the pack it loaded, so renamed ids and deleted files unload cleanly
+  private loadedPacks = new Map<string, { engine: RulePackEngine; pack: RulePackInfo }>();
+
+  constructor(options: RulePackWatcherOptions = {}) {
+    super();
+    this.directory = options.directory || DEFAULT_RULES_DIRECTORY;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  }
+
+  /**
+   * Load every pack in the directory, then watch it for changes
+   * @returns The outcome for each pack file found
+   */
+  start(): RulePackReloadEvent[] {
+    if (this.watcher) {
+      return [];
+    }
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    const events = fs.readdirSync(this.directory)
+      .filter(fileName => engineForFile(fileName) !== null)
+      .sort()
+      .map(fileName => this.reload(fileName));
+
+    try {
+      this.watcher = fs.watch(this.directory, (_, fileName) => {
+        if (fileName && engineForFile(fileName.toString()) !== null) {
+          this.scheduleReload(fileName.toString());
+        }
+      });
+      this.watcher.on('error', error => logger.error('Rule pack watcher failed', 'RulePackWatcher', error));
+    } catch (error) {
+      logger.error(`Failed to watch rule directory ${this.directory}`, 'RulePackWatcher', error as Error);
+    }
+
+    return events;
+  }
+
+  /**
+   * Stop watching; loaded packs stay active
+   */
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.pendingReloads.forEach(timer => clearTimeout(timer));
+    this.pendingReloads.clear();
+  }
+
+  /**
+   * Packs currently loaded from the directory
+   */
+  listLoadedPacks(): Array<{ file: string; engine: RulePackEngine; pack: RulePackInfo }> {
+    return [...this.loadedPacks].map(([file, entry]) => ({ file, engine: entry.engine, pack: { ...entry.pack } }));
+  }
+
+  private scheduleReload(fileName: string): void {
+    const pending = this.pendingReloads.get(fileName);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.pendingReloads.set(fileName, setTimeout(() => {
+      this.pendingReloads.delete(fileName);
+      this.reload(fileName);
+    }, this.debounceMs));
+  }
+
+  /**
+   * Load, replace or remove the pack in one file and report the outcome
+   */
+  private reload(fileName: string): RulePackReloadEvent {
+    const engine = engineForFile(fileName)!;
+    const file = path.join(this.directory, fileName);
+    const previous = this.loadedPacks.get(file);
+    let event: RulePackReloadEvent;
+
+    if (!fs.existsSync(file)) {
+      if (previous) {
+        this.unload(previous.engine, previous.pack.id);
+        this.loadedPacks.delete(file);
+        this.retryRejected(engine, previous.pack.id);
+      }
+      event = { engine, file, status: 'unloaded', pack: previous?.pack };
+    } else {
+      try {
+        // Pack ids are unique per engine: a second file claiming a loaded id is rejected
+        const packId = declaredPackId(file);
+        const owner = [...this.loadedPacks].find(([other, entry]) => other !== file && entry.engine === engine && entry.pack.id === packId);
+        if (owner) {
+          throw new Error(`Pack id "${packId}" is already loaded from ${path.basename(owner[0])}`);
+        }
+
+        const pack = engine === 'grammar' ? loadRulesFromConfig(file) : loadStyleGuide(file);
+        // The file now defines a different pack id; drop the one it used to define
+        if (previous && previous.pack.id !== pack.id) {
+          this.unload(previous.engine, previous.pack.id);
+          this.retryRejected(engine, previous.pack.id);
+        }
+        this.loadedPacks.set(file, { engine, pack });
+        event = { engine, file, status: 'loaded', pack };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Kept the previous rules for ${fileName}: ${message}`, 'RulePackWatcher');
+        event = { engine, file, status: 'failed', pack: previous?.pack, error: message };
+      }
+    }
+
+    this.emit('rules-reloaded', event);
+    return event;
+  }
+
+  /**
+   * Reload files that were rejected for claiming a pack id that is now free
+   */
+  private retryRejected(engine: RulePackEngine, packId: string): void {
+    const loadedFiles = new Set(this.loadedPacks.keys());
+    try {
+      fs.readdirSync(this.directory)
+        .filter(fileName => engineForFile(fileName) === engine && !loadedFiles.has(path.join(this.directory, fileName)))
+        .filter(fileName => declaredPackId(path.join(this.directory, fileName)) === packId)
+        .forEach(fileName => this.scheduleReload(fileName));
+    } catch (error) {
+      logger.error(`Failed to read rule directory ${this.directory}`, 'RulePackWatcher', error as Error);
+    }
+  }
+
+  private unload(engine: RulePackEngine, packId: string): void {
+    if (engine === 'grammar') {
+      unloadGrammarRulePack(packId);
+    } else {
+      unloadStyleRulePack(packId);
+    }
+  }
+}
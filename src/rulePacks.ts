@@ -0,0 +1,325 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ReplacementSpec, compileReplacement } from './replacements';
+
+/**
+ * Versioned rule-pack format shared by the grammar and style loaders
+ * A pack carries metadata, its rules with good and bad example sentences, and
+ * a `tests` section. Packs are merged into the built-in rules; a pack whose
+ * rules miss their bad examples, fire on their good ones or fail a test is
+ * rejected as a whole.
+ *
+ * {
+ *   "version": 1,
+ *   "id": "house-style",
+ *   "name": "House style",
+ *   "author": "Docs team",
+ *   "language": "en-GB",
+ *   "rules": [{
+ *     "id": "utilize", "type": "wordiness", "pattern": "\\butilize\\b", "flags": "gi",
+ *     "message": "Use \"use\"", "severity": "warning", "replacement": { "template": "use", "preserveCase": true },
+ *     "examples": { "bad": ["We utilize caching."], "good": ["We use caching."] }
+ *   }],
+ *   "tests": [{ "text": "Utilize it.", "expect": ["utilize"] }]
+ * }
+ */
+
+// Newest pack format this build understands
+export const RULE_PACK_VERSION = 1;
+
+export interface RulePackExamples {
+  // Sentences the rule must stay silent on
+  good?: string[];
+  // Sentences the rule must fire on
+  bad?: string[];
+}
+
+export interface RulePackRule {
+  id: string;
+  type: string;
+  pattern: string;
+  flags?: string;
+  message: string;
+  severity: string;
+  // Required by style packs
+  explanation?: string;
+  // Declarative fix for the matched text (see replacements)
+  replacement?: ReplacementSpec;
+  examples?: RulePackExamples;
+}
+
+export interface RulePackTest {
+  // Optional label shown when the test fails
+  name?: string;
+  text: string;
+  // Ids of the pack's rules expected to fire on `text`; empty when none should
+  expect: string[];
+}
+
+export interface RulePack {
+  version: number;
+  id: string;
+  name: string;
+  author?: string;
+  // BCP 47 tag such as "en" or "en-GB"
+  language: string;
+  description?: string;
+  rules: RulePackRule[];
+  tests: RulePackTest[];
+}
+
+// Summary of a loaded pack
+export interface RulePackInfo {
+  id: string;
+  name: string;
+  author?: string;
+  language: string;
+  version: number;
+  // Number of rules the pack contributes
+  rules: number;
+  // File the pack was loaded from
+  file?: string;
+}
+
+// A loaded pack's validated JSON, for loading the same version into another engine instance
+export interface RulePackSnapshot {
+  id: string;
+  // File the pack was loaded from; also gives the id of packs without one
+  file?: string;
+  config: unknown;
+}
+
+export interface RulePackSchema {
+  // Allowed severities for the engine loading the pack
+  severities: string[];
+  // Allowed rule types, when the engine restricts them
+  types?: string[];
+  // Whether rules must carry an explanation
+  requireExplanation?: boolean;
+}
+
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+/**
+ * Read and parse a rule-pack file
+ * @param configPath - Path to a JSON pack
+ * @throws Error when the file cannot be read or is not valid JSON
+ */
+export function readRulePackFile(configPath: string): unknown {
+  const configData = fs.readFileSync(configPath, 'utf8');
+  return JSON.parse(configData);
+}
+
+/**
+ * Id given to a pack without one: the file name without its extension
+ */
+export function packIdFromPath(configPath: string): string {
+  return path.basename(configPath, path.extname(configPath));
+}
+
+/**
+ * Whether a parsed JSON value is an object (not null or an array)
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(entry => typeof entry === 'string');
+}
+
+// Texts an empty-matching pattern is probed against, besides the rule's own examples
+const EMPTY_MATCH_PROBES = ['', ' ', 'a', 'The cat sat on the mat.'];
+
+/**
+ * Whether a pattern matches the empty string anywhere in the probe texts
+ * Such a rule fires everywhere and never advances a global search.
+ */
+function matchesEmpty(pattern: RegExp, probes: string[]): boolean {
+  const probe = new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, '') + 'g');
+  return probes.some(text => {
+    probe.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = probe.exec(text)) !== null) {
+      if (match[0].length === 0) return true;
+    }
+    return false;
+  });
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function validateRule(rule: unknown, index: number, schema: RulePackSchema): RulePackRule {
+  if (!isRecord(rule) || !isNonEmptyString(rule.type) || !isNonEmptyString(rule.pattern) || !isNonEmptyString(rule.message)
+    || !isNonEmptyString(rule.severity) || (schema.requireExplanation && !isNonEmptyString(rule.explanation))) {
+    throw new Error(`Rule at index ${index} is missing required properties`);
+  }
+  if (schema.types && !schema.types.includes(rule.type)) {
+    throw new Error(`Invalid rule type: ${rule.type} at index ${index}`);
+  }
+  if (!schema.severities.includes(rule.severity)) {
+    throw new Error(`Invalid severity: ${rule.severity} at index ${index}`);
+  }
+  for (const key of ['id', 'flags', 'explanation']) {
+    if (rule[key] !== undefined && typeof rule[key] !== 'string') {
+      throw new Error(`Rule at index ${index}: "${key}" must be a string`);
+    }
+  }
+  const flags = typeof rule.flags === 'string' ? rule.flags : '';
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(rule.pattern, flags);
+  } catch (error) {
+    throw new Error(`Invalid regex pattern at index ${index}: ${rule.pattern}`);
+  }
+  if (rule.replacement !== undefined) {
+    try {
+      compileReplacement(rule.replacement, pattern);
+    } catch (error) {
+      throw new Error(`Invalid replacement at index ${index}: ${(error as Error).message}`);
+    }
+  }
+
+  const examples = rule.examples;
+  if (examples !== undefined && (!isRecord(examples)
+    || (examples.good !== undefined && !isStringArray(examples.good))
+    || (examples.bad !== undefined && !isStringArray(examples.bad)))) {
+    throw new Error(`Rule at index ${index}: "examples" must have "good" and "bad" arrays of strings`);
+  }
+  const good = isRecord(examples) && isStringArray(examples.good) ? examples.good : [];
+  const bad = isRecord(examples) && isStringArray(examples.bad) ? examples.bad : [];
+  if (matchesEmpty(pattern, [...EMPTY_MATCH_PROBES, ...good, ...bad])) {
+    throw new Error(`Regex pattern at index ${index} can match empty text: ${rule.pattern}`);
+  }
+
+  return {
+    ...rule,
+    id: isNonEmptyString(rule.id) ? rule.id : `${rule.type}-${index + 1}`,
+    type: rule.type,
+    pattern: rule.pattern,
+    message: rule.message,
+    severity: rule.severity
+  } as RulePackRule;
+}
+
+/**
+ * Check a parsed pack against the format and an engine's schema
+ * A bare `{ "rules": [...] }` file is read as an unversioned pack named after `fallbackId`
+ * @param config - Parsed JSON
+ * @param fallbackId - Id for packs without one, usually from packIdFromPath
+ * @param schema - Severities and types the loading engine accepts
+ * @returns The normalised pack
+ * @throws Error on the first problem found
+ */
+export function parseRulePack(config: unknown, fallbackId: string, schema: RulePackSchema): RulePack {
+  if (!isRecord(config)) {
+    throw new Error('Rule pack must be a JSON object');
+  }
+
+  const version = config.version === undefined ? RULE_PACK_VERSION : config.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > RULE_PACK_VERSION) {
+    throw new Error(`Unsupported rule pack version: ${config.version}`);
+  }
+  const metadata: Partial<Record<'id' | 'name' | 'author' | 'language' | 'description', string>> = {};
+  for (const key of ['id', 'name', 'author', 'language', 'description'] as const) {
+    const value = config[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new Error(`Rule pack "${key}" must be a non-empty string`);
+    }
+    metadata[key] = value;
+  }
+  if (metadata.language !== undefined && !LANGUAGE_PATTERN.test(metadata.language)) {
+    throw new Error(`Invalid rule pack language: ${metadata.language}`);
+  }
+  if (config.rules !== undefined && !Array.isArray(config.rules)) {
+    throw new Error('Rule pack "rules" must be an array');
+  }
+
+  const rawRules: unknown[] = Array.isArray(config.rules) ? config.rules : [];
+  const rules = rawRules.map((rule, index) => validateRule(rule, index, schema));
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (ids.has(rule.id)) {
+      throw new Error(`Duplicate rule id: ${rule.id}`);
+    }
+    ids.add(rule.id);
+  }
+
+  if (config.tests !== undefined && !Array.isArray(config.tests)) {
+    throw new Error('Rule pack "tests" must be an array');
+  }
+  const rawTests: unknown[] = Array.isArray(config.tests) ? config.tests : [];
+  const tests = rawTests.map((test, index): RulePackTest => {
+    if (!isRecord(test) || typeof test.text !== 'string' || !isStringArray(test.expect)
+      || (test.name !== undefined && typeof test.name !== 'string')) {
+      throw new Error(`Test at index ${index} needs a "text" string and an "expect" array of rule ids`);
+    }
+    const unknown = test.expect.find(id => !ids.has(id));
+    if (unknown) {
+      throw new Error(`Test at index ${index} expects unknown rule "${unknown}"`);
+    }
+    return { name: test.name, text: test.text, expect: test.expect };
+  });
+
+  return {
+    version,
+    id: metadata.id || fallbackId,
+    name: metadata.name || metadata.id || fallbackId,
+    author: metadata.author,
+    language: metadata.language || 'en',
+    description: metadata.description,
+    rules,
+    tests
+  };
+}
+
+/**
+ * Run a pack's examples and tests
+ * @param pack - Parsed pack
+ * @param fired - Ids of the pack's rules that fire on a text, as the loading engine runs them
+ * @returns One message per failure; empty when the pack passes
+ */
+export function selfTestRulePack(pack: RulePack, fired: (text: string) => string[]): string[] {
+  const failures: string[] = [];
+
+  for (const rule of pack.rules) {
+    for (const example of rule.examples?.bad || []) {
+      if (!fired(example).includes(rule.id)) {
+        failures.push(`rule "${rule.id}" does not fire on its bad example "${example}"`);
+      }
+    }
+    for (const example of rule.examples?.good || []) {
+      if (fired(example).includes(rule.id)) {
+        failures.push(`rule "${rule.id}" fires on its good example "${example}"`);
+      }
+    }
+  }
+
+  pack.tests.forEach((test, index) => {
+    const actual = [...new Set(fired(test.text))].sort();
+    const expected = [...new Set(test.expect)].sort();
+    if (actual.join(',') !== expected.join(',')) {
+      const label = test.name ? `"${test.name}"` : `at index ${index}`;
+      failures.push(`test ${label} expected [${expected.join(', ')}] but got [${actual.join(', ')}]`);
+    }
+  });
+
+  return failures;
+}
+
+/**
+ * Summary of a pack for callers of the loaders
+ */
+export function describeRulePack(pack: RulePack): RulePackInfo {
+  return {
+    id: pack.id,
+    name: pack.name,
+    author: pack.author,
+    language: pack.language,
+    version: pack.version,
+    rules: pack.rules.length
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Rule-based sentence segmentation shared by the grammar and style engines
+ * Handles abbreviations (Dr., e.g., U.S.), initials, decimals, ellipses and
+ * closing quotes/brackets after terminal punctuation. Blank lines always end a
+ * sentence; single line breaks inside a paragraph do not.
+ */
+
+export interface SentenceSpan {
+  text: string;
+  // Absolute offsets into the segmented text (end is exclusive)
+  start: number;
+  end: number;
+}
+
+// Lower-case abbreviations that never end a sentence when followed by a period.
+// Words that are also ordinary English words ("sun", "fig") are deliberately left out
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'capt', 'lt', 'sgt', 'gov', 'sen',
+  'vs', 'etc', 'approx', 'dept', 'inc', 'ltd', 'co', 'corp',
+  'jan', 'feb', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+  'mon', 'tue', 'tues', 'thu', 'thur', 'thurs', 'fri',
+  'cf', 'viz', 'ave', 'blvd', 'e.g', 'i.e', 'a.m', 'p.m'
+]);
+
+// Abbreviations only when a number follows: "No. 5", "Fig. 2", "pp. 10-12"
+const NUMBERED_ABBREVIATIONS = new Set(['no', 'nos', 'fig', 'figs', 'vol', 'eq', 'ch', 'sec', 'p', 'pp']);
+
+const TERMINATOR_PATTERN = /[.!?…]+/g;
+const CLOSING_PATTERN = /^["'”’)\]]*/;
+const SENTENCE_START_PATTERN = /^\s+["'“‘(\[]*[A-Z0-9]/;
+
+/**
+ * Decide whether a period at `index` belongs to an abbreviation or initial
+ * @param text - Text containing the period
+ * @param index - Offset of the period
+ */
+export function isAbbreviation(text: string, index: number): boolean {
+  const before = text.slice(0, index);
+  const word = /(?:^|[^A-Za-z0-9])([A-Za-z][A-Za-z.]*)$/.exec(before);
+  if (!word) {
+    return false;
+  }
+
+  const token = word[1].toLowerCase();
+  if (ABBREVIATIONS.has(token) || /\bet al$/i.test(before)) {
+    return true;
+  }
+  if (NUMBERED_ABBREVIATIONS.has(token)) {
+    return /^\.\s*\d/.test(text.slice(index));
+  }
+
+  // Initials and dotted acronyms: "J. Smith", "U.S. policy", "Ph.D." (but not the pronoun "I")
+  if (word[1] === 'I') {
+    return false;
+  }
+  return /^([a-z]\.)*[a-z]$/.test(token) || /^[a-z]{1,2}\.[a-z]{1,2}$/.test(token);
+}
+
+/**
+ * Find sentence end offsets within one paragraph
+ */
+function findBoundaries(paragraph: string): number[] {
+  const boundaries: number[] = [];
+  TERMINATOR_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TERMINATOR_PATTERN.exec(paragraph)) !== null) {
+    const terminator = match[0];
+    let end = match.index + terminator.length;
+    end += CLOSING_PATTERN.exec(paragraph.slice(end))![0].length;
+
+    const rest = paragraph.slice(end);
+    if (rest.trim().length === 0) {
+      continue;
+    }
+
+    // Decimals, versions and URLs have no whitespace after the period;
+    // lower-case continuations ("Wait... what", "e.g. this") are the same sentence
+    if (!SENTENCE_START_PATTERN.test(rest)) {
+      continue;
+    }
+
+    if (terminator === '.' && isAbbreviation(paragraph, match.index)) {
+      continue;
+    }
+
+    boundaries.push(end);
+  }
+
+  return boundaries;
+}
+
+/**
+ * Find the paragraphs of a text: runs of non-blank lines separated by blank lines
+ * Each span starts at the beginning of its first line and ends after its last
+ * non-whitespace character, so segmenting a paragraph on its own gives the
+ * same sentences as segmenting the whole text
+ *
+ * @param text - Text to split
+ * @returns Paragraphs in document order
+ */
+export function segmentParagraphs(text: string): SentenceSpan[] {
+  const paragraphs: SentenceSpan[] = [];
+  if (!text || typeof text !== 'string') {
+    return paragraphs;
+  }
+
+  const paragraphPattern = /[^\n]*\S[^\n]*(?:\n[^\n]*\S[^\n]*)*/g;
+  let paragraph: RegExpExecArray | null;
+
+  while ((paragraph = paragraphPattern.exec(text)) !== null) {
+    const paragraphText = paragraph[0].trimEnd();
+    paragraphs.push({ text: paragraphText, start: paragraph.index, end: paragraph.index + paragraphText.length });
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Split one paragraph from segmentParagraphs into sentences
+ * @param paragraph - Paragraph span; its offsets carry over to the sentences
+ * @returns Sentences in paragraph order, with absolute offsets
+ */
+export function segmentParagraph(paragraph: SentenceSpan): SentenceSpan[] {
+  const sentences: SentenceSpan[] = [];
+  let sentenceStart = 0;
+
+  for (const boundary of [...findBoundaries(paragraph.text), paragraph.text.length]) {
+    const raw = paragraph.text.slice(sentenceStart, boundary);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+
+    if (trimmed.length > 0) {
+      const start = paragraph.start + sentenceStart + leading;
+      sentences.push({ text: trimmed, start, end: start + trimmed.length });
+    }
+    sentenceStart = boundary;
+  }
+
+  return sentences;
+}
+
+/**
+ * Split text into sentences with their absolute offsets
+ * Leading and trailing whitespace is excluded from each sentence span
+ *
+ * @param text - Text to segment; may span several lines and paragraphs
+ * @returns Sentences in document order
+ */
+export function segmentSentences(text: string): SentenceSpan[] {
+  return segmentParagraphs(text).flatMap(segmentParagraph);
+}
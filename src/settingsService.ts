@@ -3,12 +3,17 @@ import * as os from 'os';
 import * as fs from 'fs';
 import * as path from 'path';
 import { DictionaryStore } from './dictionaryStore';
-import { PluginConfig, LLMProvider, SynapseConfig, AppStats } from './types/settings';
+import { PluginConfig, LLMProvider, SynapseConfig, AppStats, WritingPreferences } from './types/settings';
 import { synapseConnector, ModelDescriptor, CloudConfig } from './synapseConnector';
+import { GrammarCheckOptions, setGrammarRuleFilter } from './grammarEngine';
+import { setStyleRuleFilter, setTypographyPreferences, setReadabilityOptions } from './styleService';
+import { ruleFilterFromPlugins } from './ruleFilter';
+import { mergeWritingPreferences } from './writingPreferences';
 
 export class SettingsService {
   private dictionaryStore: DictionaryStore;
   private pluginConfigs: PluginConfig[] = [];
+  private preferences: WritingPreferences = { typography: {}, readabilityAudience: 'general' };
   private synapseConfig: SynapseConfig = { providers: [] };
   private statsSubscribers: ((stats: AppStats) => void)[] = [];
   private statsInterval?: NodeJS.Timeout;
@@ -16,6 +21,9 @@ export class SettingsService {
   constructor(dictionaryStore: DictionaryStore) {
     this.dictionaryStore = dictionaryStore;
     this.initializePluginConfigs();
+    this.loadPluginConfigs();
+    this.loadPreferences();
+    this.applyPluginConfigs();
     this.initializeSynapseConfig();
     this.setupIpcHandlers();
     this.startStatsCollection();
@@ -52,6 +60,41 @@ export class SettingsService {
         description: 'Maintains consistent verb tenses throughout text',
         category: 'grammar'
       },
+      {
+        id: 'variant-consistency',
+        name: 'Spelling Variant Consistency',
+        enabled: true,
+        description: 'Flags spellings from another English variant, such as "color" in British English',
+        category: 'grammar'
+      },
+      {
+        id: 'article',
+        name: 'Articles',
+        enabled: true,
+        description: 'Checks "a" versus "an" and flags singular nouns missing an article',
+        category: 'grammar'
+      },
+      {
+        id: 'confused-words',
+        name: 'Commonly Confused Words',
+        enabled: true,
+        description: 'Catches mix-ups such as their/there/they\'re and affect/effect',
+        category: 'grammar'
+      },
+      {
+        id: 'repeated-words',
+        name: 'Repeated Words',
+        enabled: true,
+        description: 'Finds accidentally doubled words and phrases, even across line breaks',
+        category: 'grammar'
+      },
+      {
+        id: 'capitalization',
+        name: 'Capitalization',
+        enabled: true,
+        description: 'Checks sentence starts, the pronoun "I", names, words in all caps and the casing of your custom words',
+        category: 'grammar'
+      },
       // Style plugins
       {
         id: 'passive-voice',
@@ -80,6 +123,20 @@ export class SettingsService {
         enabled: false,
         description: 'Flags overly long or complex sentences',
         category: 'style'
+      },
+      {
+        id: 'typography',
+        name: 'Typography',
+        enabled: false,
+        description: 'Enforces house style for quotes, dashes, ellipses and spacing in published text',
+        category: 'style'
+      },
+      {
+        id: 'readability',
+        name: 'Readability',
+        enabled: false,
+        description: 'Flags paragraphs and sentences that read above the target audience\'s grade level',
+        category: 'style'
       }
     ];
   }
@@ -126,10 +183,24 @@ export class SettingsService {
       const plugin = this.pluginConfigs.find(p => p.id === pluginId);
       if (plugin) {
         plugin.enabled = enabled;
+        this.applyPluginConfigs();
         await this.savePluginConfigs();
       }
     });
 
+    // Writing preferences: locale, comma style, typography and readability audience
+    ipcMain.handle('preferences:get', async () => {
+      return this.getWritingPreferences();
+    });
+
+    // Partial updates: fields left out, including single typography settings, keep their value
+    ipcMain.handle('preferences:set', async (_, preferences: Partial<WritingPreferences>) => {
+      this.preferences = mergeWritingPreferences(this.preferences, preferences);
+      this.applyPluginConfigs();
+      await this.savePreferences();
+      return this.getWritingPreferences();
+    });
+
     // Synapse LLM configuration
     ipcMain.handle('synapse:get-config', async () => {
       return this.synapseConfig;
@@ -186,6 +257,79 @@ export class SettingsService {
     });
   }
 
+  /**
+   * Restore enabled flags saved by a previous session; unknown ids are ignored
+   */
+  private loadPluginConfigs(): void {
+    try {
+      const configPath = path.join(os.homedir(), '.opengrammer', 'plugins.json');
+      if (!fs.existsSync(configPath)) {
+        return;
+      }
+
+      const saved = JSON.parse(fs.readFileSync(configPath, 'utf8')) as PluginConfig[];
+      if (!Array.isArray(saved)) {
+        return;
+      }
+
+      saved.forEach(savedPlugin => {
+        const plugin = this.pluginConfigs.find(p => p.id === savedPlugin.id);
+        if (plugin && typeof savedPlugin.enabled === 'boolean') {
+          plugin.enabled = savedPlugin.enabled;
+        }
+      });
+    } catch (error) {
+      console.error('Failed to load plugin configuration:', error);
+    }
+  }
+
+  /**
+   * Push plugin enabled state into the grammar and style engines so toggles apply immediately
+   */
+  private applyPluginConfigs(): void {
+    const filter = ruleFilterFromPlugins(this.pluginConfigs);
+    setGrammarRuleFilter(filter);
+    setStyleRuleFilter(filter);
+
+    // Typography and readability are opt-in and follow the saved preferences when enabled
+    const typography = this.pluginConfigs.find(plugin => plugin.id === 'typography');
+    setTypographyPreferences(typography?.enabled ? { ...this.preferences.typography } : null);
+
+    const readability = this.pluginConfigs.find(plugin => plugin.id === 'readability');
+    setReadabilityOptions(readability?.enabled ? { audience: this.preferences.readabilityAudience } : null);
+  }
+
+  /**
+   * Restore writing preferences saved by a previous session; invalid values are ignored
+   */
+  private loadPreferences(): void {
+    try {
+      const configPath = path.join(os.homedir(), '.opengrammer', 'preferences.json');
+      if (!fs.existsSync(configPath)) {
+        return;
+      }
+
+      this.preferences = mergeWritingPreferences(this.preferences, JSON.parse(fs.readFileSync(configPath, 'utf8')));
+    } catch (error) {
+      console.error('Failed to load writing preferences:', error);
+    }
+  }
+
+  private async savePreferences(): Promise<void> {
+    try {
+      const configPath = path.join(os.homedir(), '.opengrammer', 'preferences.json');
+      const configDir = path.dirname(configPath);
+
+      if (!fs.existsSync(configDir)) {
+        fs.mkdirSync(configDir, { recursive: true });
+      }
+
+      fs.writeFileSync(configPath, JSON.stringify(this.preferences, null, 2));
+    } catch (error) {
+      console.error('Failed to save writing preferences:', error);
+    }
+  }
+
   private async savePluginConfigs(): Promise<void> {
     try {
       const configPath = path.join(os.homedir(), '.opengrammer', 'plugins.json');
@@ -270,6 +414,18 @@ export class SettingsService {
     return plugin ? plugin.enabled : false;
   }
 
+  public getWritingPreferences(): WritingPreferences {
+    return { ...this.preferences, typography: { ...this.preferences.typography } };
+  }
+
+  /**
+   * Per-call grammar options that follow the writing preferences
+   */
+  public getGrammarOptions(): GrammarCheckOptions {
+    const { locale, preferIze, oxfordComma } = this.preferences;
+    return { locale, preferIze, oxfordComma };
+  }
+
   public dispose(): void {
     if (this.statsInterval) {
       clearInterval(this.statsInterval);
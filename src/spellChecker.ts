@@ -0,0 +1,636 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+import { EnglishLocale, DEFAULT_LOCALE } from './localeVariants';
+
+/**
+ * Offline spell checker backed by the bundled Hunspell dictionaries (dictionary-en,
+ * dictionary-en-gb, dictionary-en-ca, dictionary-en-au)
+ * Affix rules are expanded into a word set at load time. Corrections are found
+ * by walking the sorted word list like a trie, computing the edit distance
+ * (with transpositions) one prefix at a time and skipping every word whose
+ * prefix is already too far away.
+ */
+
+export interface SpellCheckOptions {
+  // Dictionary to check against (default en-US)
+  locale?: EnglishLocale;
+}
+
+export interface Misspelling {
+  word: string;
+  // Offsets into the checked text (end is exclusive)
+  start: number;
+  end: number;
+  // Ranked corrections, best first
+  suggestions: string[];
+  // Set when one correction is clearly best, so it is safe to auto-apply
+  correction?: string;
+}
+
+interface AffixEntry {
+  strip: string;
+  add: string;
+  condition: RegExp;
+}
+
+interface AffixRule {
+  kind: 'PFX' | 'SFX';
+  crossProduct: boolean;
+  entries: AffixEntry[];
+}
+
+// High-confidence corrections for frequent typos, always ranked first
+const KNOWN_CORRECTIONS: Record<string, string> = {
+  'caat': 'cat',
+  'eror': 'error',
+  'runing': 'running',
+  'quikly': 'quickly',
+  'wrold': 'world',
+  'recieve': 'receive',
+  'seperate': 'separate',
+  'definately': 'definitely',
+  'teh': 'the',
+  'adn': 'and',
+  'alot': 'a lot',
+  'becuase': 'because',
+  'occured': 'occurred',
+  'untill': 'until',
+  'wich': 'which'
+};
+
+// Hunspell dictionary package for each locale
+const DICTIONARY_PACKAGES: Record<EnglishLocale, string> = {
+  'en-US': 'dictionary-en',
+  'en-GB': 'dictionary-en-gb',
+  'en-CA': 'dictionary-en-ca',
+  'en-AU': 'dictionary-en-au'
+};
+
+const DEFAULT_SUGGESTION_LIMIT = 5;
+const SUGGESTION_CACHE_LIMIT = 500;
+// Words longer than this are never compared usefully
+const MAX_WORD_LENGTH = 64;
+// Reused distance table for SpellDictionary.lookup, one row per letter of a dictionary word
+const lookupTable = Array.from({ length: MAX_WORD_LENGTH + 1 }, () => new Int32Array(MAX_WORD_LENGTH + 1));
+const lookupCodes = new Int32Array(MAX_WORD_LENGTH);
+
+// Words, optionally with an apostrophe part: "don't", "John's"
+const WORD_PATTERN = /[A-Za-z]+(?:['’][A-Za-z]+)*/g;
+// Whitespace-delimited chunks that are not prose: URLs, emails, paths, handles
+const NON_PROSE_PATTERN = /^\S*(?:[a-z][a-z0-9+.-]*:\/\/|www\.|@|\/[A-Za-z])\S*$/i;
+
+class SpellDictionary {
+  // Lower-cased word -> dictionary spelling (keeps the casing of proper nouns)
+  private readonly words = new Map<string, string>();
+  // Lower-cased words in code-unit order, so words sharing a prefix are adjacent
+  private readonly sorted: string[];
+
+  constructor(aff: string, dic: string) {
+    const { rules, skipFlags } = parseAffixFile(aff);
+    const lines = dic.split(/\r?\n/);
+
+    // The first line of a .dic file is the approximate word count
+    for (let i = 1; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) continue;
+
+      const slash = line.indexOf('/');
+      const stem = slash === -1 ? line : line.slice(0, slash);
+      const flags = slash === -1 ? '' : line.slice(slash + 1);
+      if (/\d/.test(stem) || [...skipFlags].some(flag => flags.includes(flag))) {
+        continue;
+      }
+
+      for (const form of expandStem(stem, flags, rules)) {
+        this.addWord(form);
+      }
+    }
+
+    this.sorted = [...this.words.keys()].filter(word => word.length <= MAX_WORD_LENGTH).sort();
+  }
+
+  get size(): number {
+    return this.words.size;
+  }
+
+  has(word: string): boolean {
+    return this.words.has(word.toLowerCase());
+  }
+
+  /**
+   * Dictionary spelling of a lower-cased word
+   */
+  spelling(lowerWord: string): string {
+    return this.words.get(lowerWord) || lowerWord;
+  }
+
+  /**
+   * All other words within maxDistance edits of the lower-cased word
+   * Row i of the distance table depends only on the first i letters of the
+   * dictionary word, so rows are reused while consecutive words share a prefix.
+   * Once every cell of a row exceeds maxDistance no word with that prefix can
+   * match (a transposition costs no less than the row it steps over), and the
+   * walk jumps past them all.
+   */
+  lookup(lowerWord: string, maxDistance: number): Array<{ word: string; distance: number }> {
+    const matches: Array<{ word: string; distance: number }> = [];
+    const width = lowerWord.length;
+    if (width > MAX_WORD_LENGTH) return matches;
+
+    const table = lookupTable;
+    const codes = lookupCodes;
+    for (let j = 0; j <= width; j++) {
+      table[0][j] = j;
+      if (j < width) codes[j] = lowerWord.charCodeAt(j);
+    }
+
+    // Rows 0..valid hold the distances for the first `valid` letters of `previous`
+    let previous = '';
+    let valid = 0;
+    let index = 0;
+    while (index < this.sorted.length) {
+      const word = this.sorted[index];
+      let shared = 0;
+      const limit = Math.min(valid, word.length);
+      while (shared < limit && word.charCodeAt(shared) === previous.charCodeAt(shared)) shared++;
+
+      let prunedAt = 0;
+      for (let i = shared + 1; i <= word.length; i++) {
+        const row = table[i];
+        const above = table[i - 1];
+        const twoAbove = table[i > 1 ? i - 2 : 0];
+        const charA = word.charCodeAt(i - 1);
+        const previousA = i > 1 ? word.charCodeAt(i - 2) : -1;
+        row[0] = i;
+        let best = i;
+        let previousB = -1;
+        for (let j = 1; j <= width; j++) {
+          const charB = codes[j - 1];
+          let value = above[j - 1] + (charA === charB ? 0 : 1);
+          if (above[j] + 1 < value) value = above[j] + 1;
+          if (row[j - 1] + 1 < value) value = row[j - 1] + 1;
+          if (charA === previousB && previousA === charB && twoAbove[j - 2] + 1 < value) {
+            value = twoAbove[j - 2] + 1;
+          }
+          row[j] = value;
+          if (value < best) best = value;
+          previousB = charB;
+        }
+        if (best > maxDistance) {
+          prunedAt = i;
+          break;
+        }
+      }
+
+      previous = word;
+      if (prunedAt > 0) {
+        valid = prunedAt - 1;
+        index = this.endOfPrefix(word, prunedAt, index + 1);
+        continue;
+      }
+
+      valid = word.length;
+      const distance = table[word.length][width];
+      if (distance > 0 && distance <= maxDistance) {
+        matches.push({ word, distance });
+      }
+      index++;
+    }
+
+    return matches;
+  }
+
+  private addWord(form: string): void {
+    const lower = form.toLowerCase();
+    const existing = this.words.get(lower);
+    // Prefer the lower-case entry when a word is both common and proper ("bill", "Bill")
+    if (existing === undefined || (existing !== lower && form === lower)) {
+      this.words.set(lower, form);
+    }
+  }
+
+  /**
+   * Index of the first word from `from` on that does not share the word's first `length` letters
+   * The words sharing them are contiguous and `from - 1` is one of them
+   */
+  private endOfPrefix(word: string, length: number, from: number): number {
+    // Most runs are short: gallop ahead to bracket the end, then bisect
+    let inside = from - 1;
+    let probe = from;
+    for (let step = 1; probe < this.sorted.length && this.hasPrefix(this.sorted[probe], word, length); step *= 2) {
+      inside = probe;
+      probe += step;
+    }
+    let low = inside + 1;
+    let high = Math.min(probe, this.sorted.length);
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.hasPrefix(this.sorted[middle], word, length)) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  private hasPrefix(candidate: string, word: string, length: number): boolean {
+    if (candidate.length < length) return false;
+    for (let i = 0; i < length; i++) {
+      if (candidate.charCodeAt(i) !== word.charCodeAt(i)) return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * Parse prefix/suffix rules and the flags that exclude a stem from the word list
+ */
+function parseAffixFile(aff: string): { rules: Map<string, AffixRule>; skipFlags: Set<string> } {
+  const rules = new Map<string, AffixRule>();
+  const skipFlags = new Set<string>();
+
+  for (const rawLine of aff.split(/\r?\n/)) {
+    const parts = rawLine.trim().split(/\s+/);
+    const [directive, flag] = parts;
+
+    if ((directive === 'ONLYINCOMPOUND' || directive === 'FORBIDDENWORD') && flag) {
+      skipFlags.add(flag);
+      continue;
+    }
+    if (directive !== 'PFX' && directive !== 'SFX') {
+      continue;
+    }
+
+    const rule = rules.get(flag);
+    if (!rule) {
+      // Header line: PFX <flag> <cross product Y/N> <entry count>
+      rules.set(flag, { kind: directive, crossProduct: parts[2] === 'Y', entries: [] });
+      continue;
+    }
+
+    // Entry line: PFX <flag> <strip> <add>[/<continuation flags>] <condition>
+    const strip = parts[2] === '0' ? '' : parts[2];
+    const add = parts[3] === '0' ? '' : parts[3].split('/')[0];
+    const condition = parts[4] || '.';
+    rule.entries.push({
+      strip,
+      add,
+      condition: new RegExp(directive === 'SFX' ? `${condition}$` : `^${condition}`)
+    });
+  }
+
+  return { rules, skipFlags };
+}
+
+function applyAffix(word: string, rule: AffixRule): string[] {
+  const forms: string[] = [];
+
+  for (const entry of rule.entries) {
+    if (!entry.condition.test(word)) continue;
+
+    if (rule.kind === 'SFX') {
+      if (word.endsWith(entry.strip)) {
+        forms.push(word.slice(0, word.length - entry.strip.length) + entry.add);
+      }
+    } else if (word.startsWith(entry.strip)) {
+      forms.push(entry.add + word.slice(entry.strip.length));
+    }
+  }
+
+  return forms;
+}
+
+/**
+ * Expand a dictionary stem with its affix flags into every accepted form
+ */
+function expandStem(stem: string, flags: string, rules: Map<string, AffixRule>): string[] {
+  const forms = [stem];
+  const crossSuffixed = [stem];
+  const prefixes: AffixRule[] = [];
+
+  for (const flag of flags) {
+    const rule = rules.get(flag);
+    if (!rule) continue;
+
+    if (rule.kind === 'PFX') {
+      prefixes.push(rule);
+      continue;
+    }
+
+    const suffixed = applyAffix(stem, rule);
+    forms.push(...suffixed);
+    if (rule.crossProduct) {
+      crossSuffixed.push(...suffixed);
+    }
+  }
+
+  for (const prefix of prefixes) {
+    for (const form of prefix.crossProduct ? crossSuffixed : [stem]) {
+      forms.push(...applyAffix(form, prefix));
+    }
+  }
+
+  return forms;
+}
+
+// Reused rows for editDistance
+const rows = [new Int32Array(MAX_WORD_LENGTH + 1), new Int32Array(MAX_WORD_LENGTH + 1), new Int32Array(MAX_WORD_LENGTH + 1)];
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and adjacent transpositions each cost one edit
+ */
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+  if (a.length > MAX_WORD_LENGTH || b.length > MAX_WORD_LENGTH) {
+    return Math.max(a.length, b.length);
+  }
+
+  let [previousPrevious, previous, current] = rows;
+  for (let j = 0; j <= b.length; j++) {
+    previous[j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    const charA = a.charCodeAt(i - 1);
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const charB = b.charCodeAt(j - 1);
+      let value = previous[j - 1] + (charA === charB ? 0 : 1);
+      if (previous[j] + 1 < value) value = previous[j] + 1;
+      if (current[j - 1] + 1 < value) value = current[j - 1] + 1;
+      if (i > 1 && j > 1 && charA === b.charCodeAt(j - 2) && a.charCodeAt(i - 2) === charB &&
+          previousPrevious[j - 2] + 1 < value) {
+        value = previousPrevious[j - 2] + 1;
+      }
+      current[j] = value;
+    }
+    [previousPrevious, previous, current] = [previous, current, previousPrevious];
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Give a correction the capitalisation of the word it replaces
+ * Dictionary spellings with capitals (proper nouns) are kept as they are
+ */
+function applyCase(source: string, correction: string): string {
+  if (correction !== correction.toLowerCase()) {
+    return correction;
+  }
+  if (source.length > 1 && source === source.toUpperCase()) {
+    return correction.toUpperCase();
+  }
+  if (source[0] === source[0].toUpperCase()) {
+    return correction.charAt(0).toUpperCase() + correction.slice(1);
+  }
+  return correction;
+}
+
+// Dictionaries are loaded on first use of their locale
+const dictionaries = new Map<EnglishLocale, SpellDictionary>();
+const failedLocales = new Set<EnglishLocale>();
+let customWords = new Set<string>();
+const suggestionCache = new Map<string, string[]>();
+
+/**
+ * Load a locale's bundled dictionary; called lazily by the checks, or eagerly to warm up
+ * @param locale - Dictionary to load (default en-US)
+ * @returns The dictionary, or null if it is unavailable
+ */
+function getDictionary(locale: EnglishLocale): SpellDictionary | null {
+  const loaded = dictionaries.get(locale);
+  if (loaded) return loaded;
+  if (failedLocales.has(locale)) return null;
+
+  const packageName = DICTIONARY_PACKAGES[locale];
+  try {
+    // The dictionary packages are ES modules that only export their loader, so read their data files directly
+    const packageDir = path.dirname(require.resolve(packageName));
+    const aff = fs.readFileSync(path.join(packageDir, 'index.aff'), 'utf8');
+    const dic = fs.readFileSync(path.join(packageDir, 'index.dic'), 'utf8');
+    const dictionary = new SpellDictionary(aff, dic);
+    dictionaries.set(locale, dictionary);
+    logger.info(`Spelling dictionary ${packageName} loaded with ${dictionary.size} words`, 'SpellChecker');
+    return dictionary;
+  } catch (error) {
+    // Without a dictionary only the known corrections are reported
+    failedLocales.add(locale);
+    logger.error(`Failed to load spelling dictionary ${packageName}`, 'SpellChecker', error as Error);
+    return null;
+  }
+}
+
+/**
+ * Load a locale's bundled dictionary ahead of the first check
+ * @param locale - Dictionary to load (default en-US)
+ * @returns True if the dictionary is available
+ */
+export function loadSpellDictionary(locale: EnglishLocale = DEFAULT_LOCALE): boolean {
+  return getDictionary(locale) !== null;
+}
+
+/**
+ * Replace the user's custom words (from DictionaryStore); they are never flagged
+ * @param words - Custom words; entries such as "entity:type:value" are ignored
+ */
+export function setCustomWords(words: Iterable<string>): void {
+  customWords = new Set();
+  for (const word of words) {
+    const normalized = word.toLowerCase().trim();
+    if (normalized && !normalized.includes(':')) {
+      customWords.add(normalized.replace(/’/g, '\''));
+    }
+  }
+}
+
+/**
+ * Check whether a single word is spelled correctly
+ * @param word - The word to check, in any casing
+ * @param locale - Dictionary to check against (default en-US)
+ */
+export function isWordCorrect(word: string, locale: EnglishLocale = DEFAULT_LOCALE): boolean {
+  const normalized = word.replace(/’/g, '\'');
+  const lower = normalized.toLowerCase();
+
+  if (customWords.has(lower)) return true;
+  if (KNOWN_CORRECTIONS[lower] !== undefined) return false;
+  const dictionary = getDictionary(locale);
+  if (!dictionary) return true;
+
+  if (dictionary.has(lower)) return true;
+  // Possessives of known words: "Smith's", "students'"
+  const possessive = /^(.+?)(?:'s|')$/i.exec(normalized);
+  return possessive !== null && dictionary.has(possessive[1]);
+}
+
+/**
+ * The dictionary's casing of a word ("london" -> "London", "nasa" -> "NASA")
+ * @param word - The word to look up, in any casing
+ * @param locale - Dictionary to look in (default en-US)
+ * @returns The dictionary spelling, or null if the word is unknown or no dictionary is available
+ */
+export function dictionarySpelling(word: string, locale: EnglishLocale = DEFAULT_LOCALE): string | null {
+  const lower = word.replace(/’/g, '\'').toLowerCase();
+  const dictionary = getDictionary(locale);
+  return dictionary && dictionary.has(lower) ? dictionary.spelling(lower) : null;
+}
+
+/**
+ * Rank corrections for a word, best first
+ * @param word - The misspelled word
+ * @param limit - Maximum number of suggestions
+ * @param locale - Dictionary to draw suggestions from (default en-US)
+ */
+export function suggestSpelling(
+  word: string,
+  limit: number = DEFAULT_SUGGESTION_LIMIT,
+  locale: EnglishLocale = DEFAULT_LOCALE
+): string[] {
+  const lower = word.replace(/’/g, '\'').toLowerCase();
+  const cacheKey = `${locale}:${lower}`;
+  let ranked = suggestionCache.get(cacheKey);
+
+  if (!ranked) {
+    ranked = rankCorrections(lower, locale);
+    if (suggestionCache.size >= SUGGESTION_CACHE_LIMIT) {
+      suggestionCache.delete(suggestionCache.keys().next().value!);
+    }
+    suggestionCache.set(cacheKey, ranked);
+  }
+
+  return ranked.slice(0, limit).map(correction => applyCase(word, correction));
+}
+
+/**
+ * Number of letters, counted with repeats, that appear in one word but not the other
+ */
+function letterDifference(a: string, b: string): number {
+  const counts = new Map<string, number>();
+  for (const char of a) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  for (const char of b) {
+    counts.set(char, (counts.get(char) || 0) - 1);
+  }
+
+  let difference = 0;
+  for (const count of counts.values()) {
+    difference += Math.abs(count);
+  }
+  return difference;
+}
+
+/**
+ * Number of letter pairs two words share, used to break ties between equally distant candidates
+ */
+function sharedBigrams(a: string, b: string): number {
+  const pairs = new Set<string>();
+  for (let i = 0; i < b.length - 1; i++) {
+    pairs.add(b.slice(i, i + 2));
+  }
+
+  let shared = 0;
+  for (let i = 0; i < a.length - 1; i++) {
+    if (pairs.has(a.slice(i, i + 2))) shared++;
+  }
+  return shared;
+}
+
+function rankCorrections(lower: string, locale: EnglishLocale): string[] {
+  const ranked: string[] = [];
+  const known = KNOWN_CORRECTIONS[lower];
+  if (known) {
+    ranked.push(known);
+  }
+  const dictionary = getDictionary(locale);
+  if (!dictionary) {
+    return ranked;
+  }
+
+  // Most typos are one edit away; the wider two-edit search only runs for longer
+  // words when nothing closer exists, which keeps lookups fast
+  let candidates = dictionary.lookup(lower, 1);
+  if (candidates.length === 0 && lower.length > 4) {
+    candidates = dictionary.lookup(lower, 2);
+  }
+
+  // Ties favour the same letters (transpositions such as "thier" or "hte"), then the
+  // same first letter, then shared letter pairs
+  const letters = new Map(candidates.map(candidate => [candidate.word, letterDifference(lower, candidate.word)]));
+  const similarity = new Map(candidates.map(candidate => [candidate.word, sharedBigrams(lower, candidate.word)]));
+  candidates.sort((a, b) =>
+    a.distance - b.distance ||
+    letters.get(a.word)! - letters.get(b.word)! ||
+    Number(b.word[0] === lower[0]) - Number(a.word[0] === lower[0]) ||
+    similarity.get(b.word)! - similarity.get(a.word)! ||
+    Math.abs(a.word.length - lower.length) - Math.abs(b.word.length - lower.length) ||
+    a.word.localeCompare(b.word)
+  );
+
+  for (const candidate of candidates) {
+    const spelling = dictionary.spelling(candidate.word);
+    if (!ranked.includes(spelling)) {
+      ranked.push(spelling);
+    }
+  }
+
+  return ranked;
+}
+
+/**
+ * Only one candidate at the best distance (or a known correction) is safe to auto-apply
+ */
+function confidentCorrection(lower: string, suggestions: string[]): string | undefined {
+  if (suggestions.length === 0) return undefined;
+  if (KNOWN_CORRECTIONS[lower] !== undefined || suggestions.length === 1) return suggestions[0];
+
+  const best = editDistance(lower, suggestions[0].toLowerCase());
+  const next = editDistance(lower, suggestions[1].toLowerCase());
+  return best < next ? suggestions[0] : undefined;
+}
+
+function isSkippedWord(word: string): boolean {
+  // Single letters, acronyms and camelCase identifiers are not checked
+  return word.length < 2 || /[A-Z]/.test(word.slice(1));
+}
+
+/**
+ * Find misspelled words in text
+ * @param text - Text to check; URLs, emails and paths are skipped
+ * @param options - Locale of the dictionary to check against
+ * @returns Misspellings in text order with ranked suggestions
+ */
+export function findMisspellings(text: string, options: SpellCheckOptions = {}): Misspelling[] {
+  const locale = options.locale || DEFAULT_LOCALE;
+  const misspellings: Misspelling[] = [];
+  const chunkPattern = /\S+/g;
+  let chunk: RegExpExecArray | null;
+
+  while ((chunk = chunkPattern.exec(text)) !== null) {
+    if (NON_PROSE_PATTERN.test(chunk[0])) continue;
+
+    WORD_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = WORD_PATTERN.exec(chunk[0])) !== null) {
+      const word = match[0];
+      if (isSkippedWord(word) || isWordCorrect(word, locale)) continue;
+
+      const suggestions = suggestSpelling(word, DEFAULT_SUGGESTION_LIMIT, locale);
+      const start = chunk.index + match.index;
+      const misspelling: Misspelling = { word, start, end: start + word.length, suggestions };
+      const correction = confidentCorrection(word.toLowerCase(), suggestions);
+      if (correction !== undefined) {
+        misspelling.correction = correction;
+      }
+      misspellings.push(misspelling);
+    }
+  }
+
+  return misspellings;
+}
@@ -1,3 +1,13 @@
+import { RuleCategory, RuleFilter, RuleIdentity, isRuleActive } from './ruleFilter';
+import { SuppressionOptions, SuppressionReport, parseSuppressions, applySuppressions } from './suppression';
+import { segmentSentences } from './sentenceSegmenter';
+import { createLineIndex, offsetToPosition } from './textPositions';
+import { EnglishLocale, LocaleOptions, ENGLISH_LOCALES, findVariantSpellings, inferLocale } from './localeVariants';
+import { TypographyPreferences, TypographyRuleId, findTypographyIssues } from './typography';
+import { ReadabilityOptions, ReadabilityScope, analyzeReadability } from './readability';
+import { compileReplacement } from './replacements';
+import { RulePackInfo, RulePackSnapshot, describeRulePack, isRecord, packIdFromPath, parseRulePack, readRulePackFile, selfTestRulePack } from './rulePacks';
+
 export enum SeverityLevel {
   INFO = 'info',
   WARNING = 'warning',
@@ -6,28 +16,127 @@ export enum SeverityLevel {
 
 export interface Suggestion {
   type: string;
+  // Stable id of the rule that produced this suggestion
+  ruleId: string;
   message: string;
   explanation: string;
   severity: SeverityLevel;
   line: number;
   column: number;
+  // Absolute character offsets into the checked text (end is exclusive)
+  start: number;
+  end: number;
   suggestion?: string;
 }
 
+export interface StyleCheckOptions extends SuppressionOptions, LocaleOptions {
+  // Narrows the rules run for this call, on top of the service-wide filter
+  rules?: RuleFilter;
+  // House typography preferences for this call; false turns the pack off.
+  // Defaults to the service-wide preferences (off unless set)
+  typography?: TypographyPreferences | false;
+  // Readability thresholds for this call; false turns the checks off.
+  // Defaults to the service-wide options (off unless set)
+  readability?: ReadabilityOptions | false;
+}
+
+// Reported suggestions plus those hidden by directives or ignore ranges
+export type StyleReport = SuppressionReport<Suggestion>;
+
 interface StyleRule {
+  id: string;
   type: string;
+  category: RuleCategory;
   pattern: RegExp;
   message: string;
   explanation: string;
   severity: SeverityLevel;
-  replacement?: (match: RegExpMatchArray) => string;
+  // Builds the suggested text; undefined when the rule has no fix for this match
+  replacement?: (match: RegExpMatchArray) => string | undefined;
+  // Locales the rule applies to; every locale when omitted
+  locales?: EnglishLocale[];
+}
+
+// The sentence length check is not a regex rule but is filtered like one
+const SENTENCE_LENGTH_RULE: RuleIdentity = {
+  id: 'sentence-length',
+  type: 'sentence-length',
+  category: 'style'
+};
+
+// Identities of the optional typography pack (see typography.ts)
+const TYPOGRAPHY_RULES: Array<RuleIdentity & { id: TypographyRuleId }> = [
+  { id: 'typography-quotes', type: 'typography', category: 'style' },
+  { id: 'typography-dashes', type: 'typography', category: 'style' },
+  { id: 'typography-ellipsis', type: 'typography', category: 'style' },
+  { id: 'typography-unit-space', type: 'typography', category: 'style' },
+  { id: 'typography-sentence-spacing', type: 'typography', category: 'style' }
+];
+
+// Readability warnings (see readability.ts): whole paragraphs or the document, and single sentences
+const READABILITY_GRADE_RULE: RuleIdentity = { id: 'readability-grade', type: 'readability', category: 'style' };
+const READABILITY_SENTENCE_RULE: RuleIdentity = { id: 'readability-sentence', type: 'readability', category: 'style' };
+
+// Service-wide typography preferences; null keeps the pack off
+let typographyPreferences: TypographyPreferences | null = null;
+
+// Service-wide readability options; null keeps the checks off
+let readabilityOptions: ReadabilityOptions | null = null;
+
+// Service-wide rule filter, kept in sync with plugin settings by SettingsService
+let activeRuleFilter: RuleFilter = {};
+
+/**
+ * Set the service-wide style rule filter
+ * @param filter - Rules to enable/disable by id, type or category
+ */
+export function setStyleRuleFilter(filter: RuleFilter): void {
+  activeRuleFilter = { ...filter };
+}
+
+export function getStyleRuleFilter(): RuleFilter {
+  return { ...activeRuleFilter };
+}
+
+/**
+ * Turn on the typography rule pack with the given house preferences, or off with null
+ * @param preferences - Quote, dash and ellipsis style and spacing checks
+ */
+export function setTypographyPreferences(preferences: TypographyPreferences | null): void {
+  typographyPreferences = preferences ? { ...preferences } : null;
+}
+
+export function getTypographyPreferences(): TypographyPreferences | null {
+  return typographyPreferences ? { ...typographyPreferences } : null;
+}
+
+/**
+ * Turn on readability warnings for a target audience, or off with null
+ * @param options - Audience (or custom thresholds) that sets the warning thresholds
+ */
+export function setReadabilityOptions(options: ReadabilityOptions | null): void {
+  readabilityOptions = options ? { ...options } : null;
 }
 
+export function getReadabilityOptions(): ReadabilityOptions | null {
+  return readabilityOptions ? { ...readabilityOptions } : null;
+}
+
+// American past tense of the British "-t" forms matched by the irregular-past-t rule
+const AMERICAN_PAST_FORMS: Record<string, string> = {
+  learnt: 'learned',
+  spelt: 'spelled',
+  spoilt: 'spoiled',
+  dreamt: 'dreamed'
+};
+
 // Style guide rules for clarity and conciseness
-const STYLE_RULES: StyleRule[] = [
+const BUILT_IN_STYLE_RULES: StyleRule[] = [
   // Passive voice detection
   {
+    id: 'passive-voice',
     type: 'passive-voice',
+    category: 'style',
     pattern: /\b(was|were|is|are|been|be)\s+\w+\s+by\b/gi,
     message: 'Consider using active voice instead of passive voice',
     explanation: 'Active voice makes writing more direct and engaging than passive voice.',
@@ -44,7 +153,9 @@ const STYLE_RULES: StyleRule[] = [
   
   // Wordy phrases
   {
+    id: 'in-order-to',
     type: 'wordiness',
+    category: 'style',
     pattern: /\bin order to\b/gi,
     message: 'Replace wordy phrase with simpler alternative',
     explanation: 'Concise writing is more effective.',
@@ -52,7 +163,9 @@ const STYLE_RULES: StyleRule[] = [
     replacement: () => 'To'
   },
   {
+    id: 'due-to-the-fact-that',
     type: 'wordiness',
+    category: 'style',
     pattern: /\bdue to the fact that\b/gi,
     message: 'Replace wordy phrase with simpler alternative',
     explanation: 'Concise writing is more effective.',
@@ -62,7 +175,9 @@ const STYLE_RULES: StyleRule[] = [
   
   // Vague language
   {
+    id: 'vague-language',
     type: 'vague-language',
+    category: 'style',
     pattern: /\b(thing|stuff|very|really|quite|pretty)\b/gi,
     message: 'Avoid vague language - consider using more specific words',
     explanation: 'Specific words convey meaning more effectively.',
@@ -71,70 +186,194 @@ const STYLE_RULES: StyleRule[] = [
   
   // Redundancy
   {
+    id: 'filler-opinion',
     type: 'redundancy',
+    category: 'style',
     pattern: /\b(personally believe|in my opinion|I think that)\b/gi,
     message: 'Remove redundant phrase',
     explanation: 'These phrases add no meaningful information.',
     severity: SeverityLevel.WARNING
   },
   {
+    id: 'redundant-modifier',
     type: 'redundancy',
+    category: 'style',
     pattern: /\b(absolutely essential|completely finished|totally unique)\b/gi,
     message: 'Remove redundant modifier',
     explanation: 'These adjectives are already implied by the noun.',
     severity: SeverityLevel.WARNING
+  },
+
+  // Locale vocabulary
+  {
+    id: 'whilst',
+    type: 'locale-vocabulary',
+    category: 'style',
+    pattern: /\bwhilst\b/gi,
+    message: 'Use "while" in American and Canadian English',
+    explanation: '"Whilst" reads as British and sounds formal to North American readers.',
+    severity: SeverityLevel.INFO,
+    replacement: (match) => matchCase(match[0], 'while'),
+    locales: ['en-US', 'en-CA']
+  },
+  {
+    id: 'amongst',
+    type: 'locale-vocabulary',
+    category: 'style',
+    pattern: /\bamongst\b/gi,
+    message: 'Use "among" in American and Canadian English',
+    explanation: '"Amongst" is rare in North American writing.',
+    severity: SeverityLevel.INFO,
+    replacement: (match) => matchCase(match[0], 'among'),
+    locales: ['en-US', 'en-CA']
+  },
+  {
+    id: 'irregular-past-t',
+    type: 'locale-vocabulary',
+    category: 'style',
+    pattern: /\b(learnt|spelt|spoilt|dreamt)\b/gi,
+    message: 'Use the "-ed" past tense in American English',
+    explanation: 'American English prefers "learned", "spelled", "spoiled" and "dreamed".',
+    severity: SeverityLevel.INFO,
+    replacement: (match) => matchCase(match[0], AMERICAN_PAST_FORMS[match[0].toLowerCase()]),
+    locales: ['en-US']
+  },
+  {
+    id: 'toward',
+    type: 'locale-vocabulary',
+    category: 'style',
+    pattern: /\btoward\b/gi,
+    message: 'Use "towards" in British and Australian English',
+    explanation: '"Toward" is the American form.',
+    severity: SeverityLevel.INFO,
+    replacement: (match) => matchCase(match[0], 'towards'),
+    locales: ['en-GB', 'en-AU']
+  },
+  {
+    id: 'gotten',
+    type: 'locale-vocabulary',
+    category: 'style',
+    pattern: /\bgotten\b/gi,
+    message: 'Consider "got" in British and Australian English',
+    explanation: '"Gotten" is American; British and Australian English use "got".',
+    severity: SeverityLevel.INFO,
+    replacement: (match) => matchCase(match[0], 'got'),
+    locales: ['en-GB', 'en-AU']
   }
 ];
 
+// Rules in use: the built-ins merged with every loaded rule pack
+const STYLE_RULES: StyleRule[] = [...BUILT_IN_STYLE_RULES];
+
+// Rules contributed by each loaded pack, by pack id
+const styleRulePacks = new Map<string, { info: RulePackInfo; config: unknown; rules: StyleRule[] }>();
+
+// Bumped by rebuildStyleRules
+let rulesVersion = 0;
+
+/**
+ * Apply the capitalization of `source` to `replacement`
+ */
+function matchCase(source: string, replacement: string): string {
+  if (source.length > 1 && source === source.toUpperCase()) {
+    return replacement.toUpperCase();
+  }
+  if (source[0] === source[0].toUpperCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
 /**
  * Style suggestion service that reads style guide and suggests improvements
  * Loads style rules from configuration and provides suggestions with explanations
  * 
  * @param text - The text to analyze for style improvements
+ * @param options - Optional per-call rule filter, locale, ignore ranges and directive handling
  * @returns Array of Suggestion objects with improvement recommendations
  */
-export function suggestStyle(text: string): Suggestion[] {
+export function suggestStyle(text: string, options: StyleCheckOptions = {}): Suggestion[] {
+  return suggestStyleReport(text, options).results;
+}
+
+/**
+ * Same as suggestStyle, but also reports the suggestions that inline
+ * `opengrammer-disable` directives or `ignoreRanges` suppressed
+ *
+ * @param text - The text to analyze for style improvements
+ * @param options - Optional per-call rule filter, locale, ignore ranges and directive handling
+ * @returns Reported and suppressed suggestions
+ */
+export function suggestStyleReport(text: string, options: StyleCheckOptions = {}): StyleReport {
   if (!text || text.trim().length === 0) {
-    return [];
+    return { results: [], suppressed: [] };
   }
 
   const suggestions: Suggestion[] = [];
   const lines = text.split('\n');
+  // Without a configured locale, follow the variant the text is written in, as checkGrammar does
+  const locale = options.locale || inferLocale(findVariantSpellings(text), options);
+  const rules = STYLE_RULES.filter(rule =>
+    isRuleActive(rule, activeRuleFilter, options.rules) && (!rule.locales || rule.locales.includes(locale))
+  );
+  const checkLength = isRuleActive(SENTENCE_LENGTH_RULE, activeRuleFilter, options.rules);
+
+  // Sentences can wrap across lines, so length is checked on the whole text
+  if (checkLength) {
+    suggestions.push(...checkSentenceLength(text));
+  }
+
+  const typography = options.typography !== undefined ? options.typography : typographyPreferences;
+  if (typography) {
+    const activeTypography = TYPOGRAPHY_RULES.filter(rule => isRuleActive(rule, activeRuleFilter, options.rules));
+    suggestions.push(...checkTypography(text, typography, activeTypography.map(rule => rule.id)));
+  }
+
+  const readability = options.readability !== undefined ? options.readability : readabilityOptions;
+  if (readability) {
+    const scopes: ReadabilityScope[] = [
+      ...(isRuleActive(READABILITY_GRADE_RULE, activeRuleFilter, options.rules) ? ['document', 'paragraph'] as ReadabilityScope[] : []),
+      ...(isRuleActive(READABILITY_SENTENCE_RULE, activeRuleFilter, options.rules) ? ['sentence'] as ReadabilityScope[] : [])
+    ];
+    suggestions.push(...checkReadability(text, readability, scopes));
+  }
 
   // Process each line
+  let lineOffset = 0;
   lines.forEach((line, lineIndex) => {
     const lineNumber = lineIndex + 1;
     
-    // Check sentence length
-    const sentenceLengthSuggestions = checkSentenceLength(line, lineNumber);
-    suggestions.push(...sentenceLengthSuggestions);
-    
     // Check style rules
-    const styleSuggestions = checkStyleRules(line, lineNumber);
+    const styleSuggestions = checkStyleRules(line, lineNumber, lineOffset, rules);
     suggestions.push(...styleSuggestions);
+    
+    lineOffset += line.length + 1; // +1 for the newline
   });
 
-  return suggestions;
+  return applySuppressions(suggestions, 'style', parseSuppressions(text, options));
 }
 
 /**
  * Check for overly long sentences that should be broken down
+ * Uses the same sentence segmentation as the grammar engine
  */
-function checkSentenceLength(line: string, lineNumber: number): Suggestion[] {
+function checkSentenceLength(text: string): Suggestion[] {
   const suggestions: Suggestion[] = [];
-  const sentences = line.split(/[.!?]+/);
-  
-  sentences.forEach(sentence => {
-    const trimmed = sentence.trim();
-    if (trimmed.length > 100) { // Arbitrary threshold for demonstration
-      const column = line.indexOf(trimmed) + 1;
+  const lineIndex = createLineIndex(text);
+
+  segmentSentences(text).forEach(sentence => {
+    if (sentence.text.length > 100) { // Arbitrary threshold for demonstration
+      const position = offsetToPosition(lineIndex, sentence.start);
       suggestions.push({
-        type: 'sentence-length',
+        type: SENTENCE_LENGTH_RULE.type,
+        ruleId: SENTENCE_LENGTH_RULE.id,
         message: 'Consider breaking this long sentence into shorter ones',
         explanation: 'Shorter sentences improve readability and comprehension',
         severity: SeverityLevel.WARNING,
-        line: lineNumber,
-        column: column
+        line: position.line,
+        column: position.column,
+        start: sentence.start,
+        end: sentence.end
       });
     }
   });
@@ -142,24 +381,82 @@ function checkSentenceLength(line: string, lineNumber: number): Suggestion[] {
   return suggestions;
 }
 
+/**
+ * Readability warnings for the audience's thresholds, limited to the given scopes
+ */
+function checkReadability(text: string, options: ReadabilityOptions, scopes: ReadabilityScope[]): Suggestion[] {
+  if (scopes.length === 0) {
+    return [];
+  }
+
+  const lineIndex = createLineIndex(text);
+  return analyzeReadability(text, options).warnings
+    .filter(warning => scopes.includes(warning.scope))
+    .map(warning => {
+      const rule = warning.scope === 'sentence' ? READABILITY_SENTENCE_RULE : READABILITY_GRADE_RULE;
+      const position = offsetToPosition(lineIndex, warning.start);
+      return {
+        type: rule.type,
+        ruleId: rule.id,
+        message: warning.message,
+        explanation: warning.scope === 'sentence'
+          ? 'Long sentences with many long words are harder to follow for the target audience'
+          : 'Readability scores estimate the school grade a reader needs; this text is above the target audience\'s level',
+        severity: SeverityLevel.WARNING,
+        line: position.line,
+        column: position.column,
+        start: warning.start,
+        end: warning.end
+      };
+    });
+}
+
+/**
+ * Typography pack over the whole text; quotes and dashes may sit at line breaks
+ */
+function checkTypography(text: string, preferences: TypographyPreferences, ruleIds: TypographyRuleId[]): Suggestion[] {
+  const lineIndex = createLineIndex(text);
+
+  return findTypographyIssues(text, preferences)
+    .filter(issue => ruleIds.includes(issue.ruleId))
+    .map(issue => {
+      const position = offsetToPosition(lineIndex, issue.start);
+      return {
+        type: 'typography',
+        ruleId: issue.ruleId,
+        message: issue.message,
+        explanation: issue.explanation,
+        severity: SeverityLevel.INFO,
+        line: position.line,
+        column: position.column,
+        start: issue.start,
+        end: issue.end,
+        suggestion: issue.replacement
+      };
+    });
+}
+
 /**
  * Check style rules against a line of text
  */
-function checkStyleRules(line: string, lineNumber: number): Suggestion[] {
+function checkStyleRules(line: string, lineNumber: number, lineOffset: number, rules: StyleRule[]): Suggestion[] {
   const suggestions: Suggestion[] = [];
 
-  STYLE_RULES.forEach(rule => {
+  rules.forEach(rule => {
     let match;
     const regex = new RegExp(rule.pattern.source, rule.pattern.flags);
     
     while ((match = regex.exec(line)) !== null) {
       const suggestion: Suggestion = {
         type: rule.type,
+        ruleId: rule.id,
         message: rule.message,
         explanation: rule.explanation,
         severity: rule.severity,
         line: lineNumber,
-        column: match.index + 1
+        column: match.index + 1,
+        start: lineOffset + match.index,
+        end: lineOffset + match.index + match[0].length
       };
       
       // Add replacement suggestion if available
@@ -189,61 +486,79 @@ function checkStyleRules(line: string, lineNumber: number): Suggestion[] {
       
       // Prevent infinite loop for global regex
       if (!rule.pattern.global) break;
+      // An empty match leaves lastIndex where it was
+      if (match[0].length === 0) regex.lastIndex++;
     }
   });
 
   return suggestions;
 }
 
-import * as fs from 'fs';
+/**
+ * Load a style rule pack (see rulePacks) and merge it into the active rules
+ * Built-in rules stay; a pack rule with a built-in's id replaces it, and loading
+ * a pack again replaces the rules it loaded before. A pack for a specific
+ * locale ("en-GB") only applies to that locale. The pack's examples and tests
+ * must pass before it is merged.
+ * @param configPath - Path to the JSON rule pack
+ * @returns Summary of the loaded pack
+ * @throws Error if the file cannot be read or parsed, the pack is invalid, or its self-tests fail
+ */
+export function loadStyleGuide(configPath: string): RulePackInfo {
+  let config: unknown;
+  try {
+    config = readRulePackFile(configPath);
+  } catch (error) {
+    throw new Error(`Failed to load style guide: ${(error as Error).message}`);
+  }
+  return loadStyleRulePack(config, configPath);
+}
 
 /**
- * Load style rules from JSON configuration file
- * Supports pluggable architecture for style rule definitions
- * @param configPath - Path to the JSON configuration file
- * @throws Error if the file cannot be read or parsed, or if the configuration is invalid
+ * Load a style rule pack from parsed JSON, as loadStyleGuide does for a file
+ * @param config - Parsed pack
+ * @param file - File the pack came from; names packs without an id
+ * @returns Summary of the loaded pack
+ * @throws Error if the pack is invalid or its self-tests fail
  */
-export function loadStyleGuide(configPath: string): void {
+export function loadStyleRulePack(config: unknown, file?: string): RulePackInfo {
   try {
-    // Read the configuration file
-    const configData = fs.readFileSync(configPath, 'utf8');
-    const config = JSON.parse(configData);
-    
     // Validate the configuration structure
-    if (!Array.isArray(config.rules)) {
+    if (!isRecord(config) || !Array.isArray(config.rules)) {
       throw new Error('Configuration must contain a "rules" array');
     }
     
-    // Map configuration to StyleRule objects
-    const loadedRules: StyleRule[] = config.rules.map((rule: any, index: number) => {
-      if (!rule.type || !rule.pattern || !rule.message || !rule.explanation || !rule.severity) {
-        throw new Error(`Rule at index ${index} is missing required properties`);
-      }
-      
-      // Validate severity
-      if (!['info', 'warning', 'error'].includes(rule.severity)) {
-        throw new Error(`Invalid severity: ${rule.severity} at index ${index}`);
-      }
-      
-      try {
-        // Compile regex pattern
-        return {
-          type: rule.type,
-          pattern: new RegExp(rule.pattern, rule.flags || ''),
-          message: rule.message,
-          explanation: rule.explanation,
-          severity: rule.severity as SeverityLevel,
-          replacement: rule.replacement ? new Function('match', rule.replacement) as (match: RegExpMatchArray) => string : undefined
-        };
-      } catch (error) {
-        throw new Error(`Invalid regex pattern at index ${index}: ${rule.pattern}`);
-      }
+    const pack = parseRulePack(config, file ? packIdFromPath(file) : 'custom', {
+      severities: ['info', 'warning', 'error'],
+      requireExplanation: true
     });
+    const locales = (ENGLISH_LOCALES as string[]).includes(pack.language) ? [pack.language as EnglishLocale] : undefined;
+    const rules: StyleRule[] = pack.rules.map(rule => {
+      const pattern = new RegExp(rule.pattern, rule.flags || '');
+      return {
+        id: rule.id,
+        type: rule.type,
+        category: 'style' as RuleCategory,
+        pattern,
+        message: rule.message,
+        explanation: rule.explanation!,
+        severity: rule.severity as SeverityLevel,
+        // Declarative only: replacements are templates and lookup tables, never code
+        replacement: rule.replacement !== undefined ? compileReplacement(rule.replacement, pattern) : undefined,
+        locales
+      };
+    });
+
+    // Examples are checked whatever the pack's locale
+    const failures = selfTestRulePack(pack, text => firedPackRules(text, rules));
+    if (failures.length > 0) {
+      throw new Error(`Rule pack "${pack.id}" failed its self-tests: ${failures.join('; ')}`);
+    }
     
-    // Replace existing rules with loaded rules
-    STYLE_RULES.length = 0;
-    STYLE_RULES.push(...loadedRules);
-    
+    const info = { ...describeRulePack(pack), file };
+    styleRulePacks.set(pack.id, { info, config, rules });
+    rebuildStyleRules();
+    return info;
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Failed to load style guide: ${error.message}`);
@@ -253,6 +568,73 @@ export function loadStyleGuide(configPath: string): void {
   }
 }
 
+/**
+ * Remove a loaded style rule pack, restoring any built-in rules it replaced
+ * @param packId - Id of the pack
+ * @returns True if the pack was loaded
+ */
+export function unloadStyleRulePack(packId: string): boolean {
+  const removed = styleRulePacks.delete(packId);
+  if (removed) {
+    rebuildStyleRules();
+  }
+  return removed;
+}
+
+/**
+ * Summaries of the loaded style rule packs, in load order
+ */
+export function listStyleRulePacks(): RulePackInfo[] {
+  return [...styleRulePacks.values()].map(pack => ({ ...pack.info }));
+}
+
+/**
+ * The loaded style packs' validated JSON, in load order (see loadStyleRulePack)
+ */
+export function exportStyleRulePacks(): RulePackSnapshot[] {
+  return [...styleRulePacks.values()].map(pack => ({ id: pack.info.id, file: pack.info.file, config: pack.config }));
+}
+
+/**
+ * Ids of `rules` that fire on `text`, run line by line as suggestStyle runs them
+ */
+function firedPackRules(text: string, rules: StyleRule[]): string[] {
+  return text.split('\n').flatMap(line => checkStyleRules(line, 1, 0, rules).map(suggestion => suggestion.ruleId));
+}
+
+/**
+ * Rebuild the active style rules from the built-ins and the loaded packs
+ * Later rules replace earlier ones with the same id, in place
+ */
+function rebuildStyleRules(): void {
+  const rulesById = new Map<string, StyleRule>();
+  for (const rule of BUILT_IN_STYLE_RULES) {
+    rulesById.set(rule.id, rule);
+  }
+  for (const pack of styleRulePacks.values()) {
+    pack.rules.forEach(rule => rulesById.set(rule.id, rule));
+  }
+
+  STYLE_RULES.length = 0;
+  STYLE_RULES.push(...rulesById.values());
+  rulesVersion++;
+}
+
+/**
+ * Version of the loaded style rules; changes whenever a pack is loaded, reloaded or removed
+ */
+export function getStyleRulesVersion(): number {
+  return rulesVersion;
+}
+
+/**
+ * List the identity of every style rule, including the sentence length check
+ * @returns Rule ids, types and categories in evaluation order
+ */
+export function listStyleRules(): RuleIdentity[] {
+  return [SENTENCE_LENGTH_RULE, ...TYPOGRAPHY_RULES, READABILITY_GRADE_RULE, READABILITY_SENTENCE_RULE, ...STYLE_RULES].map(({ id, type, category }) => ({ id, type, category }));
+}
+
 /**
  * Process batch analysis of paragraphs for comprehensive style checking
  */
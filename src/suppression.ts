@@ -0,0 +1,190 @@
+import type { RuleCategory } from './ruleFilter';
+
+/**
+ * Inline suppression directives and caller-supplied ignore ranges
+ *
+ * Supported directives (HTML comments, so they stay invisible in rendered Markdown):
+ *   <!-- opengrammer-disable -->                      disable every rule until re-enabled
+ *   <!-- opengrammer-disable passive-voice, spelling --> disable the listed rules
+ *   <!-- opengrammer-enable [rules] -->                re-enable all or the listed rules
+ *   <!-- opengrammer-disable-next-line [rules] -->     disable all or the listed rules on the next line
+ * Rules are named by id, type or category, as in RuleFilter
+ */
+
+export interface IgnoreRange {
+  start: number;
+  end: number;
+}
+
+export interface SuppressionOptions {
+  // Character ranges of the checked text whose issues are dropped
+  ignoreRanges?: IgnoreRange[];
+  // Honour opengrammer-* directive comments in the text (default true)
+  directives?: boolean;
+}
+
+export type SuppressionReason = 'directive' | 'ignore-range';
+
+export type SuppressedResult<T> = T & { suppressedBy: SuppressionReason };
+
+export interface SuppressionReport<T> {
+  results: T[];
+  suppressed: Array<SuppressedResult<T>>;
+}
+
+// Minimal shape of a grammar or style result that can be suppressed
+export interface SuppressibleResult {
+  ruleId: string;
+  type: string;
+  start: number;
+  end: number;
+}
+
+type DirectiveKind = 'disable' | 'enable' | 'disable-next-line';
+
+interface DirectiveEvent {
+  kind: 'disable' | 'enable';
+  offset: number;
+  // Empty means every rule
+  rules: string[];
+}
+
+interface LineSuppression {
+  start: number;
+  end: number;
+  rules: string[];
+}
+
+export interface Suppressions {
+  events: DirectiveEvent[];
+  lines: LineSuppression[];
+  // Spans of the directive comments themselves, never checked
+  comments: IgnoreRange[];
+  ignoreRanges: IgnoreRange[];
+}
+
+const DIRECTIVE_PATTERN = /<!--\s*opengrammer-(disable-next-line|disable|enable)\b([^>]*?)\s*-->/g;
+
+/**
+ * Parse directive comments from text and combine them with caller ignore ranges
+ * @param text - The text being checked
+ * @param options - Ignore ranges and whether directives are honoured
+ * @returns Suppression state to pass to applySuppressions
+ */
+export function parseSuppressions(text: string, options: SuppressionOptions = {}): Suppressions {
+  const suppressions: Suppressions = {
+    events: [],
+    lines: [],
+    comments: [],
+    ignoreRanges: (options.ignoreRanges || []).filter(range => range.end >= range.start)
+  };
+
+  // Fast path: most text has no directives at all
+  if (options.directives === false || !text.includes('opengrammer-')) {
+    return suppressions;
+  }
+
+  DIRECTIVE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = DIRECTIVE_PATTERN.exec(text)) !== null) {
+    const kind = match[1] as DirectiveKind;
+    const rules = match[2].split(/[\s,]+/).filter(rule => rule.length > 0);
+    const commentEnd = match.index + match[0].length;
+    suppressions.comments.push({ start: match.index, end: commentEnd });
+
+    if (kind === 'disable-next-line') {
+      const lineBreak = text.indexOf('\n', commentEnd);
+      if (lineBreak !== -1) {
+        const nextLineEnd = text.indexOf('\n', lineBreak + 1);
+        suppressions.lines.push({
+          start: lineBreak + 1,
+          end: nextLineEnd === -1 ? text.length : nextLineEnd,
+          rules
+        });
+      }
+    } else {
+      suppressions.events.push({ kind, offset: commentEnd, rules });
+    }
+  }
+
+  return suppressions;
+}
+
+function ruleMatches(result: SuppressibleResult, category: RuleCategory, entries: string[]): boolean {
+  return entries.length === 0 ||
+    entries.includes(result.ruleId) || entries.includes(result.type) || entries.includes(category);
+}
+
+function overlaps(result: SuppressibleResult, range: IgnoreRange): boolean {
+  if (result.start === result.end) {
+    return result.start >= range.start && result.start < range.end;
+  }
+  return result.start < range.end && range.start < result.end;
+}
+
+/**
+ * Replay disable/enable directives up to the result's position
+ */
+function isDisabledByDirective(result: SuppressibleResult, category: RuleCategory, events: DirectiveEvent[]): boolean {
+  let disabled = false;
+
+  for (const event of events) {
+    if (event.offset > result.start) break;
+    if (ruleMatches(result, category, event.rules)) {
+      disabled = event.kind === 'disable';
+    }
+  }
+
+  return disabled;
+}
+
+function suppressionReason(
+  result: SuppressibleResult,
+  category: RuleCategory,
+  suppressions: Suppressions
+): SuppressionReason | null {
+  if (suppressions.ignoreRanges.some(range => overlaps(result, range))) {
+    return 'ignore-range';
+  }
+  if (suppressions.comments.some(range => overlaps(result, range))) {
+    return 'directive';
+  }
+  if (suppressions.lines.some(line => overlaps(result, line) && ruleMatches(result, category, line.rules))) {
+    return 'directive';
+  }
+  if (isDisabledByDirective(result, category, suppressions.events)) {
+    return 'directive';
+  }
+  return null;
+}
+
+/**
+ * Split results into those still reported and those suppressed by directives or ignore ranges
+ * @param results - Grammar or style results with absolute offsets
+ * @param category - Category of the engine that produced the results
+ * @param suppressions - State from parseSuppressions for the same text
+ */
+export function applySuppressions<T extends SuppressibleResult>(
+  results: T[],
+  category: RuleCategory,
+  suppressions: Suppressions
+): SuppressionReport<T> {
+  const report: SuppressionReport<T> = { results: [], suppressed: [] };
+
+  if (suppressions.events.length === 0 && suppressions.lines.length === 0 &&
+      suppressions.comments.length === 0 && suppressions.ignoreRanges.length === 0) {
+    report.results = results;
+    return report;
+  }
+
+  for (const result of results) {
+    const reason = suppressionReason(result, category, suppressions);
+    if (reason) {
+      report.suppressed.push({ ...result, suppressedBy: reason });
+    } else {
+      report.results.push(result);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,255 @@
+import nlp from 'compromise';
+import { TaggedTerm, tagTerms, hasTag, startsVerbGroup } from './posTagging';
+import { SentenceSpan, segmentSentences } from './sentenceSegmenter';
+
+/**
+ * Paragraph-level tense consistency
+ * Every finite verb is classed as past or present from compromise's tense tags;
+ * the paragraph's dominant narrative tense is the clear majority of those verbs,
+ * and verbs that shift away from it without a reason are reported. Quotations,
+ * reported speech, relative clauses and matching time adverbials are reasons.
+ */
+
+export type NarrativeTense = 'past' | 'present';
+
+export interface TenseShift {
+  // The shifted verb; offsets into the analysed text
+  start: number;
+  end: number;
+  text: string;
+  tense: NarrativeTense;
+  expected: NarrativeTense;
+  // Paragraph majority, the verb it is coordinated with ("went ... and buy"),
+  // or a past time adverbial opening the sentence ("Yesterday I go")
+  reason: 'paragraph' | 'coordination' | 'adverbial';
+  // Verb in the expected tense, when it can be formed without knowing the subject
+  suggestion?: string;
+}
+
+export interface ParagraphTense {
+  start: number;
+  end: number;
+  // Null when the paragraph has no clear majority
+  dominant: NarrativeTense | null;
+  past: number;
+  present: number;
+  shifts: TenseShift[];
+}
+
+interface Clause {
+  term: TaggedTerm;
+  // Offset of the sentence the term was tagged in
+  offset: number;
+  tense: NarrativeTense;
+  // Quoted, reported or otherwise allowed to differ from the narrative tense
+  exempt: boolean;
+  // Previous clause of the same sentence when joined to it by "and", "but", "or" or "then"
+  coordinatedWith?: Clause;
+  // Set when a fronted past adverbial contradicts a present-tense verb
+  adverbialConflict?: boolean;
+}
+
+// Share of tensed clauses the majority tense needs to count as dominant
+const DOMINANCE_THRESHOLD = 0.6;
+const MIN_CLAUSES = 2;
+
+// Auxiliaries compromise does not always tag with a tense
+const AUXILIARY_TENSE: Record<string, NarrativeTense> = {
+  'was': 'past', 'were': 'past', 'had': 'past', 'did': 'past',
+  'wasn\'t': 'past', 'weren\'t': 'past', 'hadn\'t': 'past', 'didn\'t': 'past',
+  'is': 'present', 'are': 'present', 'am': 'present', 'has': 'present', 'have': 'present',
+  'does': 'present', 'do': 'present', 'isn\'t': 'present', 'aren\'t': 'present',
+  'hasn\'t': 'present', 'haven\'t': 'present', 'doesn\'t': 'present', 'don\'t': 'present'
+};
+
+// Forms of the auxiliaries in the past tense; "have" and "be" depend only on the word
+const PAST_AUXILIARIES: Record<string, string> = {
+  'is': 'was', 'am': 'was', 'are': 'were', 'isn\'t': 'wasn\'t', 'aren\'t': 'weren\'t',
+  'has': 'had', 'have': 'had', 'hasn\'t': 'hadn\'t', 'haven\'t': 'hadn\'t',
+  'does': 'did', 'do': 'did', 'doesn\'t': 'didn\'t', 'don\'t': 'didn\'t'
+};
+
+// Verbs that introduce reported speech or thought; what follows keeps its own tense
+const REPORTING_VERBS = new Set([
+  'say', 'says', 'said', 'tell', 'tells', 'told', 'ask', 'asks', 'asked', 'explain', 'explains', 'explained',
+  'think', 'thinks', 'thought', 'believe', 'believes', 'believed', 'know', 'knows', 'knew',
+  'claim', 'claims', 'claimed', 'report', 'reports', 'reported', 'write', 'writes', 'wrote',
+  'mention', 'mentions', 'mentioned', 'note', 'notes', 'noted', 'feel', 'feels', 'felt',
+  'realize', 'realizes', 'realized', 'realise', 'realises', 'realised', 'hope', 'hopes', 'hoped',
+  'remember', 'remembers', 'remembered', 'argue', 'argues', 'argued', 'announce', 'announces', 'announced'
+]);
+
+const PAST_ADVERBIALS = /\b(yesterday|ago|last (night|week|month|year|time|summer|winter|spring|autumn|fall)|previously|earlier|formerly|originally|once|back then|in (1[0-9]|20)\d\d)\b/i;
+const PRESENT_ADVERBIALS = /\b(today|tonight|now|nowadays|currently|these days|at the moment|tomorrow|next (week|month|year|time)|soon|still|always|usually|generally|often|every (day|week|month|year|morning))\b/i;
+
+// Past adverbials that open a sentence set its time frame outright
+const FRONTED_PAST_ADVERBIAL = /^\W*(yesterday|last (night|week|month|year|summer|winter|spring|autumn|fall)|\w+ (days|weeks|months|years) ago|in (1[0-9]|20)\d\d)\b/i;
+
+const COORDINATORS = new Set(['and', 'but', 'or', 'then']);
+const RELATIVE_PRONOUNS = new Set(['who', 'which', 'that']);
+const QUOTE_PATTERN = /["“][^"”]*["”]/g;
+
+/**
+ * Tense of a verb that starts its verb group, or null for modals, futures and imperatives
+ */
+function verbTense(term: TaggedTerm): NarrativeTense | null {
+  if (AUXILIARY_TENSE[term.normal]) return AUXILIARY_TENSE[term.normal];
+  if (hasTag(term, 'Modal', 'Imperative', 'Gerund', 'FutureTense')) return null;
+  if (hasTag(term, 'PastTense')) return 'past';
+  if (hasTag(term, 'PresentTense')) return 'present';
+  return null;
+}
+
+function quotedRanges(text: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  QUOTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = QUOTE_PATTERN.exec(text)) !== null) {
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+}
+
+function previousWord(terms: TaggedTerm[], index: number): TaggedTerm | null {
+  for (let i = index - 1; i >= 0; i--) {
+    if (!hasTag(terms[i], 'Adverb') || hasTag(terms[i], 'Noun')) return terms[i];
+  }
+  return null;
+}
+
+/**
+ * Collect the tensed clauses of one sentence
+ */
+function sentenceClauses(sentence: SentenceSpan): Clause[] {
+  const clauses: Clause[] = [];
+  const terms = tagTerms(sentence.text);
+  const quotes = quotedRanges(sentence.text);
+  const hasPastAdverbial = PAST_ADVERBIALS.test(sentence.text);
+  const hasPresentAdverbial = PRESENT_ADVERBIALS.test(sentence.text);
+  const pastFrame = FRONTED_PAST_ADVERBIAL.test(sentence.text) && !hasPresentAdverbial;
+  let reported = false;
+
+  terms.forEach((term, index) => {
+    if (!hasTag(term, 'Verb') || !startsVerbGroup(terms, index)) return;
+
+    const tense = verbTense(term);
+    if (!tense) return;
+
+    const previous = previousWord(terms, index);
+    const quoted = quotes.some(([start, end]) => term.start >= start && term.start < end);
+    const relative = previous !== null && RELATIVE_PRONOUNS.has(previous.normal) && !reported;
+    const anchored = (tense === 'past' && hasPastAdverbial) || (tense === 'present' && hasPresentAdverbial);
+
+    const clause: Clause = {
+      term,
+      offset: sentence.start,
+      tense,
+      exempt: quoted || reported || relative || anchored
+    };
+    if (pastFrame && tense === 'present' && !clause.exempt) {
+      clause.adverbialConflict = true;
+    }
+    if (previous && COORDINATORS.has(previous.normal) && clauses.length > 0) {
+      clause.coordinatedWith = clauses[clauses.length - 1];
+    }
+    clauses.push(clause);
+
+    // Everything after "she said (that)" is reported speech
+    if (REPORTING_VERBS.has(term.normal) && !quoted) {
+      reported = true;
+    }
+  });
+
+  return clauses;
+}
+
+/**
+ * Past tense of a present-tense verb; present forms depend on the subject, so none are offered
+ */
+function toPastTense(term: TaggedTerm): string | undefined {
+  if (PAST_AUXILIARIES[term.normal]) {
+    return PAST_AUXILIARIES[term.normal];
+  }
+  const conjugation = nlp(term.normal).verbs().conjugate()[0] as { PastTense?: string } | undefined;
+  return conjugation?.PastTense || undefined;
+}
+
+function createShift(clause: Clause, expected: NarrativeTense, reason: TenseShift['reason']): TenseShift {
+  const shift: TenseShift = {
+    start: clause.offset + clause.term.start,
+    end: clause.offset + clause.term.end,
+    text: clause.term.text,
+    tense: clause.tense,
+    expected,
+    reason
+  };
+  const suggestion = expected === 'past' ? toPastTense(clause.term) : undefined;
+  if (suggestion) {
+    shift.suggestion = suggestion;
+  }
+  return shift;
+}
+
+/**
+ * Group sentences into paragraphs separated by blank lines
+ */
+function groupParagraphs(text: string, sentences: SentenceSpan[]): SentenceSpan[][] {
+  const paragraphs: SentenceSpan[][] = [];
+  let previousEnd = -1;
+
+  for (const sentence of sentences) {
+    const gap = previousEnd === -1 ? '' : text.slice(previousEnd, sentence.start);
+    if (paragraphs.length === 0 || /\n\s*\n/.test(gap)) {
+      paragraphs.push([]);
+    }
+    paragraphs[paragraphs.length - 1].push(sentence);
+    previousEnd = sentence.end;
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Work out each paragraph's dominant tense and the verbs that shift away from it
+ * @param text - Text to analyse; paragraphs are separated by blank lines
+ * @returns One entry per paragraph, in text order
+ */
+export function analyzeTense(text: string): ParagraphTense[] {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  return groupParagraphs(text, segmentSentences(text)).map(sentences => {
+    const clauses = sentences.flatMap(sentenceClauses);
+    const narrative = clauses.filter(clause => !clause.exempt);
+    const past = narrative.filter(clause => clause.tense === 'past').length;
+    const present = narrative.length - past;
+
+    let dominant: NarrativeTense | null = null;
+    if (narrative.length >= MIN_CLAUSES) {
+      if (past / narrative.length >= DOMINANCE_THRESHOLD) dominant = 'past';
+      else if (present / narrative.length >= DOMINANCE_THRESHOLD) dominant = 'present';
+    }
+
+    const shifts: TenseShift[] = [];
+    for (const clause of narrative) {
+      const partner = clause.coordinatedWith;
+      if (clause.adverbialConflict) {
+        shifts.push(createShift(clause, 'past', 'adverbial'));
+      } else if (partner && !partner.exempt && partner.tense !== clause.tense) {
+        shifts.push(createShift(clause, partner.tense, 'coordination'));
+      } else if (dominant && clause.tense !== dominant) {
+        shifts.push(createShift(clause, dominant, 'paragraph'));
+      }
+    }
+
+    return {
+      start: sentences[0].start,
+      end: sentences[sentences.length - 1].end,
+      dominant,
+      past,
+      present,
+      shifts
+    };
+  });
+}
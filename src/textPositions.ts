@@ -0,0 +1,46 @@
+/**
+ * Conversions between absolute character offsets and 1-based line/column positions
+ */
+
+export interface TextPosition {
+  line: number;
+  column: number;
+}
+
+// Start offset of every line in a text, in ascending order
+export type LineIndex = number[];
+
+/**
+ * Record where each line of the text starts
+ * @param text - Text to index; lines are separated by "\n"
+ */
+export function createLineIndex(text: string): LineIndex {
+  const lineStarts = [0];
+  let index = text.indexOf('\n');
+  while (index !== -1) {
+    lineStarts.push(index + 1);
+    index = text.indexOf('\n', index + 1);
+  }
+  return lineStarts;
+}
+
+/**
+ * Convert an absolute offset to a 1-based line and column using binary search
+ * @param lineIndex - Index from createLineIndex for the same text
+ * @param offset - Character offset into the text
+ */
+export function offsetToPosition(lineIndex: LineIndex, offset: number): TextPosition {
+  let low = 0;
+  let high = lineIndex.length - 1;
+
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineIndex[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return { line: low + 1, column: offset - lineIndex[low] + 1 };
+}
@@ -2,6 +2,11 @@
  * TypeScript type definitions for Settings UI
  */
 
+import type { EnglishLocale } from '../localeVariants';
+import type { OxfordCommaStyle } from '../commaChecker';
+import type { TypographyPreferences } from '../typography';
+import type { ReadabilityAudience } from '../readability';
+
 export interface AppStats {
   cpu: number;
   memory: number;
@@ -16,6 +21,19 @@ export interface PluginConfig {
   category: 'grammar' | 'style';
 }
 
+export interface WritingPreferences {
+  // English variant to check against; inferred from each document when unset
+  locale?: EnglishLocale;
+  // Oxford spelling (-ize) in en-GB and en-AU
+  preferIze?: boolean;
+  // House style for the comma before the last list item; unchecked when unset
+  oxfordComma?: OxfordCommaStyle;
+  // House typography, applied while the typography plugin is enabled
+  typography: TypographyPreferences;
+  // Target audience, applied while the readability plugin is enabled
+  readabilityAudience: ReadabilityAudience;
+}
+
 export interface LLMProvider {
   id: string;
   name: string;
@@ -51,6 +69,10 @@ export interface SettingsIPC {
   // Plugin management
   'plugins:get-config': () => Promise<PluginConfig[]>;
   'plugins:toggle': (pluginId: string, enabled: boolean) => Promise<void>;
+
+  // Writing preferences; set merges the given fields and returns the result
+  'preferences:get': () => Promise<WritingPreferences>;
+  'preferences:set': (preferences: Partial<WritingPreferences>) => Promise<WritingPreferences>;
   
   // Synapse LLM configuration
   'synapse:get-config': () => Promise<SynapseConfig>;
@@ -0,0 +1,223 @@
+/**
+ * Optional typography rule pack for published text: quote style, dashes,
+ * ellipses, non-breaking spaces before units and spacing after sentences.
+ * Every check follows the house preferences and carries a replacement.
+ */
+
+export type QuoteStyle = 'curly' | 'straight';
+// Unspaced em dash (US, Chicago), spaced em dash, or spaced en dash (UK)
+export type DashStyle = 'em' | 'spaced-em' | 'spaced-en';
+export type EllipsisStyle = 'character' | 'periods';
+
+export interface TypographyPreferences {
+  quotes?: QuoteStyle;
+  dashes?: DashStyle;
+  ellipsis?: EllipsisStyle;
+  // Require a non-breaking space between a number and its unit ("5 km")
+  unitSpaces?: boolean;
+  // Flag two or more spaces after sentence-ending punctuation
+  singleSpaceAfterSentence?: boolean;
+}
+
+export type TypographyRuleId =
+  | 'typography-quotes'
+  | 'typography-dashes'
+  | 'typography-ellipsis'
+  | 'typography-unit-space'
+  | 'typography-sentence-spacing';
+
+export interface TypographyIssue {
+  ruleId: TypographyRuleId;
+  // Offsets into the checked text (end is exclusive)
+  start: number;
+  end: number;
+  text: string;
+  replacement: string;
+  message: string;
+  explanation: string;
+}
+
+export const DEFAULT_TYPOGRAPHY: Required<TypographyPreferences> = {
+  quotes: 'curly',
+  dashes: 'em',
+  ellipsis: 'character',
+  unitSpaces: true,
+  singleSpaceAfterSentence: true
+};
+
+const DASH_FORMS: Record<DashStyle, string> = {
+  'em': '—',
+  'spaced-em': ' — ',
+  'spaced-en': ' – '
+};
+
+// Unit symbols that should not be separated from their number by a line break
+const UNIT_PATTERN = /(?<![\w.,])(\d+(?:[.,]\d+)?)( )(km|cm|mm|nm|m|kg|mg|g|lb|lbs|oz|ml|L|GB|MB|KB|TB|Gb|Mb|kB|Hz|kHz|MHz|GHz|°C|°F|ms|µs|ns|kW|W|kWh|V|mA|mph|km\/h|px|pt|dpi)(?![\w/])/g;
+
+const NBSP = '\u00A0';
+
+/**
+ * Ranges of inline code spans, which keep their characters as typed
+ */
+function codeRanges(text: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  const pattern = /`[^`\n]*`/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+}
+
+/**
+ * The curly form of a straight quote, judged by the characters around it
+ */
+function curlyQuote(text: string, index: number): string {
+  const char = text[index];
+  const before = text[index - 1];
+  const after = text[index + 1];
+  const opening = before === undefined || /[\s(\[{“‘—–-]/.test(before);
+
+  if (char === '"') {
+    return opening ? '“' : '”';
+  }
+  // Apostrophes, and elisions such as 'em and '90s, take the closing form
+  if (!opening || /^(\d|em\b|til\b|cause\b|n\b|tis\b)/i.test(text.slice(index + 1))) {
+    return '’';
+  }
+  return after && /\S/.test(after) ? '‘' : '’';
+}
+
+function findQuoteIssues(text: string, style: QuoteStyle): TypographyIssue[] {
+  const issues: TypographyIssue[] = [];
+  const pattern = style === 'curly' ? /["']/g : /[“”‘’]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const index = match.index;
+    // Feet and inches (5'10") are primes, not quotes
+    if (style === 'curly' && /\d/.test(text[index - 1] || '')) continue;
+
+    const replacement = style === 'curly' ? curlyQuote(text, index) : (/[“”]/.test(match[0]) ? '"' : '\'');
+    issues.push({
+      ruleId: 'typography-quotes',
+      start: index,
+      end: index + 1,
+      text: match[0],
+      replacement,
+      message: style === 'curly' ? `Use a curly quote: "${replacement}"` : 'Use a straight quote',
+      explanation: style === 'curly'
+        ? 'House style uses typographic (curly) quotes and apostrophes.'
+        : 'House style uses straight quotes and apostrophes.'
+    });
+  }
+
+  return issues;
+}
+
+function findDashIssues(text: string, style: DashStyle): TypographyIssue[] {
+  const issues: TypographyIssue[] = [];
+  const expected = DASH_FORMS[style];
+  // Double hyphens, em dashes, and en dashes or hyphens with spaces on both sides
+  const pattern = /(?<=\S)(?:[ \t]*(?:---?|—)[ \t]*|[ \t]+[-–][ \t]+)(?=\S)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0] === expected) continue;
+    issues.push({
+      ruleId: 'typography-dashes',
+      start: match.index,
+      end: match.index + match[0].length,
+      text: match[0],
+      replacement: expected,
+      message: `Use "${expected.trim()}"${style === 'em' ? ' without spaces' : ' with a space on each side'} for a dash`,
+      explanation: 'Dashes that set off a phrase should follow the house style, not hyphens or double hyphens.'
+    });
+  }
+
+  return issues;
+}
+
+function findEllipsisIssues(text: string, style: EllipsisStyle): TypographyIssue[] {
+  const issues: TypographyIssue[] = [];
+  const pattern = style === 'character' ? /(?<!\.)(?:\.\.\.|\. \. \.)(?!\.)/g : /…/g;
+  const replacement = style === 'character' ? '…' : '...';
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    issues.push({
+      ruleId: 'typography-ellipsis',
+      start: match.index,
+      end: match.index + match[0].length,
+      text: match[0],
+      replacement,
+      message: style === 'character' ? 'Use the ellipsis character "…"' : 'Use three periods for an ellipsis',
+      explanation: 'Ellipses should be written the same way throughout the document.'
+    });
+  }
+
+  return issues;
+}
+
+function findUnitSpaceIssues(text: string): TypographyIssue[] {
+  const issues: TypographyIssue[] = [];
+  const pattern = new RegExp(UNIT_PATTERN.source, UNIT_PATTERN.flags);
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const start = match.index + match[1].length;
+    issues.push({
+      ruleId: 'typography-unit-space',
+      start,
+      end: start + 1,
+      text: ' ',
+      replacement: NBSP,
+      message: `Use a non-breaking space between "${match[1]}" and "${match[3]}"`,
+      explanation: 'A non-breaking space keeps a number and its unit on the same line.'
+    });
+  }
+
+  return issues;
+}
+
+function findSentenceSpacingIssues(text: string): TypographyIssue[] {
+  const issues: TypographyIssue[] = [];
+  const pattern = /(?<=[.!?…]["”’)]?) {2,}(?=\S)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    issues.push({
+      ruleId: 'typography-sentence-spacing',
+      start: match.index,
+      end: match.index + match[0].length,
+      text: match[0],
+      replacement: ' ',
+      message: 'Use a single space between sentences',
+      explanation: 'Two spaces after a period are a typewriter convention; typeset text uses one.'
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Run the typography checks that the preferences enable
+ * @param text - Text to check; inline code spans are left alone
+ * @param preferences - House preferences; omitted fields use DEFAULT_TYPOGRAPHY
+ * @returns Issues in text order, each with its replacement
+ */
+export function findTypographyIssues(text: string, preferences: TypographyPreferences = {}): TypographyIssue[] {
+  const settings = { ...DEFAULT_TYPOGRAPHY, ...preferences };
+  const issues = [
+    ...findQuoteIssues(text, settings.quotes),
+    ...findDashIssues(text, settings.dashes),
+    ...findEllipsisIssues(text, settings.ellipsis),
+    ...(settings.unitSpaces ? findUnitSpaceIssues(text) : []),
+    ...(settings.singleSpaceAfterSentence ? findSentenceSpacingIssues(text) : [])
+  ];
+
+  const code = codeRanges(text);
+  return issues
+    .filter(issue => !code.some(([start, end]) => issue.start < end && issue.end > start))
+    .sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,56 @@
+import type { WritingPreferences } from './types/settings';
+import { ENGLISH_LOCALES } from './localeVariants';
+import { READABILITY_AUDIENCES } from './readability';
+
+// Allowed values of each typography preference
+const TYPOGRAPHY_CHOICES: Record<string, unknown[]> = {
+  quotes: ['curly', 'straight'],
+  dashes: ['em', 'spaced-em', 'spaced-en'],
+  ellipsis: ['character', 'periods'],
+  unitSpaces: [true, false],
+  singleSpaceAfterSentence: [true, false]
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Apply saved or submitted preferences on top of the stored ones
+ * Only recognised, valid fields are taken. Updates are partial, down to single
+ * typography settings: `{ typography: { quotes: 'curly' } }` keeps the other
+ * typography settings, and null clears a setting.
+ * @param stored - Current preferences
+ * @param update - Untrusted input, e.g. from IPC or preferences.json
+ */
+export function mergeWritingPreferences(stored: WritingPreferences, update: unknown): WritingPreferences {
+  const preferences: WritingPreferences = { ...stored, typography: { ...stored.typography } };
+  if (!isRecord(update)) {
+    return preferences;
+  }
+
+  if (update.locale === null || (ENGLISH_LOCALES as unknown[]).includes(update.locale)) {
+    preferences.locale = (update.locale ?? undefined) as WritingPreferences['locale'];
+  }
+  if (typeof update.preferIze === 'boolean') {
+    preferences.preferIze = update.preferIze;
+  }
+  if (update.oxfordComma === null || update.oxfordComma === 'require' || update.oxfordComma === 'omit') {
+    preferences.oxfordComma = update.oxfordComma ?? undefined;
+  }
+  if (typeof update.readabilityAudience === 'string' && Object.keys(READABILITY_AUDIENCES).includes(update.readabilityAudience)) {
+    preferences.readabilityAudience = update.readabilityAudience as WritingPreferences['readabilityAudience'];
+  }
+  if (isRecord(update.typography)) {
+    const typography = preferences.typography as Record<string, unknown>;
+    for (const [key, choices] of Object.entries(TYPOGRAPHY_CHOICES)) {
+      const value = update.typography[key];
+      if (value === null) {
+        delete typography[key];
+      } else if (choices.includes(value)) {
+        typography[key] = value;
+      }
+    }
+  }
+  return preferences;
+}
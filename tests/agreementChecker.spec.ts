@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import { findAgreementErrors } from '../src/agreementChecker';
+
+/**
+ * Regression corpus for subject-verb agreement
+ * Every sentence lists the verbs the checker must flag (with the form it must
+ * suggest); sentences with no `flagged` entries are known false-positive traps.
+ */
+
+interface AgreementCase {
+  text: string;
+  // Verbs that must be reported, with the expected replacement
+  flagged?: Array<{ verb: string; expected: string }>;
+}
+
+const AGREEMENT_CORPUS: AgreementCase[] = [
+  // True positives
+  { text: 'The dogs is barking.', flagged: [{ verb: 'is', expected: 'are' }] },
+  { text: 'The cat are sleeping.', flagged: [{ verb: 'are', expected: 'is' }] },
+  { text: 'He are late again.', flagged: [{ verb: 'are', expected: 'is' }] },
+  { text: 'They is coming tomorrow.', flagged: [{ verb: 'is', expected: 'are' }] },
+  { text: 'I is happy.', flagged: [{ verb: 'is', expected: 'am' }] },
+  { text: 'You was right.', flagged: [{ verb: 'was', expected: 'were' }] },
+  { text: 'She have a new car.', flagged: [{ verb: 'have', expected: 'has' }] },
+  { text: 'My friends has left.', flagged: [{ verb: 'has', expected: 'have' }] },
+  { text: 'He don\'t know the answer.', flagged: [{ verb: 'don\'t', expected: 'doesn\'t' }] },
+  { text: 'They doesn\'t care.', flagged: [{ verb: 'doesn\'t', expected: 'don\'t' }] },
+  { text: 'We wasn\'t there.', flagged: [{ verb: 'wasn\'t', expected: 'weren\'t' }] },
+  { text: 'The children was playing outside.', flagged: [{ verb: 'was', expected: 'were' }] },
+  { text: 'The list of items are long.', flagged: [{ verb: 'are', expected: 'is' }] },
+  { text: 'The box with the cats are heavy.', flagged: [{ verb: 'are', expected: 'is' }] },
+  { text: 'The results of the test is clear.', flagged: [{ verb: 'is', expected: 'are' }] },
+  { text: 'My brother and I is here.', flagged: [{ verb: 'is', expected: 'are' }] },
+  { text: 'Everyone have a car.', flagged: [{ verb: 'have', expected: 'has' }] },
+  { text: 'Each of them have a key.', flagged: [{ verb: 'have', expected: 'has' }] },
+  { text: 'There is many cats in the yard.', flagged: [{ verb: 'is', expected: 'are' }] },
+  { text: 'There are a problem with the build.', flagged: [{ verb: 'are', expected: 'is' }] },
+  { text: 'The dogs barks loudly.', flagged: [{ verb: 'barks', expected: 'bark' }] },
+  { text: 'He walk to school every day.', flagged: [{ verb: 'walk', expected: 'walks' }] },
+  { text: 'The old houses on the hill looks empty.', flagged: [{ verb: 'looks', expected: 'look' }] },
+  { text: 'Some of the cakes is burnt.', flagged: [{ verb: 'is', expected: 'are' }] },
+  { text: 'The dogs are here and the list of items are long.', flagged: [{ verb: 'are', expected: 'is' }] },
+  { text: 'The key to the cabinets are lost.', flagged: [{ verb: 'are', expected: 'is' }] },
+  { text: 'The dogs are barking; the cat are here.', flagged: [{ verb: 'are', expected: 'is' }] },
+  { text: 'The dogs are barking, the cat are here.', flagged: [{ verb: 'are', expected: 'is' }] },
+
+  // False-positive traps
+  { text: 'The results are clear.' },
+  { text: 'The list of items is long.' },
+  { text: 'The news is good.' },
+  { text: 'Swimming is fun.' },
+  { text: 'If I were you, I would leave.' },
+  { text: 'I wish he were here.' },
+  { text: 'The team are celebrating tonight.' },
+  { text: 'The team is celebrating tonight.' },
+  { text: 'The data are inconclusive.' },
+  { text: 'Ten dollars is a lot of money.' },
+  { text: 'James likes pizza.' },
+  { text: 'The Smiths are here.' },
+  { text: 'Bread and butter is my favourite snack.' },
+  { text: 'One of the cats is missing.' },
+  { text: 'Some of the cake is gone.' },
+  { text: 'Where are the keys?' },
+  { text: 'Is the dog hungry?' },
+  { text: 'He can swim.' },
+  { text: 'They want to have fun.' },
+  { text: 'I watched the dog walk home.' },
+  { text: 'The man who lives here is nice.' },
+  { text: 'The dogs that bark are loud.' },
+  { text: 'Physics is hard.' },
+  { text: 'Mathematics is my favourite subject.' },
+  { text: 'The bus is late.' },
+  { text: 'I am ready.' },
+  { text: 'I have finished.' },
+  { text: 'You are welcome.' },
+  { text: 'The analysis is complete.' },
+  { text: 'This is fine, and these are better.' },
+  { text: 'There are many reasons.' },
+  { text: 'My parents, who live nearby, are visiting.' },
+  { text: 'She plays piano and he plays guitar.' },
+  { text: 'The boy who plays drums is loud.' },
+  { text: 'The key to the cabinets is lost.' },
+  { text: 'The dogs are barking; the cat is here.' }
+];
+
+describe('agreementChecker', () => {
+  describe('findAgreementErrors', () => {
+    for (const entry of AGREEMENT_CORPUS) {
+      const expected = (entry.flagged || []).map(flag => `${flag.verb} -> ${flag.expected}`);
+
+      it(`${expected.length > 0 ? 'flags' : 'accepts'} "${entry.text}"`, () => {
+        const actual = findAgreementErrors(entry.text).map(issue => `${issue.text} -> ${issue.expected}`);
+        expect(actual).to.have.members(expected);
+      });
+    }
+
+    it('reports the subject head and the offsets of the verb', () => {
+      const [issue] = findAgreementErrors('The dogs is barking.');
+      expect(issue).to.include({ start: 9, end: 11, text: 'is', subject: 'dogs', number: 'plural', expected: 'are' });
+    });
+
+    it('returns nothing for empty text', () => {
+      expect(findAgreementErrors('')).to.deep.equal([]);
+    });
+  });
+});
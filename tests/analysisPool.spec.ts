@@ -0,0 +1,131 @@
+import { expect } from 'chai';
+import { AnalysisPool, createAnalysisPool, isAnalysisCancelled } from '../src/analysisPool';
+import { checkGrammar, loadGrammarRulePack, unloadGrammarRulePack } from '../src/grammarEngine';
+
+async function rejection(promise: Promise<unknown>): Promise<Error> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as Error;
+  }
+  throw new Error('Expected the request to be rejected');
+}
+
+describe('AnalysisPool', function () {
+  // Workers compile the engines on start-up
+  this.timeout(120000);
+  let pool: AnalysisPool;
+
+  before(async () => {
+    pool = createAnalysisPool({ size: 1 });
+    await pool.start();
+    // Wait for the worker to be ready before timing-sensitive tests
+    await pool.run({ kind: 'grammar', text: 'Warm up.' });
+  });
+
+  after(async () => {
+    await pool.stop();
+  });
+
+  it('returns the same grammar results as the main process', async () => {
+    const text = 'I saw a elephant and and it ran.';
+
+    expect(await pool.run({ kind: 'grammar', text }, { documentId: 'doc' })).to.deep.equal(checkGrammar(text));
+  });
+
+  it('adds lower-case names to grammar results', async () => {
+    const results = await pool.run({ kind: 'grammar', text: 'Yesterday we met john smith in paris.' }, { documentId: 'names' });
+
+    expect(results.map(result => [result.ruleId, result.suggestion])).to.deep.equal([
+      ['proper-noun-case', 'John Smith'],
+      ['proper-noun-case', 'Paris']
+    ]);
+  });
+
+  it('runs style and tagging tasks', async () => {
+    const style = await pool.run({ kind: 'style', text: 'We came in order to leave.' });
+    const tags = await pool.run({ kind: 'posTag', text: 'The cat sat.' });
+
+    expect(style.map(suggestion => suggestion.ruleId)).to.include('in-order-to');
+    expect(tags.map(tag => tag.text)).to.include('cat');
+  });
+
+  it('rejects a request whose signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await rejection(pool.run({ kind: 'grammar', text: 'Too late.' }, { signal: controller.signal }));
+    expect(error.name).to.equal('AbortError');
+    expect(isAnalysisCancelled(error)).to.equal(true);
+  });
+
+  it('rejects a queued request with AbortError when it is cancelled', async () => {
+    const controller = new AbortController();
+    const busy = pool.run({ kind: 'grammar', text: 'The worker is busy with this one.' });
+    const queued = pool.run({ kind: 'grammar', text: 'Cancel me.' }, { signal: controller.signal });
+    controller.abort();
+
+    expect((await rejection(queued)).name).to.equal('AbortError');
+    expect(await busy).to.be.an('array');
+    expect(pool.getQueueLength()).to.equal(0);
+  });
+
+  it('discards the result of a running request that is cancelled', async () => {
+    const controller = new AbortController();
+    const running = pool.run({ kind: 'grammar', text: 'Cancel me while I run.' }, { signal: controller.signal });
+    controller.abort();
+
+    expect(isAnalysisCancelled(await rejection(running))).to.equal(true);
+    expect(await pool.run({ kind: 'grammar', text: 'i am next.' })).to.deep.equal(checkGrammar('i am next.'));
+  });
+
+  it('supersedes a queued request for the same document and kind', async () => {
+    const busy = pool.run({ kind: 'grammar', text: 'The worker is busy.' });
+    const older = pool.run({ kind: 'grammar', text: 'Old text.' }, { documentId: 'note' });
+    const newer = pool.run({ kind: 'grammar', text: 'i typed more.' }, { documentId: 'note' });
+
+    expect((await rejection(older)).name).to.equal('AbortError');
+    expect(await newer).to.deep.equal(checkGrammar('i typed more.'));
+    await busy;
+  });
+
+  it('copies rule packs loaded in the main process to the workers', async () => {
+    loadGrammarRulePack({
+      id: 'pool-pack',
+      rules: [{
+        id: 'alot', type: 'spelling', pattern: '\\balot\\b', flags: 'gi', message: 'Write "a lot"', severity: 'error',
+        examples: { bad: ['I like it alot.'] }
+      }]
+    });
+    try {
+      const results = await pool.run({ kind: 'grammar', text: 'I like it alot.' });
+      expect(results.map(result => result.ruleId)).to.include('alot');
+    } finally {
+      unloadGrammarRulePack('pool-pack');
+    }
+
+    const results = await pool.run({ kind: 'grammar', text: 'I like it alot.' });
+    expect(results.map(result => result.ruleId)).not.to.include('alot');
+  });
+
+  it('rejects requests before it is started', async () => {
+    const idle = createAnalysisPool({ size: 1 });
+
+    const error = await rejection(idle.run({ kind: 'grammar', text: 'Nobody is listening.' }));
+    expect(error.message).to.equal('Analysis pool is not running');
+    expect(isAnalysisCancelled(error)).to.equal(false);
+  });
+
+  it('rejects pending requests when stopped, and later ones too', async () => {
+    const stopping = createAnalysisPool({ size: 1 });
+    await stopping.start();
+
+    const running = rejection(stopping.run({ kind: 'grammar', text: 'Still running.' }));
+    const queued = rejection(stopping.run({ kind: 'style', text: 'Still queued.' }));
+    await stopping.stop();
+
+    expect((await running).message).to.equal('Analysis pool stopped');
+    expect((await queued).message).to.equal('Analysis pool stopped');
+    expect((await rejection(stopping.run({ kind: 'grammar', text: 'Too late.' }))).message).to.equal('Analysis pool is not running');
+  });
+});
@@ -0,0 +1,49 @@
+import { expect } from 'chai';
+import { findArticleErrors, indefiniteArticle } from '../src/articleChecker';
+import { checkGrammar } from '../src/grammarEngine';
+
+describe('indefiniteArticle', () => {
+  it('chooses by sound rather than spelling', () => {
+    const expected: Record<string, 'a' | 'an'> = {
+      apple: 'an', hour: 'an', honest: 'an', FBI: 'an', MBA: 'an',
+      unicorn: 'a', university: 'a', European: 'a', one: 'a', user: 'a', dog: 'a'
+    };
+    for (const [word, article] of Object.entries(expected)) {
+      expect(indefiniteArticle(word), word).to.equal(article);
+    }
+  });
+});
+
+describe('findArticleErrors', () => {
+  it('reports a/an mismatches with the replacement article', () => {
+    expect(findArticleErrors('We waited a hour for an unicorn.')).to.deep.equal([
+      { kind: 'a-an', start: 10, end: 11, text: 'a', replacement: 'an', word: 'hour' },
+      { kind: 'a-an', start: 21, end: 23, text: 'an', replacement: 'a', word: 'unicorn' }
+    ]);
+  });
+
+  it('accepts correct articles', () => {
+    expect(findArticleErrors('An FBI agent met a European user in an hour.')).to.deep.equal([]);
+  });
+
+  it('reports bare singular count nouns with both determiners as alternatives', () => {
+    expect(findArticleErrors('I bought car yesterday.')).to.deep.equal([
+      { kind: 'missing-determiner', start: 9, end: 12, text: 'car', replacement: 'a car', alternatives: ['the car'], word: 'car' }
+    ]);
+  });
+
+  it('leaves mass nouns and plurals alone', () => {
+    expect(findArticleErrors('I like music and cars.')).to.deep.equal([]);
+  });
+});
+
+describe('article results', () => {
+  it('carry a fix for a/an but only choices for missing determiners', () => {
+    const results = checkGrammar('He has dog and a apple.').filter(result => result.type === 'article');
+
+    expect(results.map(result => [result.ruleId, result.suggestion, result.suggestions])).to.deep.equal([
+      ['missing-determiner', undefined, ['a dog', 'the dog']],
+      ['a-an', 'an', undefined]
+    ]);
+  });
+});
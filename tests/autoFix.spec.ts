@@ -0,0 +1,140 @@
+import { expect } from 'chai';
+import { CheckResult, RuleType } from '../src/grammarEngine';
+import { applyFixes, fixAll } from '../src/autoFix';
+
+function issue(text: string, start: number, end: number, suggestion: string | undefined, overrides: Partial<CheckResult> = {}): CheckResult {
+  return {
+    type: RuleType.SPELLING,
+    ruleId: 'misspelling',
+    message: 'test',
+    severity: 'error',
+    line: 1,
+    column: start + 1,
+    start,
+    end,
+    length: end - start,
+    text: text.slice(start, end),
+    suggestion,
+    ...overrides
+  };
+}
+
+describe('applyFixes', () => {
+  it('applies every edit against the original offsets', () => {
+    const text = 'teh cat adn teh dog';
+    const result = applyFixes(text, [
+      issue(text, 12, 15, 'the'),
+      issue(text, 0, 3, 'the'),
+      issue(text, 8, 11, 'and')
+    ]);
+
+    expect(result.text).to.equal('the cat and the dog');
+    expect(result.edits.map(edit => [edit.start, edit.original, edit.replacement])).to.deep.equal([
+      [0, 'teh', 'the'],
+      [8, 'adn', 'and'],
+      [12, 'teh', 'the']
+    ]);
+    expect(result.skipped).to.deep.equal([]);
+  });
+
+  it('handles replacements that change the length of the text', () => {
+    const text = 'a  b  c';
+    const result = applyFixes(text, [
+      issue(text, 1, 3, ' ', { ruleId: 'multiple-spaces' }),
+      issue(text, 4, 6, ' ', { ruleId: 'multiple-spaces' }),
+      issue(text, 6, 7, 'see')
+    ]);
+
+    expect(result.text).to.equal('a b see');
+  });
+
+  it('resolves overlapping edits in favour of the more severe issue', () => {
+    const text = 'the the cat';
+    const warning = issue(text, 0, 7, 'the', { severity: 'warning', ruleId: 'repeated-word' });
+    const error = issue(text, 4, 11, 'dog', { severity: 'error' });
+    const result = applyFixes(text, [warning, error]);
+
+    expect(result.text).to.equal('the dog');
+    expect(result.skipped).to.deep.equal([warning]);
+  });
+
+  it('prefers the earlier, then the shorter edit when severities tie', () => {
+    const text = 'abcdef';
+    const longer = issue(text, 0, 4, 'X');
+    const shorter = issue(text, 0, 2, 'Y');
+    const later = issue(text, 1, 3, 'Z');
+    const result = applyFixes(text, [later, longer, shorter]);
+
+    expect(result.text).to.equal('Ycdef');
+    expect(result.skipped).to.have.members([longer, later]);
+  });
+
+  it('keeps edits that only touch at their boundaries', () => {
+    const text = 'abcd';
+    const result = applyFixes(text, [issue(text, 0, 2, 'X'), issue(text, 2, 4, 'Y')]);
+
+    expect(result.text).to.equal('XY');
+  });
+
+  it('skips results that no longer match the text', () => {
+    const stale = { ...issue('teh cat', 0, 3, 'the'), text: 'teh' };
+    const result = applyFixes('the cat', [stale]);
+
+    expect(result.text).to.equal('the cat');
+    expect(result.skipped).to.deep.equal([stale]);
+  });
+
+  it('ignores results without a replacement', () => {
+    const text = 'abc';
+    const result = applyFixes(text, [issue(text, 0, 1, undefined), issue(text, 1, 2, 'b')]);
+
+    expect(result.text).to.equal('abc');
+    expect(result.edits).to.deep.equal([]);
+    expect(result.skipped).to.deep.equal([]);
+  });
+
+  it('filters fixes by rule type and rule id', () => {
+    const text = 'ab';
+    const spelling = issue(text, 0, 1, 'A');
+    const punctuation = issue(text, 1, 2, 'B', { type: RuleType.PUNCTUATION, ruleId: 'multiple-spaces' });
+
+    expect(applyFixes(text, [spelling, punctuation], { types: [RuleType.PUNCTUATION] }).text).to.equal('aB');
+    expect(applyFixes(text, [spelling, punctuation], { rules: ['misspelling'] }).text).to.equal('Ab');
+    expect(applyFixes(text, [spelling, punctuation], { rules: 'all' }).text).to.equal('AB');
+  });
+});
+
+describe('fixAll', () => {
+  const text = 'I saw a elephant and and it ran, it was fast.';
+
+  it('fixes only the mechanical rules by default', () => {
+    const result = fixAll(text);
+
+    expect(result.text).to.equal('I saw an elephant and it ran, it was fast.');
+    expect(result.edits.map(edit => edit.original.trim())).to.have.members(['a', 'and']);
+  });
+
+  it('fixes missing spaces after commas and subject-verb agreement by default', () => {
+    expect(fixAll('I went home,then slept.').text).to.equal('I went home, then slept.');
+    expect(fixAll('He go to school.').text).to.equal('He goes to school.');
+    expect(fixAll('Then he go home.').text).to.equal('Then he goes home.');
+    expect(fixAll('They was late.').text).to.equal('They were late.');
+  });
+
+  it('fixes heuristic rules once they are opted in', () => {
+    expect(fixAll(text, { rules: 'all' }).text).to.equal('I saw an elephant and it ran; it was fast.');
+  });
+
+  it('stops after maxPasses', () => {
+    const result = fixAll(text, { maxPasses: 1 });
+
+    expect(result.passes).to.equal(1);
+  });
+
+  it('leaves clean text alone in a single pass', () => {
+    const result = fixAll('The cat sat on the mat.');
+
+    expect(result).to.include({ text: 'The cat sat on the mat.', passes: 1 });
+    expect(result.edits).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from 'chai';
+import { findCapitalizationIssues, findProperNounIssues, setCanonicalCasing } from '../src/capitalization';
+import { addProperNounResults, checkGrammar, checkProperNouns } from '../src/grammarEngine';
+import { analyzeDocument } from '../src/documentAnalysis';
+import { GrammarSessionResults, createGrammarSession } from '../src/grammarSession';
+
+function fixes(text: string): string[][] {
+  return findCapitalizationIssues(text).map(issue => [issue.kind, issue.text, issue.replacement]);
+}
+
+describe('findCapitalizationIssues', () => {
+  afterEach(() => {
+    setCanonicalCasing([]);
+  });
+
+  it('capitalises sentence starts', () => {
+    expect(fixes('the cat sat. it ran.')).to.deep.equal([
+      ['sentence-start', 'the', 'The'],
+      ['sentence-start', 'it', 'It']
+    ]);
+  });
+
+  it('does not treat abbreviations or quoted sentence ends as sentence starts', () => {
+    expect(fixes('The iPhone is here, e.g. this one.')).to.deep.equal([]);
+    expect(fixes('He said "yes." then left.')).to.deep.equal([]);
+  });
+
+  it('capitalises the pronoun "i"', () => {
+    expect(findCapitalizationIssues('Then i left.')).to.deep.equal([
+      { kind: 'pronoun-i', start: 5, end: 6, text: 'i', replacement: 'I' }
+    ]);
+  });
+
+  it('reports text written in all capitals but keeps acronyms', () => {
+    expect(fixes('THIS IS VERY LOUD TEXT.')).to.deep.equal([['all-caps', 'THIS IS VERY LOUD TEXT', 'This is very loud text']]);
+    expect(fixes('I work at NASA and the FBI.')).to.deep.equal([]);
+  });
+
+  it('restores the casing of custom words that contain capitals', () => {
+    setCanonicalCasing(['GitHub', 'lowercase']);
+
+    expect(findCapitalizationIssues('I use github daily.')).to.deep.equal([
+      { kind: 'custom-casing', start: 6, end: 12, text: 'github', replacement: 'GitHub' }
+    ]);
+    expect(fixes('I write in lowercase.')).to.deep.equal([]);
+  });
+});
+
+describe('findProperNounIssues', () => {
+  it('capitalises recognised names of people and places', () => {
+    const text = 'we met john smith in paris.';
+    const entities = [
+      { text: 'john smith', type: 'Person', start: 7, end: 17 },
+      { text: 'paris', type: 'Location', start: 21, end: 26 }
+    ];
+
+    expect(findProperNounIssues(text, entities)).to.deep.equal([
+      { kind: 'proper-noun', start: 7, end: 17, text: 'john smith', replacement: 'John Smith', entityType: 'person' },
+      { kind: 'proper-noun', start: 21, end: 26, text: 'paris', replacement: 'Paris', entityType: 'place' }
+    ]);
+  });
+
+  it('ignores ordinary words that are also recognised as names', () => {
+    expect(findProperNounIssues('we will go.', [{ text: 'will', type: 'Person', start: 3, end: 7 }])).to.deep.equal([]);
+  });
+});
+
+describe('capitalization results', () => {
+  it('come from checkGrammar for sentence starts and "i"', () => {
+    expect(checkGrammar('the cat and i left.').filter(result => result.type === 'capitalization')
+      .map(result => [result.ruleId, result.suggestion])).to.deep.equal([['sentence-capital', 'The'], ['lowercase-i', 'I']]);
+  });
+
+  it('come from checkProperNouns for lower-case names', async () => {
+    const results = await checkProperNouns('I met john smith in paris on monday.');
+
+    expect(results.map(result => [result.ruleId, result.text, result.suggestion])).to.deep.equal([
+      ['proper-noun-case', 'john smith', 'John Smith'],
+      ['proper-noun-case', 'paris', 'Paris']
+    ]);
+  });
+
+  it('are merged into the checkGrammar results in text order', async () => {
+    const text = 'so we met john smith in paris.';
+    const results = await addProperNounResults(text, checkGrammar(text));
+
+    expect(results.map(result => [result.ruleId, result.text])).to.deep.equal([
+      ['sentence-capital', 'so'],
+      ['proper-noun-case', 'john smith'],
+      ['proper-noun-case', 'paris']
+    ]);
+  });
+
+  it('are reported by analyzeDocument', async () => {
+    const { issues } = await analyzeDocument('Yesterday we met john smith in paris.', { analyzers: ['grammar'] });
+
+    expect(issues.map(issue => [issue.ruleId, issue.text, issue.replacements])).to.deep.equal([
+      ['proper-noun-case', 'john smith', ['John Smith']],
+      ['proper-noun-case', 'paris', ['Paris']]
+    ]);
+  });
+
+  it('are published by grammar sessions', async () => {
+    const session = createGrammarSession('names', { debounceMs: 10000, style: false, inline: false });
+    const published: GrammarSessionResults[] = [];
+    session.on('results', results => published.push(results));
+
+    session.update('Yesterday we met john smith in paris.');
+    await session.flush();
+    session.dispose();
+
+    expect(published[0].grammar.map(result => result.text)).to.deep.equal(['john smith', 'paris']);
+  });
+
+  it('respect the rule filter', async () => {
+    const { issues } = await analyzeDocument('Yesterday we met john smith in paris.', {
+      analyzers: ['grammar'],
+      grammar: { rules: { disabled: ['proper-noun-case'] } }
+    });
+
+    expect(issues).to.deep.equal([]);
+  });
+});
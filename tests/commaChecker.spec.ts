@@ -0,0 +1,67 @@
+import { expect } from 'chai';
+import { findCommaIssues } from '../src/commaChecker';
+import { checkGrammar } from '../src/grammarEngine';
+
+function kinds(sentence: string, options = {}): string[] {
+  return findCommaIssues(sentence, options).map(issue => issue.kind);
+}
+
+describe('findCommaIssues', () => {
+  it('reports comma splices with a semicolon as the fix', () => {
+    expect(findCommaIssues('I came home, it was late.')).to.deep.equal([
+      { kind: 'comma-splice', start: 11, end: 12, text: ',', replacement: ';' }
+    ]);
+  });
+
+  it('accepts independent clauses joined with a conjunction', () => {
+    expect(kinds('I came home, and it was late.')).to.deep.equal([]);
+  });
+
+  it('reports missing commas after introductory words and clauses', () => {
+    expect(findCommaIssues('However the plan failed.')).to.deep.equal([
+      { kind: 'introductory-comma', start: 0, end: 7, text: 'However', replacement: 'However,' }
+    ]);
+    expect(findCommaIssues('When he arrived we left.')).to.deep.equal([
+      { kind: 'introductory-comma', start: 8, end: 15, text: 'arrived', replacement: 'arrived,' }
+    ]);
+  });
+
+  it('accepts introductory clauses that have their comma and short adverbials', () => {
+    expect(kinds('When he arrived, we left.')).to.deep.equal([]);
+    expect(kinds('Yesterday we left.')).to.deep.equal([]);
+  });
+
+  it('reports a missing introductory comma and a comma splice in the same sentence', () => {
+    expect(findCommaIssues('When we arrived we ate, it was late.')).to.deep.equal([
+      { kind: 'introductory-comma', start: 8, end: 15, text: 'arrived', replacement: 'arrived,' },
+      { kind: 'comma-splice', start: 22, end: 23, text: ',', replacement: ';' }
+    ]);
+    expect(kinds('Fortunately the rain stopped, we went outside.')).to.deep.equal(['introductory-comma', 'comma-splice']);
+    expect(kinds('However you look at it, it is fine.')).to.deep.equal([]);
+  });
+
+  it('leaves the Oxford comma unchecked by default', () => {
+    expect(kinds('We bought apples, pears and plums.')).to.deep.equal([]);
+    expect(kinds('We bought apples, pears, and plums.')).to.deep.equal([]);
+  });
+
+  it('requires or omits the Oxford comma as configured', () => {
+    expect(findCommaIssues('We bought apples, pears and plums.', { oxfordComma: 'require' })).to.deep.equal([
+      { kind: 'oxford-comma', start: 18, end: 23, text: 'pears', replacement: 'pears,' }
+    ]);
+    expect(findCommaIssues('We bought apples, pears, and plums.', { oxfordComma: 'omit' })).to.deep.equal([
+      { kind: 'oxford-comma', start: 23, end: 24, text: ',', replacement: '' }
+    ]);
+    expect(kinds('We bought apples and pears.', { oxfordComma: 'require' })).to.deep.equal([]);
+  });
+});
+
+describe('comma results', () => {
+  it('pass the Oxford comma style through checkGrammar', () => {
+    const text = 'We bought apples, pears and plums.';
+
+    expect(checkGrammar(text).map(result => result.ruleId)).not.to.include('oxford-comma');
+    expect(checkGrammar(text, { oxfordComma: 'require' }).filter(result => result.ruleId === 'oxford-comma')
+      .map(result => [result.text, result.suggestion])).to.deep.equal([['pears', 'pears,']]);
+  });
+});
@@ -0,0 +1,78 @@
+import { expect } from 'chai';
+import {
+  ConfusionSetConfig,
+  addConfusionSets,
+  findConfusedWords,
+  listConfusionSets,
+  removePackConfusionSets,
+  resetConfusionSets,
+  setPackConfusionSets
+} from '../src/confusables';
+import { checkGrammar } from '../src/grammarEngine';
+
+const CUE_QUEUE: ConfusionSetConfig = {
+  sets: [{
+    id: 'cue-queue',
+    words: [
+      { word: 'cue', gloss: 'a signal', before: ['on'] },
+      { word: 'queue', gloss: 'a line of people', before: ['the'] }
+    ]
+  }]
+};
+
+function replacements(text: string): string[][] {
+  return findConfusedWords(text).map(word => [word.text, word.replacement]);
+}
+
+describe('findConfusedWords', () => {
+  afterEach(() => {
+    resetConfusionSets();
+  });
+
+  it('reports the member of a set that fits the context, keeping the casing', () => {
+    expect(replacements('Their going to the park.')).to.deep.equal([['Their', 'They\'re']]);
+    expect(replacements('Its raining today.')).to.deep.equal([['Its', 'It\'s']]);
+    expect(replacements('The weather will effect the crops.')).to.deep.equal([['effect', 'affect']]);
+    expect(replacements('He is taller then me.')).to.deep.equal([['then', 'than']]);
+  });
+
+  it('gives offsets and glosses for the message', () => {
+    expect(findConfusedWords('Your welcome.')).to.deep.equal([{
+      start: 0,
+      end: 4,
+      text: 'Your',
+      replacement: 'You\'re',
+      setId: 'your-youre',
+      gloss: 'belonging to you',
+      replacementGloss: 'you are'
+    }]);
+  });
+
+  it('accepts words used correctly', () => {
+    expect(replacements('They\'re happy with their car over there.')).to.deep.equal([]);
+    expect(replacements('The dog chased its own tail.')).to.deep.equal([]);
+  });
+
+  it('uses configured sets and rejects malformed ones', () => {
+    addConfusionSets(CUE_QUEUE);
+    expect(replacements('We waited in the cue.')).to.deep.equal([['cue', 'queue']]);
+
+    expect(() => addConfusionSets({ sets: [{ id: 'broken', words: [{ word: 'only' }] }] })).to.throw();
+    expect(listConfusionSets().map(set => set.id)).not.to.include('broken');
+  });
+
+  it('removes the sets a rule pack added', () => {
+    setPackConfusionSets('pack', CUE_QUEUE);
+    expect(replacements('We waited in the cue.')).to.deep.equal([['cue', 'queue']]);
+
+    expect(removePackConfusionSets('pack')).to.equal(true);
+    expect(replacements('We waited in the cue.')).to.deep.equal([]);
+    expect(removePackConfusionSets('pack')).to.equal(false);
+  });
+
+  it('is reported by checkGrammar as a confused-word result with a fix', () => {
+    const [result] = checkGrammar('Their going home.').filter(entry => entry.ruleId === 'confused-word');
+
+    expect(result).to.include({ text: 'Their', suggestion: 'They\'re', type: 'confused-words' });
+  });
+});
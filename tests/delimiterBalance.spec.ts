@@ -0,0 +1,46 @@
+import { expect } from 'chai';
+import { findUnbalancedDelimiters } from '../src/delimiterBalance';
+import { checkGrammar } from '../src/grammarEngine';
+
+describe('findUnbalancedDelimiters', () => {
+  it('reports openers nothing closes and closers nothing opened', () => {
+    expect(findUnbalancedDelimiters('He said "hello.')).to.deep.equal([
+      { kind: 'opener', char: '"', partner: '"', start: 8, end: 9 }
+    ]);
+    expect(findUnbalancedDelimiters('this is closed)')).to.deep.equal([
+      { kind: 'closer', char: ')', partner: '(', start: 14, end: 15 }
+    ]);
+    expect(findUnbalancedDelimiters('“Open only')).to.deep.equal([
+      { kind: 'opener', char: '“', partner: '”', start: 0, end: 1 }
+    ]);
+  });
+
+  it('reports crossed pairs', () => {
+    expect(findUnbalancedDelimiters('(a [b) c]').map(entry => [entry.kind, entry.char])).to.deep.equal([
+      ['opener', '['],
+      ['closer', ']']
+    ]);
+  });
+
+  it('accepts balanced straight and smart delimiters', () => {
+    expect(findUnbalancedDelimiters('"Fine," he said (quietly) [twice] {ok}.')).to.deep.equal([]);
+    expect(findUnbalancedDelimiters('“Smart ‘quotes’”')).to.deep.equal([]);
+  });
+
+  it('tells apostrophes, list markers and emoticons from delimiters', () => {
+    expect(findUnbalancedDelimiters('It\'s the dogs\' toys from the \'90s.')).to.deep.equal([]);
+    expect(findUnbalancedDelimiters('1) first\n2) second\nb) third')).to.deep.equal([]);
+    expect(findUnbalancedDelimiters('Thanks :)')).to.deep.equal([]);
+  });
+
+  it('pairs delimiters across lines', () => {
+    expect(findUnbalancedDelimiters('He said (and\nmeant it) that.')).to.deep.equal([]);
+  });
+
+  it('is reported by checkGrammar over the whole document', () => {
+    const text = 'He left (quietly.\n\nShe stayed.';
+    const [result] = checkGrammar(text).filter(entry => entry.ruleId === 'unbalanced-delimiter');
+
+    expect(result).to.include({ start: 8, end: 9, text: '(' });
+  });
+});
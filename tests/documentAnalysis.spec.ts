@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import { analyzeDocument } from '../src/documentAnalysis';
+import { checkGrammar } from '../src/grammarEngine';
+
+const TEXT = 'I saw a elephant yesterday. I walked home in order to rest.\n\nThe freind was happy.';
+
+describe('analyzeDocument', function () {
+  // The first call loads the spelling dictionary
+  this.timeout(30000);
+
+  it('normalises grammar and style findings into one sorted list', async () => {
+    const { issues } = await analyzeDocument(TEXT, { analyzers: ['grammar', 'style'] });
+
+    expect(issues.map(issue => issue.id)).to.deep.equal([
+      'grammar:a-an:6-7',
+      'style:in-order-to:42-53',
+      'grammar:misspelling:65-71'
+    ]);
+    expect(issues[2]).to.deep.include({
+      source: 'grammar',
+      category: 'spelling',
+      severity: 'error',
+      text: 'freind',
+      replacements: ['friend'],
+      range: { start: 65, end: 71, line: 3, column: 5 }
+    });
+    expect(issues[0]).to.include({ category: 'grammar', text: 'a' });
+    expect(issues[0].explanation).to.be.a('string');
+    expect(issues[1]).to.include({ source: 'style', category: 'style', severity: 'info', text: 'in order to' });
+  });
+
+  it('keeps the grammar results of checkGrammar', async () => {
+    const { issues } = await analyzeDocument(TEXT, { analyzers: ['grammar'] });
+
+    expect(issues.map(issue => [issue.ruleId, issue.range.start, issue.range.end]))
+      .to.deep.equal(checkGrammar(TEXT).map(result => [result.ruleId, result.start, result.end]));
+  });
+
+  it('runs only the selected analysers', async () => {
+    const analysis = await analyzeDocument(TEXT, { analyzers: ['style'] });
+
+    expect(analysis.issues.map(issue => issue.source)).to.deep.equal(['style']);
+    expect(analysis.tone).to.deep.equal([]);
+  });
+
+  it('passes shared and per-analyser options through', async () => {
+    const shared = await analyzeDocument(TEXT, { analyzers: ['grammar', 'style'], ignoreRanges: [{ start: 0, end: 60 }] });
+    const filtered = await analyzeDocument(TEXT, { analyzers: ['grammar'], grammar: { rules: { disabled: ['spelling'] } } });
+
+    expect(shared.issues.map(issue => issue.ruleId)).to.deep.equal(['misspelling']);
+    expect(filtered.issues.map(issue => issue.ruleId)).to.deep.equal(['a-an']);
+  });
+
+  it('applies suppression directives to enhancements', async () => {
+    const text = 'The the cat. <!-- opengrammer-disable --> The the dog.';
+    const { issues } = await analyzeDocument(text, { analyzers: ['grammar', 'enhancements'] });
+
+    const enhancements = issues.filter(issue => issue.source === 'enhancements');
+    expect(enhancements).not.to.be.empty;
+    expect(issues.every(issue => issue.range.start < text.indexOf('<!--'))).to.equal(true);
+    expect(enhancements.every(issue =>
+      issue.category === 'enhancement' && issue.severity === 'info' && issue.replacements.length > 0
+    )).to.equal(true);
+  });
+
+  it('reports document statistics and issue counts', async () => {
+    const { stats } = await analyzeDocument(TEXT, { analyzers: ['grammar', 'style'] });
+
+    expect(stats).to.include({
+      characters: TEXT.length,
+      words: 16,
+      sentences: 3,
+      paragraphs: 2,
+      averageSentenceLength: 5.3,
+      readingTimeMinutes: 1
+    });
+    expect(stats.issuesBySeverity).to.deep.equal({ error: 2, warning: 0, info: 1 });
+    expect(stats.issuesByCategory).to.deep.equal({ spelling: 1, grammar: 1, style: 1, enhancement: 0 });
+    expect(stats.readability.fleschReadingEase).to.be.greaterThan(0);
+  });
+
+  it('returns empty results for empty text', async () => {
+    const analysis = await analyzeDocument('', { analyzers: ['grammar', 'style'] });
+
+    expect(analysis.issues).to.deep.equal([]);
+    expect(analysis.stats).to.deep.include({ words: 0, sentences: 0, paragraphs: 0, averageSentenceLength: 0, readingTimeMinutes: 0 });
+  });
+});
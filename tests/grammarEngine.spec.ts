@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import { CheckResult, RuleType, checkGrammar, sortResultsBySeverity } from '../src/grammarEngine';
+
+function result(overrides: Partial<CheckResult>): CheckResult {
+  return {
+    type: RuleType.PUNCTUATION,
+    ruleId: 'test',
+    message: 'test',
+    severity: 'warning',
+    line: 1,
+    column: 1,
+    start: 0,
+    end: 1,
+    length: 1,
+    text: 'x',
+    ...overrides
+  };
+}
+
+describe('checkGrammar results', () => {
+  it('covers the flagged text with absolute offsets', () => {
+    const text = 'I saw a elephant.';
+    const [article] = checkGrammar(text);
+
+    expect(article).to.include({ ruleId: 'a-an', start: 6, end: 7, length: 1, text: 'a', suggestion: 'an' });
+    expect(text.slice(article.start, article.end)).to.equal(article.text);
+  });
+
+  it('gives every result a severity and text matching its range', () => {
+    const text = 'The the cat sat.  It  was here .\ni went there with my freind.';
+    const results = checkGrammar(text);
+
+    expect(results).to.have.length.greaterThan(3);
+    for (const entry of results) {
+      expect(['error', 'warning']).to.include(entry.severity);
+      expect(entry.length).to.equal(entry.end - entry.start);
+      expect(text.slice(entry.start, entry.end)).to.equal(entry.text);
+    }
+  });
+
+  it('reports 1-based line and column of the start offset', () => {
+    const text = 'Hello world.\nThis is is fine.';
+    const [repeat] = checkGrammar(text);
+
+    expect(repeat).to.include({ ruleId: 'repeated-word', start: 20, line: 2, column: 8 });
+  });
+
+  it('returns no results for empty or non-string input', () => {
+    expect(checkGrammar('')).to.deep.equal([]);
+    expect(checkGrammar(undefined as unknown as string)).to.deep.equal([]);
+  });
+});
+
+describe('sortResultsBySeverity', () => {
+  it('puts errors first, then orders by offset', () => {
+    const input = [
+      result({ severity: 'warning', start: 0 }),
+      result({ severity: 'error', start: 9 }),
+      result({ severity: 'error', start: 3 })
+    ];
+
+    expect(sortResultsBySeverity(input).map(entry => [entry.severity, entry.start])).to.deep.equal([
+      ['error', 3],
+      ['error', 9],
+      ['warning', 0]
+    ]);
+    expect(input[0].severity).to.equal('warning');
+  });
+});
@@ -0,0 +1,93 @@
+import { expect } from 'chai';
+import { GrammarSessionResults, createGrammarSession } from '../src/grammarSession';
+import { checkGrammar } from '../src/grammarEngine';
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('GrammarSession', () => {
+  it('analyses a burst of updates once, after the debounce', async () => {
+    const session = createGrammarSession('doc-1', { debounceMs: 30, inline: false });
+    const published: GrammarSessionResults[] = [];
+    session.on('results', results => published.push(results));
+
+    session.update('I saw');
+    session.update('I saw a');
+    session.update('I saw a elephant.');
+    await delay(200);
+
+    expect(published).to.have.length(1);
+    expect(published[0]).to.include({ documentId: 'doc-1', revision: 3, text: 'I saw a elephant.' });
+    expect(published[0].grammar).to.deep.equal(checkGrammar('I saw a elephant.'));
+    session.dispose();
+  });
+
+  it('analyses immediately on flush', async () => {
+    const session = createGrammarSession('doc-2', { debounceMs: 10000, inline: false, style: false });
+    const published: GrammarSessionResults[] = [];
+    session.on('results', results => published.push(results));
+
+    session.update('i went home.');
+    await session.flush();
+
+    expect(published.map(results => results.grammar.map(result => result.ruleId))).to.deep.equal([['lowercase-i']]);
+    expect(published[0].style).to.deep.equal([]);
+    session.dispose();
+  });
+
+  it('drops results for text that was replaced while it was analysed', async () => {
+    const session = createGrammarSession('doc-3', { debounceMs: 10000, style: false });
+    const published: GrammarSessionResults[] = [];
+    session.on('results', results => published.push(results));
+
+    session.update('The first version.');
+    const first = session.flush();
+    session.update('The second version.');
+    await first;
+    await session.flush();
+
+    expect(published.map(results => results.text)).to.deep.equal(['The second version.']);
+    session.dispose();
+  });
+
+  it('applies edits from the text-change hooks', async () => {
+    const session = createGrammarSession('doc-4', { debounceMs: 0, inline: false, style: false });
+    const published: GrammarSessionResults[] = [];
+    session.on('results', results => published.push(results));
+
+    session.applyEdit({ oldText: '', newText: 'The the cat.', selectionEnd: 12 });
+    await session.flush();
+
+    expect(published[0].grammar.map(result => result.ruleId)).to.deep.equal(['repeated-word']);
+    session.dispose();
+  });
+
+  it('checks style in the locale configured for grammar', async () => {
+    const session = createGrammarSession('doc-6', { debounceMs: 10000, inline: false, grammar: { locale: 'en-GB' } });
+    const published: GrammarSessionResults[] = [];
+    session.on('results', results => published.push(results));
+
+    session.update('I walked whilst he slept.');
+    await session.flush();
+
+    expect(published[0].style.map(suggestion => suggestion.ruleId)).not.to.include('whilst');
+    session.dispose();
+  });
+
+  it('publishes nothing after dispose', async () => {
+    const session = createGrammarSession('doc-5', { debounceMs: 10, inline: false });
+    let published = 0;
+    session.on('results', () => published++);
+
+    session.update('I saw a elephant.');
+    session.dispose();
+    session.update('More text.');
+    await session.flush();
+    await delay(50);
+
+    expect(published).to.equal(0);
+    expect(session.isDisposed()).to.equal(true);
+    expect(session.listenerCount('results')).to.equal(0);
+  });
+});
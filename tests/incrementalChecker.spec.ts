@@ -0,0 +1,115 @@
+import { expect } from 'chai';
+import { IncrementalChecker } from '../src/incrementalChecker';
+import { CheckResult, checkGrammar, setGrammarRuleFilter } from '../src/grammarEngine';
+
+const DOCUMENT = [
+  'The cat sat on the mat. It was happy, it purred.',
+  'I saw a elephant yesterday and i walked home.',
+  '',
+  'The dogs is barking at the the mailman. He said "hello.',
+  'Yesterday I go to the store whilst it rained.'
+].join('\n');
+
+// Fragments the randomised edits insert: words, typos, punctuation and line breaks
+const FRAGMENTS = [' ', 'the ', 'a ', 'an ', 'i ', 'freind ', 'is ', 'are ', '.', ', ', '. The ', '\n', '\n\n', '"', '(', ')', 'colour ', 'color ', 'and and '];
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32), so failures can be replayed
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sorted(results: CheckResult[]): CheckResult[] {
+  return [...results].sort((a, b) => a.start - b.start || a.end - b.end || a.ruleId.localeCompare(b.ruleId));
+}
+
+describe('IncrementalChecker', () => {
+  afterEach(() => {
+    setGrammarRuleFilter({});
+  });
+
+  it('gives the same results as checkGrammar for the initial text', () => {
+    const checker = new IncrementalChecker();
+
+    expect(sorted(checker.update(DOCUMENT))).to.deep.equal(sorted(checkGrammar(DOCUMENT)));
+    expect(checker.getText()).to.equal(DOCUMENT);
+  });
+
+  it('moves results after an edit by the edit\'s length', () => {
+    const checker = new IncrementalChecker();
+    checker.update(DOCUMENT);
+
+    const edited = `Hello there. ${DOCUMENT}`;
+    const results = checker.applyEdit({ oldText: DOCUMENT, newText: edited, selectionEnd: 13 });
+    const repeat = results.find(result => result.ruleId === 'repeated-word')!;
+
+    expect(edited.slice(repeat.start, repeat.end)).to.equal(repeat.text);
+    expect(sorted(results)).to.deep.equal(sorted(checkGrammar(edited)));
+  });
+
+  it('stays equivalent to checkGrammar over 300 random edits', function () {
+    this.timeout(120000);
+    const random = createRandom(21);
+    const checker = new IncrementalChecker();
+    let text = DOCUMENT;
+    checker.update(text);
+
+    for (let step = 0; step < 300; step++) {
+      const start = Math.floor(random() * (text.length + 1));
+      const removed = random() < 0.4 ? Math.floor(random() * 12) : 0;
+      const inserted = random() < 0.7 ? FRAGMENTS[Math.floor(random() * FRAGMENTS.length)] : '';
+      const newText = text.slice(0, start) + inserted + text.slice(start + removed);
+      const caret = random() < 0.8 ? start + inserted.length : undefined;
+
+      const incremental = checker.applyEdit({ oldText: text, newText, selectionStart: caret, selectionEnd: caret });
+      expect(sorted(incremental), `step ${step}: ${JSON.stringify(newText)}`).to.deep.equal(sorted(checkGrammar(newText)));
+      text = newText.length > 0 ? newText : DOCUMENT;
+      if (newText.length === 0) checker.update(text);
+    }
+  });
+
+  it('diffs against the held text when an edit event was missed', () => {
+    const checker = new IncrementalChecker();
+    checker.update(DOCUMENT);
+
+    const edited = DOCUMENT.replace('elephant', 'dog');
+    const results = checker.applyEdit({ oldText: 'stale text', newText: edited, selectionEnd: 0 });
+
+    expect(sorted(results)).to.deep.equal(sorted(checkGrammar(edited)));
+  });
+
+  it('rechecks everything after the rule filter changes', () => {
+    const checker = new IncrementalChecker();
+    checker.update(DOCUMENT);
+
+    setGrammarRuleFilter({ disabled: ['spelling'] });
+    const results = checker.update(DOCUMENT);
+
+    expect(results.map(result => result.ruleId)).not.to.include('misspelling');
+    expect(sorted(results)).to.deep.equal(sorted(checkGrammar(DOCUMENT)));
+  });
+
+  it('applies its options and suppressions like checkGrammar', () => {
+    const options = { locale: 'en-GB' as const, ignoreRanges: [{ start: 0, end: 20 }] };
+    const checker = new IncrementalChecker(options);
+
+    expect(sorted(checker.update(DOCUMENT))).to.deep.equal(sorted(checkGrammar(DOCUMENT, options)));
+  });
+
+  it('starts over after reset', () => {
+    const checker = new IncrementalChecker();
+    checker.update(DOCUMENT);
+    checker.reset();
+
+    expect(checker.getResults()).to.deep.equal([]);
+    expect(checker.getText()).to.equal('');
+    expect(sorted(checker.update('i went home'))).to.deep.equal(sorted(checkGrammar('i went home')));
+  });
+});
@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { findVariantSpellings, inferLocale, lookupVariant, preferredVariant } from '../src/localeVariants';
+import { checkGrammar } from '../src/grammarEngine';
+import { suggestStyle } from '../src/styleService';
+import { isWordCorrect } from '../src/spellChecker';
+
+function variantFixes(text: string, options = {}): string[][] {
+  return checkGrammar(text, options)
+    .filter(result => result.ruleId === 'mixed-variant-spelling')
+    .map(result => [result.text, result.suggestion as string]);
+}
+
+describe('localeVariants', () => {
+  it('looks up both forms of a variant pair', () => {
+    expect(lookupVariant('Colour')).to.deep.include({ variant: 'british' });
+    expect(lookupVariant('organize')?.pair).to.deep.equal({ american: 'organize', british: 'organise', convention: 'ize' });
+    expect(lookupVariant('table')).to.equal(undefined);
+  });
+
+  it('knows which conventions each locale follows', () => {
+    expect(preferredVariant('our', 'en-CA')).to.equal('british');
+    expect(preferredVariant('ize', 'en-CA')).to.equal('american');
+    expect(preferredVariant('ize', 'en-GB')).to.equal('british');
+    expect(preferredVariant('ize', 'en-GB', { preferIze: true })).to.equal('american');
+  });
+
+  it('finds variant spellings with offsets', () => {
+    const spellings = findVariantSpellings('The colour and the color.');
+
+    expect(spellings.map(spelling => [spelling.word, spelling.start, spelling.variant])).to.deep.equal([
+      ['colour', 4, 'british'],
+      ['color', 19, 'american']
+    ]);
+  });
+
+  it('infers the locale a document mostly uses, defaulting to en-US', () => {
+    expect(inferLocale(findVariantSpellings('The colour of the centre.'))).to.equal('en-GB');
+    expect(inferLocale(findVariantSpellings('The color of the center.'))).to.equal('en-US');
+    expect(inferLocale([])).to.equal('en-US');
+  });
+});
+
+describe('locale-aware checking', () => {
+  it('flags spellings of the other variant for the chosen locale', () => {
+    expect(variantFixes('The colour of the centre.', { locale: 'en-US' })).to.deep.equal([['colour', 'color'], ['centre', 'center']]);
+    expect(variantFixes('The color of the centre.', { locale: 'en-GB' })).to.deep.equal([['color', 'colour']]);
+    expect(variantFixes('The color is fine.', { locale: 'en-AU' })).to.deep.equal([['color', 'colour']]);
+  });
+
+  it('follows the mixed Canadian conventions', () => {
+    expect(variantFixes('We organize the colour.', { locale: 'en-CA' })).to.deep.equal([]);
+  });
+
+  it('accepts -ize in British English with Oxford spelling', () => {
+    expect(variantFixes('We organize the colour.', { locale: 'en-GB' })).to.deep.equal([['organize', 'organise']]);
+    expect(variantFixes('We organize the colour.', { locale: 'en-GB', preferIze: true })).to.deep.equal([]);
+  });
+
+  it('reports mixed variants against the majority when no locale is set', () => {
+    expect(variantFixes('The colour of the centre and the center.')).to.deep.equal([['center', 'centre']]);
+  });
+
+  it('spell-checks against the locale dictionary', () => {
+    expect(isWordCorrect('colour', 'en-GB')).to.equal(true);
+    expect(isWordCorrect('colour', 'en-US')).to.equal(false);
+  });
+
+  it('applies locale vocabulary rules only where they belong', () => {
+    expect(suggestStyle('I walked whilst he slept.', { locale: 'en-US' }).map(suggestion => suggestion.ruleId)).to.include('whilst');
+    expect(suggestStyle('I walked whilst he slept.', { locale: 'en-GB' }).map(suggestion => suggestion.ruleId)).not.to.include('whilst');
+  });
+
+  it('applies locale vocabulary rules for the inferred locale when none is set', () => {
+    const british = 'The colour of the centre changed whilst he slept. It had gotten dark.';
+
+    expect(suggestStyle(british).map(suggestion => suggestion.ruleId)).to.include('gotten').and.not.to.include('whilst');
+    expect(suggestStyle('I walked whilst he slept.').map(suggestion => suggestion.ruleId)).to.include('whilst');
+    expect(suggestStyle(british, { locale: 'en-US' }).map(suggestion => suggestion.ruleId)).to.include('whilst');
+  });
+});
@@ -0,0 +1,86 @@
+import { expect } from 'chai';
+import { PLACEHOLDER, checkMarkdown, extractProse } from '../src/markdownChecker';
+
+const SOURCE = [
+  '---',
+  'title: teh',
+  '---',
+  '# A heading with teh typo',
+  '',
+  'Some **bold** text with a freind and `teh code` here.',
+  '',
+  '```',
+  'teh fenced',
+  '```',
+  '',
+  '- item with a elephant',
+  '',
+  'See [the lnk](http://teh.example) now.',
+  ''
+].join('\n');
+
+describe('extractProse', () => {
+  it('keeps prose and drops front matter, code, markup and link targets', () => {
+    expect(extractProse(SOURCE).map(block => [block.kind, block.text])).to.deep.equal([
+      ['heading', 'A heading with teh typo'],
+      ['paragraph', `Some bold text with a freind and ${PLACEHOLDER} here.`],
+      ['list-item', 'item with a elephant'],
+      ['paragraph', 'See the lnk now.']
+    ]);
+  });
+
+  it('maps every character back to the source', () => {
+    for (const block of extractProse(SOURCE)) {
+      block.text.split('').forEach((char, index) => {
+        if (char !== PLACEHOLDER) {
+          expect(SOURCE.slice(block.starts[index], block.ends[index])).to.equal(char);
+        }
+      });
+    }
+  });
+});
+
+describe('checkMarkdown', () => {
+  const { grammar, style } = checkMarkdown(SOURCE);
+
+  it('reports prose results against source offsets, lines and columns', () => {
+    expect(grammar.results.map(result => [result.ruleId, result.text, result.line, result.column])).to.deep.equal([
+      ['misspelling', 'teh', 4, 18],
+      ['misspelling', 'freind', 6, 27],
+      ['a-an', 'a', 12, 13],
+      ['misspelling', 'lnk', 14, 10]
+    ]);
+    for (const result of grammar.results) {
+      expect(SOURCE.slice(result.start, result.end)).to.equal(result.text);
+    }
+    expect(style.results).to.deep.equal([]);
+  });
+
+  it('never checks code, front matter or URLs', () => {
+    const covered = grammar.results.map(result => SOURCE.slice(0, result.start).split('\n').length);
+
+    expect(covered).not.to.include(2);
+    expect(covered).not.to.include(9);
+  });
+
+  it('skips sentence rules in headings and list items', () => {
+    const ruleIds = checkMarkdown('# lowercase heading\n\n- lowercase item\n').grammar.results.map(result => result.ruleId);
+
+    expect(ruleIds).not.to.include('missing-period');
+    expect(ruleIds).not.to.include('sentence-capital');
+  });
+
+  it('withholds replacements that would overwrite Markdown syntax', () => {
+    const source = 'A fr**ei**nd came.\n';
+    const [misspelling] = checkMarkdown(source).grammar.results.filter(result => result.ruleId === 'misspelling');
+
+    expect(misspelling).to.include({ start: 2 });
+    expect(misspelling.suggestion).to.equal(undefined);
+  });
+
+  it('honours directives written as HTML comments', () => {
+    const source = '<!-- opengrammer-disable spelling -->\n\nSome freind here.\n';
+
+    expect(checkMarkdown(source).grammar.results).to.deep.equal([]);
+  });
+});
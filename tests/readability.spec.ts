@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+import { READABILITY_AUDIENCES, analyzeReadability, countSyllables, readabilityScores } from '../src/readability';
+
+const EASY = 'The cat sat on the mat. It was warm.';
+const HARD = 'Notwithstanding considerable institutional opposition, the administration implemented comprehensive organizational restructuring initiatives immediately.';
+const MODERATE = 'The committee reviewed the proposal and asked for several changes before the vote.';
+
+describe('countSyllables', () => {
+  it('counts vowel groups', () => {
+    expect(countSyllables('cat')).to.equal(1);
+    expect(countSyllables('hello')).to.equal(2);
+    expect(countSyllables('yellow')).to.equal(2);
+    expect(countSyllables('beautiful')).to.equal(4);
+    expect(countSyllables('readability')).to.equal(5);
+  });
+
+  it('drops silent endings but keeps pronounced ones', () => {
+    expect(countSyllables('make')).to.equal(1);
+    expect(countSyllables('makes')).to.equal(1);
+    expect(countSyllables('baked')).to.equal(1);
+    expect(countSyllables('table')).to.equal(2);
+    expect(countSyllables('wanted')).to.equal(2);
+  });
+
+  it('uses the exception list, hyphen parts and one syllable for numbers', () => {
+    expect(countSyllables('people')).to.equal(2);
+    expect(countSyllables('Area')).to.equal(3);
+    expect(countSyllables('everything')).to.equal(4);
+    expect(countSyllables('well-known')).to.equal(2);
+    expect(countSyllables('2024')).to.equal(1);
+    expect(countSyllables('don\'t')).to.equal(1);
+    expect(countSyllables('')).to.equal(0);
+  });
+});
+
+describe('readabilityScores', () => {
+  it('applies the standard formulas', () => {
+    const scores = readabilityScores({ sentences: 2, words: 20, syllables: 30, complexWords: 2, polysyllables: 3 });
+
+    // 10 words per sentence, 1.5 syllables per word
+    expect(scores).to.deep.equal({
+      fleschReadingEase: 69.8,
+      fleschKincaidGrade: 6,
+      gunningFog: 8,
+      smog: 10.1
+    });
+  });
+
+  it('scores nothing as zero', () => {
+    const zero = { fleschReadingEase: 0, fleschKincaidGrade: 0, gunningFog: 0, smog: 0 };
+
+    expect(readabilityScores({ sentences: 0, words: 0, syllables: 0, complexWords: 0, polysyllables: 0 })).to.deep.equal(zero);
+    expect(analyzeReadability('').document.scores).to.deep.equal(zero);
+  });
+});
+
+describe('analyzeReadability', () => {
+  const text = `${EASY}\n\n${HARD}`;
+
+  it('measures the document and each paragraph', () => {
+    const report = analyzeReadability(text);
+
+    expect(report.document).to.deep.include({ start: 0, end: text.length });
+    expect(report.document.counts).to.include({ sentences: 3, words: 21 });
+    expect(report.paragraphs.map(paragraph => [paragraph.start, paragraph.end, paragraph.counts.sentences])).to.deep.equal([
+      [0, EASY.length, 2],
+      [EASY.length + 2, text.length, 1]
+    ]);
+    expect(report.paragraphs[0].scores.fleschReadingEase).to.be.greaterThan(report.paragraphs[1].scores.fleschReadingEase);
+  });
+
+  it('lists the hardest sentences first, up to the limit', () => {
+    const report = analyzeReadability(text);
+
+    expect(report.hardestSentences.map(sentence => sentence.text)).to.deep.equal([HARD, 'The cat sat on the mat.', 'It was warm.']);
+    expect(report.hardestSentences[0]).to.include({ words: 12, exceedsTarget: true });
+    expect(analyzeReadability(text, { hardestSentences: 1 }).hardestSentences).to.have.length(1);
+    expect(analyzeReadability(text, { hardestSentences: 0 }).hardestSentences).to.deep.equal([]);
+  });
+
+  it('warns against the thresholds of the audience', () => {
+    const children = analyzeReadability(MODERATE, { audience: 'children' });
+    const academic = analyzeReadability(MODERATE, { audience: 'academic' });
+
+    expect(children.thresholds).to.deep.equal(READABILITY_AUDIENCES.children);
+    expect(children.warnings).to.deep.equal([
+      { scope: 'document', start: 0, end: MODERATE.length, message: 'The document reads at grade 8.5, above the target of grade 6' }
+    ]);
+    expect(academic.warnings).to.deep.equal([]);
+  });
+
+  it('warns about paragraphs and sentences in text order', () => {
+    const report = analyzeReadability(text, { audience: 'general' });
+
+    expect(report.warnings.map(warning => [warning.scope, warning.start])).to.deep.equal([
+      ['document', 0],
+      ['paragraph', EASY.length + 2],
+      ['sentence', EASY.length + 2]
+    ]);
+    expect(report.warnings[2].message).to.contain('try shorter words or splitting it');
+  });
+
+  it('accepts custom thresholds', () => {
+    const report = analyzeReadability(EASY, { audience: { maxGrade: 30, minReadingEase: -100, maxSentenceWords: 5 } });
+
+    expect(report.warnings).to.deep.equal([
+      { scope: 'sentence', start: 0, end: 23, message: 'This sentence has 6 words; aim for at most 5' }
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { expect } from 'chai';
+import { findRepeatedWords } from '../src/repeatedWords';
+import { fixAll } from '../src/autoFix';
+
+describe('findRepeatedWords', () => {
+  it('reports the duplicate copy and the whitespace before it', () => {
+    expect(findRepeatedWords('The the cat.')).to.deep.equal([
+      { start: 3, end: 7, text: ' the', repeated: 'The', words: 1 }
+    ]);
+  });
+
+  it('finds repeats split across a line break', () => {
+    const text = 'I went to the\nthe store.';
+    const [repeat] = findRepeatedWords(text);
+
+    expect(repeat).to.include({ start: 13, end: 17, text: '\nthe', words: 1 });
+    expect(text.slice(0, repeat.start) + text.slice(repeat.end)).to.equal('I went to the store.');
+  });
+
+  it('finds repeated phrases of up to three words', () => {
+    expect(findRepeatedWords('We met in the in the park.')).to.deep.equal([
+      { start: 13, end: 20, text: ' in the', repeated: 'in the', words: 2 }
+    ]);
+    expect(findRepeatedWords('one two three one two three.')).to.deep.equal([
+      { start: 13, end: 27, text: ' one two three', repeated: 'one two three', words: 3 }
+    ]);
+  });
+
+  it('allows legitimate doubles and repeats separated by punctuation', () => {
+    expect(findRepeatedWords('Had had is fine. That that is fine too.')).to.deep.equal([]);
+    expect(findRepeatedWords('He said it was very very good.')).to.deep.equal([]);
+    expect(findRepeatedWords('We saw it in the end. In the end we left.')).to.deep.equal([]);
+  });
+
+  it('is removed by fixAll', () => {
+    expect(fixAll('I went to the\nthe store.').text).to.equal('I went to the store.');
+  });
+});
@@ -0,0 +1,78 @@
+import { expect } from 'chai';
+import { compileReplacement, preserveCase } from '../src/replacements';
+
+function replace(spec: unknown, pattern: RegExp, text: string): string | undefined {
+  const match = text.match(pattern);
+  if (!match) throw new Error(`"${text}" does not match ${pattern}`);
+  return compileReplacement(spec, pattern)(match);
+}
+
+describe('preserveCase', () => {
+  it('copies all caps and initial capitals', () => {
+    expect(preserveCase('UTILIZE', 'use')).to.equal('USE');
+    expect(preserveCase('Utilize', 'use')).to.equal('Use');
+    expect(preserveCase('utilize', 'Use')).to.equal('Use');
+    expect(preserveCase('A', 'an')).to.equal('An');
+  });
+});
+
+describe('compileReplacement', () => {
+  it('expands whole-match, numbered and named group references', () => {
+    expect(replace('use', /utilize/, 'utilize')).to.equal('use');
+    expect(replace('[$&]', /utilize/, 'utilize')).to.equal('[utilize]');
+    expect(replace('[$0]', /utilize/, 'utilize')).to.equal('[utilize]');
+    expect(replace('$2 $1', /(\w+) (\w+)/, 'red car')).to.equal('car red');
+    expect(replace('$<noun> $<adj>', /(?<adj>\w+) (?<noun>\w+)/, 'red car')).to.equal('car red');
+  });
+
+  it('writes "$$" as a literal dollar sign', () => {
+    expect(replace('$$$1', /(\d+) dollars/, '5 dollars')).to.equal('$5');
+  });
+
+  it('expands an unmatched optional group to nothing', () => {
+    expect(replace('$1$2', /(a)(b)?/, 'a')).to.equal('a');
+  });
+
+  it('keeps the casing of the match when asked', () => {
+    expect(replace({ template: 'use', preserveCase: true }, /utilize/i, 'Utilize')).to.equal('Use');
+    expect(replace({ template: 'use', preserveCase: true }, /utilize/i, 'UTILIZE')).to.equal('USE');
+    expect(replace({ template: 'use' }, /utilize/i, 'Utilize')).to.equal('use');
+  });
+
+  it('rewrites a group through a lookup table', () => {
+    const spec = { lookup: { group: 1, table: { learnt: 'learned', spelt: 'spelled' } }, template: 'had $1', preserveCase: true };
+
+    expect(replace(spec, /had (\w+)/i, 'had learnt')).to.equal('had learned');
+    expect(replace(spec, /had (\w+)/i, 'had Spelt')).to.equal('had Spelled');
+    expect(replace(spec, /had (\w+)/i, 'had walked')).to.equal(undefined);
+  });
+
+  it('defaults the template to the looked-up group', () => {
+    expect(replace({ lookup: { table: { whilst: 'while' } } }, /whilst/i, 'whilst')).to.equal('while');
+    expect(replace({ lookup: { group: 'word', table: { amongst: 'among' } } }, /(?<word>amongst) us/, 'amongst us')).to.equal('among');
+  });
+
+  it('rejects references to groups the pattern does not have', () => {
+    expect(() => compileReplacement('$2', /(a)/)).to.throw('the pattern has no group 2');
+    expect(() => compileReplacement('$<name>', /(a)/)).to.throw('the pattern has no group "name"');
+    expect(() => compileReplacement({ lookup: { group: 3, table: {} } }, /(a)/)).to.throw('the pattern has no group 3');
+  });
+
+  it('rejects malformed specs', () => {
+    expect(() => compileReplacement('cost $ 5', /a/)).to.throw('unexpected "$"');
+    expect(() => compileReplacement(42, /a/)).to.throw('must be a template string or an object');
+    expect(() => compileReplacement(['a'], /a/)).to.throw('must be a template string or an object');
+    expect(() => compileReplacement({ code: 'return 1' }, /a/)).to.throw('unknown replacement property "code"');
+    expect(() => compileReplacement({ template: 1 }, /a/)).to.throw('"template" must be a string');
+    expect(() => compileReplacement({ preserveCase: 'yes' }, /a/)).to.throw('"preserveCase" must be true or false');
+    expect(() => compileReplacement({ lookup: { table: { a: 1 } } }, /a/)).to.throw('lookup "table" must map strings to strings');
+    expect(() => compileReplacement({ lookup: { group: -1, table: {} } }, /a/)).to.throw('lookup "group"');
+  });
+
+  it('never evaluates the template as code', () => {
+    const template = '${process.exit(1)}';
+
+    expect(() => compileReplacement(template, /a/)).to.throw('unexpected "$"');
+    expect(replace('(match) => "x"', /a/, 'a')).to.equal('(match) => "x"');
+  });
+});
@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import { RuleIdentity, isRuleActive, ruleFilterFromPlugins } from '../src/ruleFilter';
+import { checkGrammar, listGrammarRules, setGrammarRuleFilter } from '../src/grammarEngine';
+import { listStyleRules, setStyleRuleFilter, suggestStyle } from '../src/styleService';
+import { PluginConfig } from '../src/types/settings';
+
+const MISSING_PERIOD: RuleIdentity = { id: 'missing-period', type: 'punctuation', category: 'grammar' };
+
+describe('isRuleActive', () => {
+  it('runs every rule when no filter is given', () => {
+    expect(isRuleActive(MISSING_PERIOD)).to.equal(true);
+    expect(isRuleActive(MISSING_PERIOD, undefined, {})).to.equal(true);
+  });
+
+  it('matches entries against the id, type and category', () => {
+    expect(isRuleActive(MISSING_PERIOD, { disabled: ['missing-period'] })).to.equal(false);
+    expect(isRuleActive(MISSING_PERIOD, { disabled: ['punctuation'] })).to.equal(false);
+    expect(isRuleActive(MISSING_PERIOD, { disabled: ['grammar'] })).to.equal(false);
+    expect(isRuleActive(MISSING_PERIOD, { enabled: ['spelling'] })).to.equal(false);
+    expect(isRuleActive(MISSING_PERIOD, { enabled: ['punctuation'] })).to.equal(true);
+  });
+
+  it('lets disabled entries win over enabled ones', () => {
+    expect(isRuleActive(MISSING_PERIOD, { enabled: ['punctuation'], disabled: ['missing-period'] })).to.equal(false);
+  });
+
+  it('requires every filter to pass', () => {
+    expect(isRuleActive(MISSING_PERIOD, { enabled: ['grammar'] }, { disabled: ['punctuation'] })).to.equal(false);
+  });
+});
+
+describe('ruleFilterFromPlugins', () => {
+  it('disables the rules of disabled plugins', () => {
+    const plugins = [
+      { id: 'spelling', enabled: false },
+      { id: 'punctuation', enabled: true }
+    ] as PluginConfig[];
+
+    expect(ruleFilterFromPlugins(plugins)).to.deep.equal({ disabled: ['spelling'] });
+  });
+});
+
+describe('rule ids', () => {
+  it('are unique across the grammar and style engines', () => {
+    const ids = [...listGrammarRules(), ...listStyleRules()].map(rule => rule.id);
+
+    expect(new Set(ids).size).to.equal(ids.length);
+  });
+});
+
+describe('engine rule filters', () => {
+  const text = 'I saw a elephant with my freind';
+
+  afterEach(() => {
+    setGrammarRuleFilter({});
+    setStyleRuleFilter({});
+  });
+
+  it('skips grammar rules disabled engine-wide', () => {
+    expect(checkGrammar(text).map(result => result.ruleId)).to.include.members(['a-an', 'misspelling', 'missing-period']);
+
+    setGrammarRuleFilter({ disabled: ['spelling', 'missing-period'] });
+    expect(checkGrammar(text).map(result => result.ruleId)).to.deep.equal(['a-an']);
+  });
+
+  it('narrows the engine-wide filter with a per-call filter', () => {
+    setGrammarRuleFilter({ disabled: ['misspelling'] });
+
+    expect(checkGrammar(text, { rules: { enabled: ['article'] } }).map(result => result.ruleId)).to.deep.equal(['a-an']);
+    expect(checkGrammar(text, { rules: { enabled: ['misspelling'] } })).to.deep.equal([]);
+  });
+
+  it('skips style rules disabled engine-wide or per call', () => {
+    const styled = 'We came in order to utilize the tool.';
+    expect(suggestStyle(styled).map(suggestion => suggestion.ruleId)).to.include('in-order-to');
+
+    setStyleRuleFilter({ disabled: ['wordiness'] });
+    expect(suggestStyle(styled).map(suggestion => suggestion.ruleId)).not.to.include('in-order-to');
+    expect(suggestStyle('We came in order to leave.', { rules: { enabled: ['passive-voice'] } })).to.deep.equal([]);
+  });
+});
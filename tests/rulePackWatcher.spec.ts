@@ -0,0 +1,158 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RulePackReloadEvent, RulePackWatcher } from '../src/rulePackWatcher';
+import { checkGrammar, unloadGrammarRulePack } from '../src/grammarEngine';
+import { findConfusedWords } from '../src/confusables';
+
+/**
+ * A grammar pack flagging one word, with the examples its self-tests need
+ */
+function wordPack(id: string, word: string): object {
+  return {
+    id,
+    rules: [{
+      id: `no-${word}`,
+      type: 'spelling',
+      pattern: `\\b${word}\\b`,
+      flags: 'gi',
+      message: `Avoid "${word}"`,
+      severity: 'warning',
+      examples: { bad: [`It is ${word}.`], good: ['It is fine.'] }
+    }]
+  };
+}
+
+function ruleIds(text: string): string[] {
+  return checkGrammar(text).map(result => result.ruleId);
+}
+
+describe('RulePackWatcher', () => {
+  let directory: string;
+  let watcher: RulePackWatcher;
+
+  function write(fileName: string, content: unknown): void {
+    fs.writeFileSync(path.join(directory, fileName), typeof content === 'string' ? content : JSON.stringify(content));
+  }
+
+  /**
+   * Resolve with the next reload event for a file
+   */
+  function nextReload(fileName: string): Promise<RulePackReloadEvent> {
+    const file = path.join(directory, fileName);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`No reload event for ${fileName}`)), 5000);
+      const listener = (event: RulePackReloadEvent) => {
+        if (event.file !== file) return;
+        clearTimeout(timer);
+        watcher.off('rules-reloaded', listener);
+        resolve(event);
+      };
+      watcher.on('rules-reloaded', listener);
+    });
+  }
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'opengrammer-rules-'));
+    watcher = new RulePackWatcher({ directory, debounceMs: 50 });
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    watcher.listLoadedPacks().forEach(entry => unloadGrammarRulePack(entry.pack.id));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('loads the packs in the directory on start and ignores other files', () => {
+    write('words.grammar.json', wordPack('words', 'alot'));
+    write('broken.grammar.json', '{ not json');
+    write('notes.txt', 'not a pack');
+
+    const events = watcher.start();
+
+    expect(events.map(event => [path.basename(event.file), event.status])).to.deep.equal([
+      ['broken.grammar.json', 'failed'],
+      ['words.grammar.json', 'loaded']
+    ]);
+    expect(watcher.listLoadedPacks().map(entry => entry.pack.id)).to.deep.equal(['words']);
+    expect(ruleIds('It is alot.')).to.include('no-alot');
+  });
+
+  it('reloads a pack when its file changes', async () => {
+    write('words.grammar.json', wordPack('words', 'alot'));
+    watcher.start();
+
+    const reloaded = nextReload('words.grammar.json');
+    write('words.grammar.json', wordPack('words', 'irregardless'));
+    expect((await reloaded).status).to.equal('loaded');
+
+    expect(ruleIds('It is alot.')).not.to.include('no-alot');
+    expect(ruleIds('It is irregardless.')).to.include('no-irregardless');
+  });
+
+  it('keeps the previous version when an edit is invalid or fails its self-tests', async () => {
+    write('words.grammar.json', wordPack('words', 'alot'));
+    watcher.start();
+
+    let reloaded = nextReload('words.grammar.json');
+    write('words.grammar.json', '{ "id": "words", "rules": [');
+    expect(await reloaded).to.deep.include({ status: 'failed', pack: watcher.listLoadedPacks()[0].pack });
+
+    reloaded = nextReload('words.grammar.json');
+    const failing = wordPack('words', 'alot') as { rules: Array<{ examples: object }> };
+    failing.rules[0].examples = { bad: ['Nothing to flag.'] };
+    write('words.grammar.json', failing);
+    const event = await reloaded;
+    expect(event.status).to.equal('failed');
+    expect(event.error).to.contain('failed its self-tests');
+
+    expect(ruleIds('It is alot.')).to.include('no-alot');
+  });
+
+  it('unloads a pack when its file is removed', async () => {
+    write('words.grammar.json', wordPack('words', 'alot'));
+    watcher.start();
+
+    const reloaded = nextReload('words.grammar.json');
+    fs.unlinkSync(path.join(directory, 'words.grammar.json'));
+    expect((await reloaded).status).to.equal('unloaded');
+
+    expect(watcher.listLoadedPacks()).to.deep.equal([]);
+    expect(ruleIds('It is alot.')).not.to.include('no-alot');
+  });
+
+  it('rejects a second file with the same pack id until the first is removed', async () => {
+    write('a.grammar.json', wordPack('shared', 'alot'));
+    write('b.grammar.json', wordPack('shared', 'irregardless'));
+
+    const [first, second] = watcher.start();
+    expect(first.status).to.equal('loaded');
+    expect(second).to.deep.include({ status: 'failed', error: 'Pack id "shared" is already loaded from a.grammar.json' });
+
+    const retried = nextReload('b.grammar.json');
+    fs.unlinkSync(path.join(directory, 'a.grammar.json'));
+    expect((await retried).status).to.equal('loaded');
+
+    expect(ruleIds('It is alot.')).not.to.include('no-alot');
+    expect(ruleIds('It is irregardless.')).to.include('no-irregardless');
+  });
+
+  it('unloads the confusion sets of a removed pack', async () => {
+    write('sets.grammar.json', {
+      id: 'sets',
+      confusionSets: [{
+        id: 'cue-queue',
+        words: [{ word: 'cue', before: ['on'] }, { word: 'queue', before: ['the'] }]
+      }]
+    });
+    watcher.start();
+    expect(findConfusedWords('We waited in the cue.').map(word => word.replacement)).to.deep.equal(['queue']);
+
+    const reloaded = nextReload('sets.grammar.json');
+    fs.unlinkSync(path.join(directory, 'sets.grammar.json'));
+    await reloaded;
+
+    expect(findConfusedWords('We waited in the cue.')).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,181 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RULE_PACK_VERSION, RulePackSchema, parseRulePack, selfTestRulePack } from '../src/rulePacks';
+import {
+  checkGrammar,
+  listGrammarRulePacks,
+  loadGrammarRulePack,
+  loadRulesFromConfig,
+  unloadGrammarRulePack
+} from '../src/grammarEngine';
+import { listStyleRulePacks, loadStyleRulePack, suggestStyle, unloadStyleRulePack } from '../src/styleService';
+
+const SCHEMA: RulePackSchema = { severities: ['error', 'warning'] };
+
+const UTILIZE_RULE = {
+  id: 'utilize',
+  type: 'wordiness',
+  pattern: '\\butilize\\b',
+  flags: 'gi',
+  message: 'Use "use"',
+  explanation: 'Shorter words read faster.',
+  severity: 'warning',
+  replacement: { template: 'use', preserveCase: true },
+  examples: { bad: ['We utilize caching.'], good: ['We use caching.'] }
+};
+
+function pack(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    version: 1,
+    id: 'house-style',
+    name: 'House style',
+    author: 'Docs team',
+    language: 'en-GB',
+    rules: [UTILIZE_RULE],
+    tests: [{ text: 'Utilize it.', expect: ['utilize'] }],
+    ...overrides
+  };
+}
+
+function withRule(overrides: Record<string, unknown>): Record<string, unknown> {
+  return pack({ rules: [{ ...UTILIZE_RULE, ...overrides }], tests: [] });
+}
+
+describe('parseRulePack', () => {
+  it('normalises a valid pack', () => {
+    const parsed = parseRulePack(pack(), 'fallback', SCHEMA);
+
+    expect(parsed).to.deep.include({ version: 1, id: 'house-style', name: 'House style', author: 'Docs team', language: 'en-GB' });
+    expect(parsed.rules.map(rule => rule.id)).to.deep.equal(['utilize']);
+    expect(parsed.tests).to.deep.equal([{ name: undefined, text: 'Utilize it.', expect: ['utilize'] }]);
+  });
+
+  it('reads a bare rules file as an unversioned pack named after the file', () => {
+    const parsed = parseRulePack({ rules: [{ type: 'wordiness', pattern: 'foo', message: 'm', severity: 'warning' }] }, 'legacy', SCHEMA);
+
+    expect(parsed).to.deep.include({ version: RULE_PACK_VERSION, id: 'legacy', name: 'legacy', language: 'en' });
+    expect(parsed.rules[0].id).to.equal('wordiness-1');
+  });
+
+  it('rejects malformed packs and metadata', () => {
+    expect(() => parseRulePack([], 'x', SCHEMA)).to.throw('must be a JSON object');
+    expect(() => parseRulePack(pack({ version: RULE_PACK_VERSION + 1 }), 'x', SCHEMA)).to.throw('Unsupported rule pack version');
+    expect(() => parseRulePack(pack({ name: '' }), 'x', SCHEMA)).to.throw('"name" must be a non-empty string');
+    expect(() => parseRulePack(pack({ language: 'english' }), 'x', SCHEMA)).to.throw('Invalid rule pack language');
+    expect(() => parseRulePack(pack({ rules: {} }), 'x', SCHEMA)).to.throw('"rules" must be an array');
+  });
+
+  it('rejects invalid rules', () => {
+    expect(() => parseRulePack(withRule({ message: undefined }), 'x', SCHEMA)).to.throw('missing required properties');
+    expect(() => parseRulePack(withRule({ severity: 'fatal' }), 'x', SCHEMA)).to.throw('Invalid severity: fatal');
+    expect(() => parseRulePack(withRule({ type: 'other' }), 'x', { ...SCHEMA, types: ['wordiness'] })).to.throw('Invalid rule type');
+    expect(() => parseRulePack(withRule({ flags: 3 }), 'x', SCHEMA)).to.throw('"flags" must be a string');
+    expect(() => parseRulePack(withRule({ pattern: '(' }), 'x', SCHEMA)).to.throw('Invalid regex pattern');
+    expect(() => parseRulePack(withRule({ examples: { bad: 'text' } }), 'x', SCHEMA)).to.throw('"examples"');
+    expect(() => parseRulePack(withRule({ explanation: undefined }), 'x', { ...SCHEMA, requireExplanation: true }))
+      .to.throw('missing required properties');
+  });
+
+  it('rejects patterns that can match empty text', () => {
+    expect(() => parseRulePack(withRule({ pattern: 'x*' }), 'x', SCHEMA)).to.throw('can match empty text');
+    expect(() => parseRulePack(withRule({ pattern: '\\b' }), 'x', SCHEMA)).to.throw('can match empty text');
+    expect(() => parseRulePack(withRule({ pattern: '(?:utilize)?', examples: undefined }), 'x', SCHEMA)).to.throw('can match empty text');
+  });
+
+  it('rejects duplicate rule ids and tests of unknown rules', () => {
+    expect(() => parseRulePack(pack({ rules: [UTILIZE_RULE, UTILIZE_RULE] }), 'x', SCHEMA)).to.throw('Duplicate rule id: utilize');
+    expect(() => parseRulePack(pack({ tests: [{ text: 'a', expect: ['missing'] }] }), 'x', SCHEMA)).to.throw('expects unknown rule "missing"');
+    expect(() => parseRulePack(pack({ tests: [{ text: 'a' }] }), 'x', SCHEMA)).to.throw('Test at index 0');
+  });
+});
+
+describe('selfTestRulePack', () => {
+  const parsed = parseRulePack(pack({ tests: [{ name: 'plain', text: 'Use it.', expect: [] }] }), 'x', SCHEMA);
+
+  it('passes when examples and tests behave as declared', () => {
+    expect(selfTestRulePack(parsed, text => /utilize/i.test(text) ? ['utilize'] : [])).to.deep.equal([]);
+  });
+
+  it('reports every example and test that fails', () => {
+    expect(selfTestRulePack(parsed, () => ['utilize'])).to.deep.equal([
+      'rule "utilize" fires on its good example "We use caching."',
+      'test "plain" expected [] but got [utilize]'
+    ]);
+    expect(selfTestRulePack(parsed, () => [])).to.deep.equal([
+      'rule "utilize" does not fire on its bad example "We utilize caching."'
+    ]);
+  });
+});
+
+describe('loading rule packs', () => {
+  const grammarPack = {
+    id: 'grammar-pack',
+    rules: [{
+      id: 'alot',
+      type: 'spelling',
+      pattern: '\\balot\\b',
+      flags: 'gi',
+      message: 'Write "a lot"',
+      severity: 'error',
+      replacement: { template: 'a lot' },
+      examples: { bad: ['I like it alot.'], good: ['I like it a lot.'] }
+    }]
+  };
+
+  afterEach(() => {
+    unloadGrammarRulePack('grammar-pack');
+    unloadGrammarRulePack('broken');
+    unloadStyleRulePack('house-style');
+  });
+
+  it('adds a grammar pack\'s rules to checkGrammar until it is unloaded', () => {
+    const info = loadGrammarRulePack(grammarPack);
+
+    expect(info).to.deep.include({ id: 'grammar-pack', name: 'grammar-pack', rules: 1 });
+    expect(checkGrammar('I like it alot.').filter(result => result.ruleId === 'alot').map(result => result.suggestion)).to.deep.equal(['a lot']);
+    expect(listGrammarRulePacks().map(entry => entry.id)).to.include('grammar-pack');
+
+    expect(unloadGrammarRulePack('grammar-pack')).to.equal(true);
+    expect(checkGrammar('I like it alot.').map(result => result.ruleId)).not.to.include('alot');
+  });
+
+  it('rejects a pack that fails its self-tests and keeps nothing from it', () => {
+    const broken = { ...grammarPack, id: 'broken', rules: [{ ...grammarPack.rules[0], examples: { bad: ['Nothing here.'] } }] };
+
+    expect(() => loadGrammarRulePack(broken)).to.throw('Failed to load grammar rules: Rule pack "broken" failed its self-tests');
+    expect(listGrammarRulePacks().map(entry => entry.id)).not.to.include('broken');
+  });
+
+  it('rejects grammar rules of unknown types', () => {
+    expect(() => loadGrammarRulePack({ rules: [{ ...grammarPack.rules[0], type: 'wordiness' }] })).to.throw('Invalid rule type');
+  });
+
+  it('loads a pack file, naming it after the file when it has no id', () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'opengrammer-packs-')), 'legacy.grammar.json');
+    try {
+      fs.writeFileSync(file, JSON.stringify({ rules: grammarPack.rules }));
+      expect(loadRulesFromConfig(file)).to.deep.include({ id: 'legacy.grammar', file });
+      unloadGrammarRulePack('legacy.grammar');
+
+      fs.writeFileSync(file, '{ not json');
+      expect(() => loadRulesFromConfig(file)).to.throw('Failed to load grammar rules');
+    } finally {
+      fs.rmSync(path.dirname(file), { recursive: true, force: true });
+    }
+  });
+
+  it('adds a style pack\'s rules to suggestStyle for the pack\'s locale', () => {
+    expect(loadStyleRulePack(pack())).to.deep.include({ id: 'house-style', language: 'en-GB', rules: 1 });
+    expect(listStyleRulePacks().map(entry => entry.id)).to.include('house-style');
+
+    const [suggestion] = suggestStyle('We utilize caching.', { locale: 'en-GB' }).filter(entry => entry.ruleId === 'utilize');
+    expect(suggestion).to.include({ suggestion: 'use', explanation: 'Shorter words read faster.' });
+    expect(suggestStyle('We utilize caching.', { locale: 'en-US' }).map(entry => entry.ruleId)).not.to.include('utilize');
+  });
+
+  it('requires explanations in style packs', () => {
+    expect(() => loadStyleRulePack(withRule({ explanation: undefined }))).to.throw('missing required properties');
+  });
+});
@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import { isAbbreviation, segmentParagraph, segmentParagraphs, segmentSentences } from '../src/sentenceSegmenter';
+import { checkGrammar } from '../src/grammarEngine';
+
+function sentences(text: string): string[] {
+  return segmentSentences(text).map(sentence => sentence.text);
+}
+
+describe('segmentSentences', () => {
+  it('splits at terminal punctuation followed by a new sentence', () => {
+    expect(sentences('The cat sat. The dog ran! Did it? Yes.')).to.deep.equal(['The cat sat.', 'The dog ran!', 'Did it?', 'Yes.']);
+  });
+
+  it('does not split after abbreviations and initials', () => {
+    expect(sentences('Dr. Smith met J. R. Tolkien. Then he left.')).to.deep.equal(['Dr. Smith met J. R. Tolkien.', 'Then he left.']);
+    expect(sentences('He works at Acme Inc. and lives nearby. See fig. 2 for details. Done.')).to.deep.equal([
+      'He works at Acme Inc. and lives nearby.',
+      'See fig. 2 for details.',
+      'Done.'
+    ]);
+  });
+
+  it('does not split inside decimals', () => {
+    expect(sentences('Dr. Smith paid $3.50 for it. It cost 3.5 million. Wow.')).to.deep.equal([
+      'Dr. Smith paid $3.50 for it.',
+      'It cost 3.5 million.',
+      'Wow.'
+    ]);
+  });
+
+  it('keeps ellipses inside a sentence unless a new sentence follows', () => {
+    expect(sentences('Wait... what happened? Nothing!')).to.deep.equal(['Wait... what happened?', 'Nothing!']);
+    expect(sentences('I went home... Then I slept.')).to.deep.equal(['I went home...', 'Then I slept.']);
+  });
+
+  it('keeps closing quotes with the sentence they end', () => {
+    expect(sentences('She said "Stop." Then she left.')).to.deep.equal(['She said "Stop."', 'Then she left.']);
+  });
+
+  it('joins lines within a paragraph and splits at blank lines', () => {
+    expect(sentences('First line\nsecond line\n\nNext paragraph')).to.deep.equal(['First line\nsecond line', 'Next paragraph']);
+  });
+
+  it('gives absolute offsets without surrounding whitespace', () => {
+    const text = '  One here.   Two there.\n\n Three.';
+    for (const sentence of segmentSentences(text)) {
+      expect(text.slice(sentence.start, sentence.end)).to.equal(sentence.text);
+      expect(sentence.text).to.equal(sentence.text.trim());
+    }
+  });
+});
+
+describe('isAbbreviation', () => {
+  it('recognises titles and initials but not sentence ends', () => {
+    expect(isAbbreviation('Dr. Smith', 2)).to.equal(true);
+    expect(isAbbreviation('J. R. Tolkien', 1)).to.equal(true);
+    expect(isAbbreviation('The dog. It ran', 7)).to.equal(false);
+  });
+});
+
+describe('segmentParagraphs', () => {
+  it('splits at blank lines, including lines of whitespace', () => {
+    expect(segmentParagraphs('Para one.\n\nPara two.\n \nThree.')).to.deep.equal([
+      { text: 'Para one.', start: 0, end: 9 },
+      { text: 'Para two.', start: 11, end: 20 },
+      { text: 'Three.', start: 23, end: 29 }
+    ]);
+  });
+
+  it('gives the same sentences as segmenting the whole text', () => {
+    const text = 'Dr. Who arrived. He left.\n\nIt cost 3.5 units... Then more.';
+    const byParagraph = segmentParagraphs(text).flatMap(segmentParagraph);
+
+    expect(byParagraph).to.deep.equal(segmentSentences(text));
+  });
+});
+
+describe('grammar checks per sentence', () => {
+  it('does not report a missing period after an abbreviation or decimal', () => {
+    const ruleIds = checkGrammar('Dr. Smith paid 3.50 dollars. Mr. Jones paid more.').map(result => result.ruleId);
+
+    expect(ruleIds).not.to.include('missing-period');
+    expect(ruleIds).not.to.include('sentence-capital');
+  });
+
+  it('checks a sentence that continues on the next line as one sentence', () => {
+    const ruleIds = checkGrammar('The report was long and\ndetailed.').map(result => result.ruleId);
+
+    expect(ruleIds).not.to.include('missing-period');
+    expect(ruleIds).not.to.include('sentence-capital');
+  });
+
+  it('reports extra spaces between sentences as well as within them', () => {
+    const text = 'The cat sat.  The  dog ran.';
+    const spaces = checkGrammar(text).filter(result => result.ruleId === 'multiple-spaces');
+
+    expect(spaces.map(result => [result.start, result.end, result.suggestion])).to.deep.equal([[12, 14, ' '], [17, 19, ' ']]);
+  });
+});
@@ -0,0 +1,102 @@
+import { expect } from 'chai';
+import {
+  dictionarySpelling,
+  findMisspellings,
+  isWordCorrect,
+  loadSpellDictionary,
+  setCustomWords,
+  suggestSpelling
+} from '../src/spellChecker';
+
+describe('spellChecker', () => {
+  before(() => {
+    expect(loadSpellDictionary()).to.equal(true);
+  });
+
+  afterEach(() => {
+    setCustomWords([]);
+  });
+
+  it('accepts dictionary words, inflections, contractions and possessives', () => {
+    for (const word of ['friend', 'running', 'Paris', 'don\'t', 'don’t', 'iPhone', 'Smith\'s']) {
+      expect(isWordCorrect(word), word).to.equal(true);
+    }
+  });
+
+  it('rejects misspellings', () => {
+    for (const word of ['freind', 'recieve', 'teh', 'qzxv']) {
+      expect(isWordCorrect(word), word).to.equal(false);
+    }
+  });
+
+  it('ranks the closest correction first, counting transpositions as one edit', () => {
+    expect(suggestSpelling('freind')[0]).to.equal('friend');
+    expect(suggestSpelling('recieve')[0]).to.equal('receive');
+    expect(suggestSpelling('teh')[0]).to.equal('the');
+  });
+
+  it('finds corrections one transposition away', () => {
+    expect(suggestSpelling('thsi')[0]).to.equal('this');
+    expect(suggestSpelling('hte')[0]).to.equal('the');
+
+    const [misspelling] = findMisspellings('Thsi is it.');
+    expect(misspelling.suggestions[0]).to.equal('This');
+    expect(misspelling.correction).not.to.equal('Thai');
+  });
+
+  it('searches two edits away when nothing is closer', () => {
+    expect(suggestSpelling('sepearte')[0]).to.equal('separate');
+    expect(suggestSpelling('tommorow')[0]).to.equal('tomorrow');
+  });
+
+  it('checks a sentence with typos in under 10ms once warmed up', () => {
+    findMisspellings('The managment recomended a sepearte comittee.');
+    findMisspellings('Thsi is hte wrold we live in.');
+
+    // Typos not used elsewhere, so no suggestion is cached
+    const sentences = [
+      'The goverment rememberd the occassion well.',
+      'Our neigbour recieved a pakage on tuesday.',
+      'She beleived the enviroment was importnat.',
+      'The libary was closd for maintanence.',
+      'We discused the buget at lenght.'
+    ];
+    const started = process.hrtime.bigint();
+    for (const sentence of sentences) {
+      expect(findMisspellings(sentence), sentence).to.have.length(3);
+    }
+    const perSentence = Number(process.hrtime.bigint() - started) / 1e6 / sentences.length;
+
+    expect(perSentence).to.be.below(10);
+  });
+
+  it('limits the number of suggestions', () => {
+    expect(suggestSpelling('teh', 2)).to.have.length(2);
+  });
+
+  it('offers nothing for words far from any dictionary entry', () => {
+    expect(suggestSpelling('qzxv')).to.deep.equal([]);
+  });
+
+  it('returns the dictionary casing of a word', () => {
+    expect(dictionarySpelling('paris')).to.equal('Paris');
+    expect(dictionarySpelling('qzxv')).to.equal(null);
+  });
+
+  it('finds misspellings with offsets and a correction when one is clearly best', () => {
+    const text = 'I recieve teh letter.';
+    const [receive, the] = findMisspellings(text);
+
+    expect(receive).to.include({ word: 'recieve', start: 2, end: 9, correction: 'receive' });
+    expect(receive.suggestions).to.include('relieve');
+    expect(text.slice(the.start, the.end)).to.equal('teh');
+  });
+
+  it('accepts custom words in any casing', () => {
+    setCustomWords(['Qzxv']);
+
+    expect(isWordCorrect('qzxv')).to.equal(true);
+    expect(isWordCorrect('QZXV')).to.equal(true);
+    expect(findMisspellings('The qzxv ran.')).to.deep.equal([]);
+  });
+});
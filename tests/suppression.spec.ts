@@ -0,0 +1,100 @@
+import { expect } from 'chai';
+import { SuppressibleResult, applySuppressions, parseSuppressions } from '../src/suppression';
+import { checkGrammar, checkGrammarReport } from '../src/grammarEngine';
+import { suggestStyle, suggestStyleReport } from '../src/styleService';
+
+function at(text: string, word: string, ruleId = 'misspelling', type = 'spelling'): SuppressibleResult {
+  const start = text.indexOf(word);
+  return { ruleId, type, start, end: start + word.length };
+}
+
+function reported(text: string, results: SuppressibleResult[], category: 'grammar' | 'style' = 'grammar', options = {}): string[] {
+  return applySuppressions(results, category, parseSuppressions(text, options)).results.map(result => text.slice(result.start, result.end));
+}
+
+describe('suppression directives', () => {
+  it('disables every rule until re-enabled', () => {
+    const text = 'one <!-- opengrammer-disable --> two <!-- opengrammer-enable --> three';
+    const results = ['one', 'two', 'three'].map(word => at(text, word));
+
+    expect(reported(text, results)).to.deep.equal(['one', 'three']);
+  });
+
+  it('disables only the listed rules, matched by id, type or category', () => {
+    const text = '<!-- opengrammer-disable misspelling, passive-voice --> alpha beta gamma';
+    const results = [
+      at(text, 'alpha', 'misspelling', 'spelling'),
+      at(text, 'beta', 'a-an', 'article'),
+      at(text, 'gamma', 'passive-voice', 'passive-voice')
+    ];
+
+    expect(reported(text, results)).to.deep.equal(['beta']);
+    expect(reported('<!-- opengrammer-disable article --> beta', [at('<!-- opengrammer-disable article --> beta', 'beta', 'a-an', 'article')])).to.deep.equal([]);
+    expect(reported('<!-- opengrammer-disable style --> beta', [at('<!-- opengrammer-disable style --> beta', 'beta', 'in-order-to', 'wordiness')], 'style')).to.deep.equal([]);
+  });
+
+  it('re-enables a single rule inside a disabled region', () => {
+    const text = '<!-- opengrammer-disable --> <!-- opengrammer-enable spelling --> alpha beta';
+    const results = [at(text, 'alpha', 'misspelling', 'spelling'), at(text, 'beta', 'a-an', 'article')];
+
+    expect(reported(text, results)).to.deep.equal(['alpha']);
+  });
+
+  it('disables the next line only', () => {
+    const text = 'first\n<!-- opengrammer-disable-next-line -->\nsecond\nthird';
+    const results = ['first', 'second', 'third'].map(word => at(text, word));
+
+    expect(reported(text, results)).to.deep.equal(['first', 'third']);
+  });
+
+  it('suppresses results inside the directive comments themselves', () => {
+    const text = '<!-- opengrammer-disable-next-line spelling -->\nword';
+
+    expect(reported(text, [at(text, 'opengrammer')])).to.deep.equal([]);
+  });
+
+  it('are ignored when directives are turned off', () => {
+    const text = '<!-- opengrammer-disable --> two';
+
+    expect(reported(text, [at(text, 'two')], 'grammar', { directives: false })).to.deep.equal(['two']);
+  });
+});
+
+describe('ignore ranges', () => {
+  it('drop results overlapping a range', () => {
+    const text = 'alpha beta gamma';
+    const results = ['alpha', 'beta', 'gamma'].map(word => at(text, word));
+
+    expect(reported(text, results, 'grammar', { ignoreRanges: [{ start: 8, end: 12 }] })).to.deep.equal(['alpha']);
+  });
+
+  it('report why each result was suppressed', () => {
+    const text = 'alpha <!-- opengrammer-disable --> beta';
+    const suppressions = parseSuppressions(text, { ignoreRanges: [{ start: 0, end: 5 }] });
+    const report = applySuppressions([at(text, 'alpha'), at(text, 'beta')], 'grammar', suppressions);
+
+    expect(report.results).to.deep.equal([]);
+    expect(report.suppressed.map(result => result.suppressedBy)).to.deep.equal(['ignore-range', 'directive']);
+  });
+});
+
+describe('engine suppression', () => {
+  it('hides grammar results and lists them in the report', () => {
+    const text = 'I saw a elephant.\n<!-- opengrammer-disable-next-line a-an -->\nI saw a elephant.';
+    const report = checkGrammarReport(text);
+
+    expect(report.results.map(result => result.line)).to.deep.equal([1]);
+    expect(report.suppressed.find(result => result.ruleId === 'a-an')).to.include({ line: 3, suppressedBy: 'directive' });
+  });
+
+  it('hides grammar results inside ignore ranges', () => {
+    expect(checkGrammar('I saw a elephant.', { ignoreRanges: [{ start: 6, end: 16 }] })).to.deep.equal([]);
+  });
+
+  it('hides style results disabled by category', () => {
+    const text = '<!-- opengrammer-disable style -->\nWe came in order to leave.';
+
+    expect(suggestStyle(text)).to.deep.equal([]);
+    expect(suggestStyleReport(text).suppressed.map(suggestion => suggestion.ruleId)).to.include('in-order-to');
+  });
+});
@@ -0,0 +1,58 @@
+import { expect } from 'chai';
+import { analyzeTense } from '../src/tenseAnalyzer';
+import { checkGrammar } from '../src/grammarEngine';
+
+function shifts(text: string): string[] {
+  return analyzeTense(text).flatMap(paragraph => paragraph.shifts.map(shift => shift.text));
+}
+
+describe('analyzeTense', () => {
+  it('finds the dominant tense and the verbs that shift away from it', () => {
+    const [paragraph] = analyzeTense('I walk to school. I talked to my friend. I eat lunch.');
+
+    expect(paragraph).to.include({ dominant: 'present', past: 1, present: 2 });
+    expect(paragraph.shifts).to.deep.equal([
+      { start: 20, end: 26, text: 'talked', tense: 'past', expected: 'present', reason: 'paragraph' }
+    ]);
+  });
+
+  it('reports present verbs after a fronted past time adverbial, with a fix', () => {
+    const [shift] = analyzeTense('Yesterday I walked to the store and I buy some milk.')[0].shifts;
+
+    expect(shift).to.include({ text: 'buy', expected: 'past', reason: 'adverbial', suggestion: 'bought' });
+  });
+
+  it('accepts consistent narration', () => {
+    expect(shifts('I walked to the store. Then I bought milk.')).to.deep.equal([]);
+    expect(shifts('I walk to the store. Then I buy milk.')).to.deep.equal([]);
+  });
+
+  it('allows reported speech and quotations to differ', () => {
+    expect(shifts('She says that he went home.')).to.deep.equal([]);
+    expect(shifts('He walked in. He said, "I am tired." He sat down.')).to.deep.equal([]);
+  });
+
+  it('has no dominant tense without a clear majority', () => {
+    const [paragraph] = analyzeTense('He went home. He is tired now.');
+
+    expect(paragraph.dominant).to.equal(null);
+    expect(paragraph.shifts).to.deep.equal([]);
+  });
+
+  it('analyses each paragraph on its own', () => {
+    const paragraphs = analyzeTense('I walked home. I cooked dinner.\n\nI walk home. I cook dinner.');
+
+    expect(paragraphs.map(paragraph => paragraph.dominant)).to.deep.equal(['past', 'present']);
+    expect(paragraphs[1].start).to.equal(33);
+  });
+});
+
+describe('tense-shift results', () => {
+  it('are reported by checkGrammar at the shifted verb', () => {
+    const text = 'I walk to school. I talked to my friend. I eat lunch.';
+    const [result] = checkGrammar(text).filter(entry => entry.ruleId === 'tense-shift');
+
+    expect(result).to.include({ start: 20, end: 26, text: 'talked' });
+    expect(result.message).to.contain('mostly in the present tense');
+  });
+});
@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import { findTypographyIssues } from '../src/typography';
+import { setTypographyPreferences, suggestStyle } from '../src/styleService';
+
+function fixes(text: string, preferences = {}): string[][] {
+  return findTypographyIssues(text, preferences).map(issue => [issue.ruleId, issue.text, issue.replacement]);
+}
+
+describe('findTypographyIssues', () => {
+  it('applies the default house style', () => {
+    expect(fixes('He said "hi" -- it\'s 10 km away... Really.  Yes.')).to.deep.equal([
+      ['typography-quotes', '"', '“'],
+      ['typography-quotes', '"', '”'],
+      ['typography-dashes', ' -- ', '—'],
+      ['typography-quotes', '\'', '’'],
+      ['typography-unit-space', ' ', ' '],
+      ['typography-ellipsis', '...', '…'],
+      ['typography-sentence-spacing', '  ', ' ']
+    ]);
+  });
+
+  it('gives offsets into the checked text', () => {
+    const text = 'Wait... now.';
+    const [issue] = findTypographyIssues(text);
+
+    expect(issue).to.include({ start: 4, end: 7 });
+    expect(text.slice(issue.start, issue.end)).to.equal(issue.text);
+  });
+
+  it('follows the chosen quote, dash and ellipsis styles', () => {
+    expect(fixes('He said “hi” — it’s here.', { quotes: 'straight', dashes: 'spaced-en' })).to.deep.equal([
+      ['typography-quotes', '“', '"'],
+      ['typography-quotes', '”', '"'],
+      ['typography-dashes', ' — ', ' – '],
+      ['typography-quotes', '’', '\'']
+    ]);
+    expect(fixes('Wait... now — ok.', { ellipsis: 'periods', dashes: 'spaced-em' })).to.deep.equal([]);
+    expect(fixes('Wait…', { ellipsis: 'periods' })).to.deep.equal([['typography-ellipsis', '…', '...']]);
+  });
+
+  it('turns apostrophes and elisions into closing quotes', () => {
+    expect(fixes('Rock \'n\' roll in the \'90s.').map(([, , replacement]) => replacement)).to.deep.equal(['’', '’', '’']);
+  });
+
+  it('leaves hyphenated words alone', () => {
+    expect(fixes('A well-known 5-year plan.')).to.deep.equal([]);
+  });
+
+  it('can turn off unit spaces and sentence spacing', () => {
+    expect(fixes('It is 10 km.  Yes.', { unitSpaces: false, singleSpaceAfterSentence: false })).to.deep.equal([]);
+  });
+});
+
+describe('typography in style checks', () => {
+  const text = 'Wait... now.';
+
+  afterEach(() => {
+    setTypographyPreferences(null);
+  });
+
+  it('is off unless preferences are set', () => {
+    expect(suggestStyle(text).map(suggestion => suggestion.ruleId)).not.to.include('typography-ellipsis');
+  });
+
+  it('runs with the service-wide or per-call preferences', () => {
+    setTypographyPreferences({ ellipsis: 'character' });
+    expect(suggestStyle(text).map(suggestion => [suggestion.ruleId, suggestion.suggestion])).to.deep.include(['typography-ellipsis', '…']);
+
+    expect(suggestStyle(text, { typography: false }).map(suggestion => suggestion.ruleId)).not.to.include('typography-ellipsis');
+  });
+});
@@ -0,0 +1,40 @@
+import { expect } from 'chai';
+import { mergeWritingPreferences } from '../src/writingPreferences';
+import { WritingPreferences } from '../src/types/settings';
+
+const STORED: WritingPreferences = {
+  locale: 'en-GB',
+  oxfordComma: 'require',
+  typography: { quotes: 'straight', dashes: 'spaced-en', unitSpaces: false },
+  readabilityAudience: 'academic'
+};
+
+describe('mergeWritingPreferences', () => {
+  it('keeps the settings a partial update leaves out', () => {
+    expect(mergeWritingPreferences(STORED, { typography: { quotes: 'curly' } })).to.deep.equal({
+      ...STORED,
+      typography: { quotes: 'curly', dashes: 'spaced-en', unitSpaces: false }
+    });
+    expect(mergeWritingPreferences(STORED, { readabilityAudience: 'children' })).to.deep.equal({ ...STORED, readabilityAudience: 'children' });
+  });
+
+  it('clears settings set to null', () => {
+    const preferences = mergeWritingPreferences(STORED, { locale: null, typography: { dashes: null } });
+
+    expect(preferences.locale).to.equal(undefined);
+    expect(preferences.typography).to.deep.equal({ quotes: 'straight', unitSpaces: false });
+  });
+
+  it('ignores unknown and invalid values', () => {
+    const update = { locale: 'fr-FR', oxfordComma: 'sometimes', typography: { quotes: 'fancy', colour: 'red' }, readabilityAudience: 'robots' };
+
+    expect(mergeWritingPreferences(STORED, update)).to.deep.equal(STORED);
+    expect(mergeWritingPreferences(STORED, 'nonsense')).to.deep.equal(STORED);
+  });
+
+  it('leaves the stored preferences unchanged', () => {
+    mergeWritingPreferences(STORED, { typography: { quotes: 'curly' } });
+
+    expect(STORED.typography.quotes).to.equal('straight');
+  });
+});